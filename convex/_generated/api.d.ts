@@ -8,6 +8,16 @@
  * @module
  */
 
+import type * as calendarEvents from "../calendarEvents.js";
+import type * as calendarFeeds from "../calendarFeeds.js";
+import type * as calendarWatch from "../calendarWatch.js";
+import type * as confirmations from "../confirmations.js";
+import type * as contacts from "../contacts.js";
+import type * as crons from "../crons.js";
+import type * as eventTemplates from "../eventTemplates.js";
+import type * as idempotency from "../idempotency.js";
+import type * as preferences from "../preferences.js";
+import type * as serverSecret from "../serverSecret.js";
 import type * as tokens from "../tokens.js";
 
 import type {
@@ -25,6 +35,16 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  calendarEvents: typeof calendarEvents;
+  calendarFeeds: typeof calendarFeeds;
+  calendarWatch: typeof calendarWatch;
+  confirmations: typeof confirmations;
+  contacts: typeof contacts;
+  crons: typeof crons;
+  eventTemplates: typeof eventTemplates;
+  idempotency: typeof idempotency;
+  preferences: typeof preferences;
+  serverSecret: typeof serverSecret;
   tokens: typeof tokens;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
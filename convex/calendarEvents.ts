@@ -0,0 +1,408 @@
+import { v } from "convex/values";
+import { query, mutation, internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+/**
+ * Mirror of users' calendar events, kept up to date with provider sync tokens
+ * Reads go here instead of hitting the calendar API on every list/search
+ */
+
+// Multi-day events that started before a range can still overlap it; ones up to this long
+// are found by start time, longer ones (flagged long) by end time
+const MAX_EVENT_DAYS = 31;
+const MAX_EVENT_MS = MAX_EVENT_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Get the sync state of a mirrored calendar (null until the first sync)
+ */
+export const getSyncState = query({
+  args: { clerkUserId: v.string(), calendarId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("calendarSyncStates")
+      .withIndex("by_user_calendar", (q) =>
+        q.eq("clerkUserId", args.clerkUserId).eq("calendarId", args.calendarId)
+      )
+      .first();
+  },
+});
+
+/**
+ * Record the outcome of a sync; a missing syncToken means the mirror is incomplete
+ */
+export const saveSyncState = mutation({
+  args: {
+    clerkUserId: v.string(),
+    calendarId: v.string(),
+    syncToken: v.optional(v.string()),
+    stale: v.boolean(),
+    coversFrom: v.optional(v.number()),
+    coversUntil: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("calendarSyncStates")
+      .withIndex("by_user_calendar", (q) =>
+        q.eq("clerkUserId", args.clerkUserId).eq("calendarId", args.calendarId)
+      )
+      .first();
+
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        syncToken: args.syncToken,
+        stale: args.stale,
+        coversFrom: args.coversFrom,
+        coversUntil: args.coversUntil,
+        lastSyncedAt: now,
+      });
+      return existing._id;
+    } else {
+      return await ctx.db.insert("calendarSyncStates", {
+        clerkUserId: args.clerkUserId,
+        calendarId: args.calendarId,
+        syncToken: args.syncToken,
+        stale: args.stale,
+        coversFrom: args.coversFrom,
+        coversUntil: args.coversUntil,
+        lastSyncedAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * When a sync last changed any of a user's mirrored events
+ * Clients subscribe to this to refetch after changes made outside the app
+ */
+export const getLastMirrorChange = query({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    const states = await ctx.db
+      .query("calendarSyncStates")
+      .withIndex("by_user_calendar", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .collect();
+
+    return Math.max(0, ...states.map((state) => state.lastChangedAt || 0));
+  },
+});
+
+/**
+ * Flag all of a user's mirrored calendars as out of date, e.g. after a write
+ */
+export const markMirrorStale = mutation({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    const states = await ctx.db
+      .query("calendarSyncStates")
+      .withIndex("by_user_calendar", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .collect();
+
+    for (const state of states) {
+      await ctx.db.patch(state._id, { stale: true });
+    }
+  },
+});
+
+/**
+ * Apply one page of sync results: insert or replace changed events and series, remove deleted ones
+ */
+export const applySyncPage = mutation({
+  args: {
+    clerkUserId: v.string(),
+    calendarId: v.string(),
+    upserts: v.array(
+      v.object({
+        eventId: v.string(),
+        startTime: v.number(),
+        endTime: v.number(),
+        event: v.any(),
+      })
+    ),
+    series: v.optional(
+      v.array(
+        v.object({
+          seriesId: v.string(),
+          recurrence: v.optional(v.array(v.string())),
+        })
+      )
+    ),
+    deletes: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const findEvent = (eventId: string) =>
+      ctx.db
+        .query("calendarEvents")
+        .withIndex("by_user_calendar_event", (q) =>
+          q
+            .eq("clerkUserId", args.clerkUserId)
+            .eq("calendarId", args.calendarId)
+            .eq("eventId", eventId)
+        )
+        .first();
+
+    const findSeries = (seriesId: string) =>
+      ctx.db
+        .query("calendarEventSeries")
+        .withIndex("by_user_calendar_series", (q) =>
+          q
+            .eq("clerkUserId", args.clerkUserId)
+            .eq("calendarId", args.calendarId)
+            .eq("seriesId", seriesId)
+        )
+        .first();
+
+    const now = Date.now();
+
+    for (const upsert of args.upserts) {
+      const existing = await findEvent(upsert.eventId);
+      const long = upsert.endTime - upsert.startTime > MAX_EVENT_MS || undefined;
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          startTime: upsert.startTime,
+          endTime: upsert.endTime,
+          long,
+          event: upsert.event,
+          updatedAt: now,
+        });
+      } else {
+        await ctx.db.insert("calendarEvents", {
+          clerkUserId: args.clerkUserId,
+          calendarId: args.calendarId,
+          ...upsert,
+          long,
+          updatedAt: now,
+        });
+      }
+    }
+
+    for (const series of args.series ?? []) {
+      const existing = await findSeries(series.seriesId);
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          recurrence: series.recurrence,
+          updatedAt: now,
+        });
+      } else {
+        await ctx.db.insert("calendarEventSeries", {
+          clerkUserId: args.clerkUserId,
+          calendarId: args.calendarId,
+          ...series,
+          updatedAt: now,
+        });
+      }
+    }
+
+    for (const eventId of args.deletes) {
+      const existing = await findEvent(eventId);
+      if (existing) {
+        await ctx.db.delete(existing._id);
+      }
+      const series = await findSeries(eventId);
+      if (series) {
+        await ctx.db.delete(series._id);
+      }
+    }
+
+    if (
+      args.upserts.length > 0 ||
+      args.deletes.length > 0 ||
+      (args.series?.length ?? 0) > 0
+    ) {
+      const state = await ctx.db
+        .query("calendarSyncStates")
+        .withIndex("by_user_calendar", (q) =>
+          q.eq("clerkUserId", args.clerkUserId).eq("calendarId", args.calendarId)
+        )
+        .first();
+      if (state) {
+        await ctx.db.patch(state._id, { lastChangedAt: now });
+      }
+    }
+  },
+});
+
+/**
+ * Mirrored events overlapping [timeMin, timeMax), by start time
+ * Long events that started well before timeMin come from the end time index
+ */
+export const listMirroredEvents = query({
+  args: {
+    clerkUserId: v.string(),
+    calendarId: v.string(),
+    timeMin: v.number(),
+    timeMax: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query("calendarEvents")
+      .withIndex("by_user_calendar_start", (q) =>
+        q
+          .eq("clerkUserId", args.clerkUserId)
+          .eq("calendarId", args.calendarId)
+          .gte("startTime", args.timeMin - MAX_EVENT_MS)
+          .lt("startTime", args.timeMax)
+      )
+      .collect();
+    const longRows = await ctx.db
+      .query("calendarEvents")
+      .withIndex("by_user_calendar_long_end", (q) =>
+        q
+          .eq("clerkUserId", args.clerkUserId)
+          .eq("calendarId", args.calendarId)
+          .eq("long", true)
+          .gt("endTime", args.timeMin)
+      )
+      .collect();
+
+    const seen = new Set(rows.map((row) => row._id));
+    return [
+      ...longRows.filter(
+        (row) => row.startTime < args.timeMin - MAX_EVENT_MS && !seen.has(row._id)
+      ),
+      ...rows.filter((row) => row.endTime > args.timeMin),
+    ]
+      .sort((a, b) => a.startTime - b.startTime)
+      .map((row) => row.event);
+  },
+});
+
+/**
+ * Rules of mirrored series by id, for describing their instances; series not mirrored are left out
+ */
+export const getMirroredSeries = query({
+  args: {
+    clerkUserId: v.string(),
+    calendarId: v.string(),
+    seriesIds: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const found: Record<string, string[] | null> = {};
+    for (const seriesId of args.seriesIds) {
+      const series = await ctx.db
+        .query("calendarEventSeries")
+        .withIndex("by_user_calendar_series", (q) =>
+          q
+            .eq("clerkUserId", args.clerkUserId)
+            .eq("calendarId", args.calendarId)
+            .eq("seriesId", seriesId)
+        )
+        .first();
+      if (series) {
+        found[seriesId] = series.recurrence ?? null;
+      }
+    }
+    return found;
+  },
+});
+
+/**
+ * Delete mirrored events and series in chunks (one calendar, or all of a user's)
+ * Returns done: false while more are left; sync states go once the events are gone
+ */
+export const clearMirroredEvents = mutation({
+  args: {
+    clerkUserId: v.string(),
+    calendarId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query("calendarEvents")
+      .withIndex("by_user_calendar_event", (q) =>
+        args.calendarId === undefined
+          ? q.eq("clerkUserId", args.clerkUserId)
+          : q.eq("clerkUserId", args.clerkUserId).eq("calendarId", args.calendarId)
+      )
+      .take(500);
+
+    for (const row of rows) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (rows.length === 500) {
+      return { done: false };
+    }
+
+    const seriesRows = await ctx.db
+      .query("calendarEventSeries")
+      .withIndex("by_user_calendar_series", (q) =>
+        args.calendarId === undefined
+          ? q.eq("clerkUserId", args.clerkUserId)
+          : q.eq("clerkUserId", args.clerkUserId).eq("calendarId", args.calendarId)
+      )
+      .take(500);
+
+    for (const row of seriesRows) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (seriesRows.length === 500) {
+      return { done: false };
+    }
+
+    if (args.calendarId === undefined) {
+      const states = await ctx.db
+        .query("calendarSyncStates")
+        .withIndex("by_user_calendar", (q) =>
+          q.eq("clerkUserId", args.clerkUserId)
+        )
+        .collect();
+      for (const state of states) {
+        await ctx.db.delete(state._id);
+      }
+    }
+
+    return { done: true };
+  },
+});
+
+/**
+ * Start a full sync of a calendar in the background, e.g. when a read finds it
+ * not synced yet or asks for more than it covers
+ */
+export const scheduleFullSync = mutation({
+  args: { clerkUserId: v.string(), calendarId: v.string() },
+  handler: async (ctx, args) => {
+    await ctx.scheduler.runAfter(0, internal.calendarEvents.runFullSync, args);
+  },
+});
+
+/**
+ * Ask the app to run a full sync; Google calls can't be made from here,
+ * so this goes through the app's sync route like channel renewals do
+ */
+export const runFullSync = internalAction({
+  args: { clerkUserId: v.string(), calendarId: v.string() },
+  handler: async (_ctx, args): Promise<void> => {
+    const webhookUrl = process.env.CALENDAR_WEBHOOK_URL;
+    const secret = process.env.CALENDAR_WEBHOOK_SECRET;
+
+    if (!webhookUrl || !secret) {
+      console.error(
+        "CALENDAR_WEBHOOK_URL and CALENDAR_WEBHOOK_SECRET must be set to sync in the background"
+      );
+      return;
+    }
+
+    // A failed sync isn't retried here; the next read schedules another once the last one is old enough
+    const response = await fetch(`${webhookUrl}/sync`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${secret}`,
+      },
+      body: JSON.stringify(args),
+    });
+
+    if (!response.ok) {
+      console.error(
+        `Full sync of ${args.calendarId} failed: sync route responded ${response.status}`
+      );
+    }
+  },
+});
@@ -0,0 +1,90 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+/**
+ * Secret-token .ics subscription feeds, one per user
+ */
+
+/**
+ * Get the feed a token belongs to (null for unknown or revoked tokens)
+ */
+export const getFeedByToken = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("calendarFeeds")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+  },
+});
+
+/**
+ * Get a user's feed
+ */
+export const getUserFeed = query({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("calendarFeeds")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+  },
+});
+
+/**
+ * Create a user's feed, replacing the token of an existing one
+ */
+export const upsertUserFeed = mutation({
+  args: {
+    clerkUserId: v.string(),
+    token: v.string(),
+    calendarId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("calendarFeeds")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        token: args.token,
+        calendarId: args.calendarId,
+        createdAt: now,
+      });
+      return existing._id;
+    } else {
+      return await ctx.db.insert("calendarFeeds", {
+        clerkUserId: args.clerkUserId,
+        token: args.token,
+        calendarId: args.calendarId,
+        createdAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * Revoke a user's feed
+ */
+export const deleteUserFeed = mutation({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("calendarFeeds")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
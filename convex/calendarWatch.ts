@@ -0,0 +1,205 @@
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalAction,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireServerSecret, secretsMatch } from "./serverSecret";
+
+/**
+ * Google push notification channels, one per watched calendar
+ * Each channel schedules its own renewal shortly before Google expires it
+ */
+
+// Renew early enough that a slow or failed attempt can be retried before expiry
+const RENEW_BEFORE_MS = 60 * 60 * 1000;
+const RENEW_RETRY_MS = 5 * 60 * 1000;
+
+async function findChannel(ctx: QueryCtx, channelId: string) {
+  return await ctx.db
+    .query("calendarWatchChannels")
+    .withIndex("by_channel_id", (q) => q.eq("channelId", channelId))
+    .first();
+}
+
+/**
+ * Channels as clients see them; the token only ever leaves here on Google's requests
+ */
+function withoutToken(channel: Doc<"calendarWatchChannels">) {
+  const { token: _token, ...rest } = channel;
+  return rest;
+}
+
+/**
+ * Get a channel by the id Google sends in X-Goog-Channel-ID, token included
+ */
+export const getWatchChannel = internalQuery({
+  args: { channelId: v.string() },
+  handler: async (ctx, args) => {
+    return await findChannel(ctx, args.channelId);
+  },
+});
+
+/**
+ * Get a channel without its token, e.g. to renew it
+ */
+export const findWatchChannel = query({
+  args: { channelId: v.string() },
+  handler: async (ctx, args) => {
+    const channel = await findChannel(ctx, args.channelId);
+    return channel ? withoutToken(channel) : null;
+  },
+});
+
+/**
+ * Check the token and resource a notification came with against its channel
+ * Server only, so channel tokens can't be guessed through it
+ */
+export const verifyWatchChannel = query({
+  args: {
+    serverSecret: v.string(),
+    channelId: v.string(),
+    token: v.string(),
+    resourceId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    requireServerSecret(args.serverSecret);
+    const channel = await findChannel(ctx, args.channelId);
+    if (!channel) {
+      return { status: "unknown" as const };
+    }
+    if (
+      !secretsMatch(args.token, channel.token) ||
+      args.resourceId !== channel.resourceId
+    ) {
+      return { status: "invalid" as const };
+    }
+    return { status: "valid" as const, channel: withoutToken(channel) };
+  },
+});
+
+/**
+ * List a user's channels, without their tokens
+ */
+export const listWatchChannels = query({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    const channels = await ctx.db
+      .query("calendarWatchChannels")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .collect();
+    return channels.map(withoutToken);
+  },
+});
+
+/**
+ * Store a new channel and schedule its renewal; server only
+ */
+export const saveWatchChannel = mutation({
+  args: {
+    serverSecret: v.string(),
+    clerkUserId: v.string(),
+    calendarId: v.string(),
+    channelId: v.string(),
+    resourceId: v.string(),
+    token: v.string(),
+    expiration: v.number(),
+    local: v.optional(v.boolean()),
+  },
+  handler: async (
+    ctx,
+    { serverSecret, ...args }
+  ): Promise<Id<"calendarWatchChannels">> => {
+    requireServerSecret(serverSecret);
+
+    // Local test channels aren't known to Google, so there's nothing to renew
+    const renewalId: Id<"_scheduled_functions"> | undefined = args.local
+      ? undefined
+      : await ctx.scheduler.runAt(
+          Math.max(args.expiration - RENEW_BEFORE_MS, Date.now()),
+          internal.calendarWatch.renewWatchChannel,
+          { channelId: args.channelId }
+        );
+
+    return await ctx.db.insert("calendarWatchChannels", {
+      ...args,
+      renewalId,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Remove a channel and its pending renewal; server only
+ */
+export const deleteWatchChannel = mutation({
+  args: { serverSecret: v.string(), channelId: v.string() },
+  handler: async (ctx, args) => {
+    requireServerSecret(args.serverSecret);
+    const channel = await ctx.db
+      .query("calendarWatchChannels")
+      .withIndex("by_channel_id", (q) => q.eq("channelId", args.channelId))
+      .first();
+
+    if (channel) {
+      if (channel.renewalId) {
+        await ctx.scheduler.cancel(channel.renewalId);
+      }
+      await ctx.db.delete(channel._id);
+    }
+  },
+});
+
+/**
+ * Ask the app to replace a channel before it expires, retrying until it does or the channel is gone
+ * Google calls can't be made from here, so this goes through the app's renew route
+ */
+export const renewWatchChannel = internalAction({
+  args: { channelId: v.string() },
+  handler: async (ctx, args): Promise<void> => {
+    const webhookUrl = process.env.CALENDAR_WEBHOOK_URL;
+    const secret = process.env.CALENDAR_WEBHOOK_SECRET;
+
+    if (!webhookUrl || !secret) {
+      console.error(
+        "CALENDAR_WEBHOOK_URL and CALENDAR_WEBHOOK_SECRET must be set to renew channels"
+      );
+      return;
+    }
+
+    try {
+      const response = await fetch(`${webhookUrl}/renew`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${secret}`,
+        },
+        body: JSON.stringify({ channelId: args.channelId }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Renew route responded ${response.status}`);
+      }
+    } catch (error) {
+      console.error(`Failed to renew channel ${args.channelId}:`, error);
+
+      // A successful renewal deletes the old channel, so one still here needs another try
+      const channel = await ctx.runQuery(internal.calendarWatch.getWatchChannel, {
+        channelId: args.channelId,
+      });
+      if (channel && Date.now() + RENEW_RETRY_MS < channel.expiration) {
+        await ctx.scheduler.runAfter(
+          RENEW_RETRY_MS,
+          internal.calendarWatch.renewWatchChannel,
+          { channelId: args.channelId }
+        );
+      }
+    }
+  },
+});
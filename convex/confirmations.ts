@@ -0,0 +1,110 @@
+import { v } from "convex/values";
+import { mutation, internalMutation } from "./_generated/server";
+
+/**
+ * Confirmation tokens for destructive calendar changes
+ * A dry run issues one; the real request must present it, once, before it expires
+ */
+
+/**
+ * Store a token issued with a dry-run preview
+ */
+export const issueConfirmationToken = mutation({
+  args: {
+    clerkUserId: v.string(),
+    token: v.string(),
+    route: v.string(),
+    requestHash: v.string(),
+    summary: v.string(),
+    ttlMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    await ctx.db.insert("confirmationTokens", {
+      clerkUserId: args.clerkUserId,
+      token: args.token,
+      route: args.route,
+      requestHash: args.requestHash,
+      summary: args.summary,
+      createdAt: now,
+      expiresAt: now + args.ttlMs,
+    });
+  },
+});
+
+/**
+ * Use up a token for a request
+ * Returns "confirmed" to go ahead, or "invalid", "expired", "used" or "mismatch"
+ * when it wasn't issued for this user and request or can't be used anymore
+ * A change that then fails hands the token back with releaseConfirmationToken
+ */
+export const consumeConfirmationToken = mutation({
+  args: {
+    clerkUserId: v.string(),
+    token: v.string(),
+    route: v.string(),
+    requestHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("confirmationTokens")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+
+    if (!existing || existing.clerkUserId !== args.clerkUserId) {
+      return { status: "invalid" as const };
+    }
+    if (existing.expiresAt <= Date.now()) {
+      return { status: "expired" as const };
+    }
+    if (existing.usedAt !== undefined) {
+      return { status: "used" as const };
+    }
+    if (
+      existing.route !== args.route ||
+      existing.requestHash !== args.requestHash
+    ) {
+      return { status: "mismatch" as const };
+    }
+
+    await ctx.db.patch(existing._id, { usedAt: Date.now() });
+    return { status: "confirmed" as const };
+  },
+});
+
+/**
+ * Make a used token usable again, after the change it confirmed failed
+ */
+export const releaseConfirmationToken = mutation({
+  args: {
+    clerkUserId: v.string(),
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("confirmationTokens")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+
+    if (existing && existing.clerkUserId === args.clerkUserId) {
+      await ctx.db.patch(existing._id, { usedAt: undefined });
+    }
+  },
+});
+
+/**
+ * Delete expired tokens in chunks; run by the cron in crons.ts
+ */
+export const deleteExpiredConfirmationTokens = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("confirmationTokens")
+      .withIndex("by_expires_at", (q) => q.lt("expiresAt", Date.now()))
+      .take(500);
+
+    for (const record of expired) {
+      await ctx.db.delete(record._id);
+    }
+  },
+});
@@ -0,0 +1,202 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+/**
+ * Address book for turning names ("lunch with Alex") into attendee emails
+ * Seeded from attendees of past events; names and aliases come from the user
+ */
+
+/**
+ * List a user's contacts, most frequently met first
+ */
+export const listContacts = query({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    const contacts = await ctx.db
+      .query("contacts")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .collect();
+
+    return contacts
+      .filter((contact) => !contact.hidden)
+      .sort((a, b) => b.eventCount - a.eventCount);
+  },
+});
+
+/**
+ * When contacts were last collected from past events (null if never)
+ */
+export const getContactSeedState = query({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("contactSeedStates")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+  },
+});
+
+/**
+ * Record attendees seen in past events
+ * Counts are replaced, so seeding the same window again doesn't inflate them;
+ * names the user set are kept
+ */
+export const recordSeenContacts = mutation({
+  args: {
+    clerkUserId: v.string(),
+    contacts: v.array(
+      v.object({
+        email: v.string(),
+        name: v.optional(v.string()),
+        eventCount: v.number(),
+        lastSeenAt: v.number(),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    for (const seen of args.contacts) {
+      const email = seen.email.toLowerCase();
+      const existing = await ctx.db
+        .query("contacts")
+        .withIndex("by_user_email", (q) =>
+          q.eq("clerkUserId", args.clerkUserId).eq("email", email)
+        )
+        .first();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          name: existing.name ?? seen.name,
+          eventCount: seen.eventCount,
+          lastSeenAt: Math.max(existing.lastSeenAt ?? 0, seen.lastSeenAt),
+          updatedAt: now,
+        });
+      } else {
+        await ctx.db.insert("contacts", {
+          clerkUserId: args.clerkUserId,
+          email,
+          name: seen.name,
+          aliases: [],
+          eventCount: seen.eventCount,
+          lastSeenAt: seen.lastSeenAt,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    }
+
+    const state = await ctx.db
+      .query("contactSeedStates")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+    if (state) {
+      await ctx.db.patch(state._id, { seededAt: now });
+    } else {
+      await ctx.db.insert("contactSeedStates", {
+        clerkUserId: args.clerkUserId,
+        seededAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * Add a contact, or bring back and update a deleted or seeded one with the same email
+ */
+export const saveContact = mutation({
+  args: {
+    clerkUserId: v.string(),
+    email: v.string(),
+    name: v.optional(v.string()),
+    aliases: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const email = args.email.toLowerCase();
+    const existing = await ctx.db
+      .query("contacts")
+      .withIndex("by_user_email", (q) =>
+        q.eq("clerkUserId", args.clerkUserId).eq("email", email)
+      )
+      .first();
+
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        name: args.name ?? existing.name,
+        aliases: args.aliases,
+        hidden: undefined,
+        updatedAt: now,
+      });
+      return existing._id;
+    } else {
+      return await ctx.db.insert("contacts", {
+        clerkUserId: args.clerkUserId,
+        email,
+        name: args.name,
+        aliases: args.aliases,
+        eventCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * Change a contact's name and aliases
+ */
+export const updateContact = mutation({
+  args: {
+    clerkUserId: v.string(),
+    contactId: v.id("contacts"),
+    name: v.optional(v.string()),
+    aliases: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const contact = await ctx.db.get(args.contactId);
+    if (!contact || contact.clerkUserId !== args.clerkUserId) {
+      throw new Error("Contact not found");
+    }
+
+    await ctx.db.patch(args.contactId, {
+      name: args.name,
+      aliases: args.aliases,
+      updatedAt: Date.now(),
+    });
+    return args.contactId;
+  },
+});
+
+/**
+ * Delete a contact
+ * Contacts seen in events are only hidden, so the next seeding doesn't add them again
+ */
+export const deleteContact = mutation({
+  args: {
+    clerkUserId: v.string(),
+    contactId: v.id("contacts"),
+  },
+  handler: async (ctx, args) => {
+    const contact = await ctx.db.get(args.contactId);
+    if (!contact || contact.clerkUserId !== args.clerkUserId) {
+      throw new Error("Contact not found");
+    }
+
+    if (contact.eventCount > 0) {
+      await ctx.db.patch(args.contactId, {
+        hidden: true,
+        updatedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.delete(args.contactId);
+    }
+  },
+});
@@ -0,0 +1,18 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.hourly(
+  "delete expired idempotency keys",
+  { minuteUTC: 0 },
+  internal.idempotency.deleteExpiredIdempotencyKeys
+);
+
+crons.hourly(
+  "delete expired confirmation tokens",
+  { minuteUTC: 30 },
+  internal.confirmations.deleteExpiredConfirmationTokens
+);
+
+export default crons;
@@ -0,0 +1,99 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+/**
+ * Reusable event templates ("standup", "focus block"), per user
+ * Input is validated by the templates routes; these only store it
+ */
+
+const templateFields = {
+  name: v.string(),
+  title: v.string(),
+  durationMinutes: v.number(),
+  startTime: v.optional(v.string()),
+  calendarId: v.optional(v.string()),
+  location: v.optional(v.string()),
+  attendees: v.optional(v.array(v.string())),
+  description: v.optional(v.string()),
+  colorId: v.optional(v.string()),
+  visibility: v.optional(v.string()),
+  transparency: v.optional(v.string()),
+  reminders: v.optional(v.any()),
+  addVideoCall: v.optional(v.boolean()),
+};
+
+/**
+ * List a user's templates by name
+ */
+export const listTemplates = query({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    const templates = await ctx.db
+      .query("eventTemplates")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .collect();
+
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Create a template
+ */
+export const createTemplate = mutation({
+  args: { clerkUserId: v.string(), ...templateFields },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    return await ctx.db.insert("eventTemplates", {
+      ...args,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Replace a template's fields; fields left out are cleared
+ */
+export const updateTemplate = mutation({
+  args: {
+    clerkUserId: v.string(),
+    templateId: v.id("eventTemplates"),
+    ...templateFields,
+  },
+  handler: async (ctx, args) => {
+    const { clerkUserId, templateId, ...fields } = args;
+    const template = await ctx.db.get(templateId);
+    if (!template || template.clerkUserId !== clerkUserId) {
+      throw new Error("Template not found");
+    }
+
+    await ctx.db.replace(templateId, {
+      clerkUserId,
+      ...fields,
+      createdAt: template.createdAt,
+      updatedAt: Date.now(),
+    });
+    return templateId;
+  },
+});
+
+/**
+ * Delete a template
+ */
+export const deleteTemplate = mutation({
+  args: {
+    clerkUserId: v.string(),
+    templateId: v.id("eventTemplates"),
+  },
+  handler: async (ctx, args) => {
+    const template = await ctx.db.get(args.templateId);
+    if (!template || template.clerkUserId !== args.clerkUserId) {
+      throw new Error("Template not found");
+    }
+
+    await ctx.db.delete(args.templateId);
+  },
+});
@@ -0,0 +1,135 @@
+import { v } from "convex/values";
+import { mutation, internalMutation } from "./_generated/server";
+
+/**
+ * Idempotency keys for calendar mutations: the first request with a key runs,
+ * replays within the TTL get its stored response instead of changing the calendar again
+ */
+
+// A request that never finished (e.g. the server died) stops blocking its key after this
+const PENDING_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Claim a key before running a request
+ * Returns "claimed" to go ahead, "completed" with the stored response to replay it,
+ * "in_progress" while the first request runs, or "mismatch" when the key was used for a different request
+ */
+export const claimIdempotencyKey = mutation({
+  args: {
+    clerkUserId: v.string(),
+    key: v.string(),
+    route: v.string(),
+    requestHash: v.string(),
+    ttlMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("idempotencyKeys")
+      .withIndex("by_user_key", (q) =>
+        q.eq("clerkUserId", args.clerkUserId).eq("key", args.key)
+      )
+      .first();
+
+    const now = Date.now();
+
+    if (existing && existing.expiresAt > now) {
+      if (
+        existing.route !== args.route ||
+        existing.requestHash !== args.requestHash
+      ) {
+        return { status: "mismatch" as const };
+      }
+
+      if (existing.completedAt !== undefined) {
+        return {
+          status: "completed" as const,
+          response: existing.response,
+          statusCode: existing.statusCode ?? 200,
+        };
+      }
+
+      if (existing.createdAt > now - PENDING_TIMEOUT_MS) {
+        return { status: "in_progress" as const };
+      }
+    }
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+
+    await ctx.db.insert("idempotencyKeys", {
+      clerkUserId: args.clerkUserId,
+      key: args.key,
+      route: args.route,
+      requestHash: args.requestHash,
+      createdAt: now,
+      expiresAt: now + args.ttlMs,
+    });
+
+    return { status: "claimed" as const };
+  },
+});
+
+/**
+ * Store the response of a claimed request for replays
+ */
+export const completeIdempotencyKey = mutation({
+  args: {
+    clerkUserId: v.string(),
+    key: v.string(),
+    response: v.any(),
+    statusCode: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("idempotencyKeys")
+      .withIndex("by_user_key", (q) =>
+        q.eq("clerkUserId", args.clerkUserId).eq("key", args.key)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        response: args.response,
+        statusCode: args.statusCode,
+        completedAt: Date.now(),
+      });
+    }
+  },
+});
+
+/**
+ * Forget a claimed key so the request can be retried, e.g. after a server error
+ */
+export const releaseIdempotencyKey = mutation({
+  args: { clerkUserId: v.string(), key: v.string() },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("idempotencyKeys")
+      .withIndex("by_user_key", (q) =>
+        q.eq("clerkUserId", args.clerkUserId).eq("key", args.key)
+      )
+      .first();
+
+    if (existing && existing.completedAt === undefined) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+/**
+ * Delete expired keys in chunks; run by the cron in crons.ts
+ */
+export const deleteExpiredIdempotencyKeys = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("idempotencyKeys")
+      .withIndex("by_expires_at", (q) => q.lt("expiresAt", Date.now()))
+      .take(500);
+
+    for (const record of expired) {
+      await ctx.db.delete(record._id);
+    }
+  },
+});
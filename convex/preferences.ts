@@ -0,0 +1,133 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+/**
+ * Get a user's calendar preferences (null until something is saved)
+ */
+export const getUserPreferences = query({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("userPreferences")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+  },
+});
+
+/**
+ * Set the calendar used when a request doesn't name one
+ */
+export const setDefaultCalendar = mutation({
+  args: {
+    clerkUserId: v.string(),
+    defaultCalendarId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("userPreferences")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        defaultCalendarId: args.defaultCalendarId,
+        updatedAt: now,
+      });
+      return existing._id;
+    } else {
+      return await ctx.db.insert("userPreferences", {
+        clerkUserId: args.clerkUserId,
+        defaultCalendarId: args.defaultCalendarId,
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * Set the IANA timezone used for local times the user gives
+ */
+export const setTimeZone = mutation({
+  args: {
+    clerkUserId: v.string(),
+    timeZone: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("userPreferences")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        timeZone: args.timeZone,
+        updatedAt: now,
+      });
+      return existing._id;
+    } else {
+      return await ctx.db.insert("userPreferences", {
+        clerkUserId: args.clerkUserId,
+        timeZone: args.timeZone,
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * Set working hours, default meeting length, buffer and no-meeting days
+ * All four are replaced; leaving one out clears it
+ */
+export const setSchedulingPreferences = mutation({
+  args: {
+    clerkUserId: v.string(),
+    workingHours: v.optional(
+      v.array(
+        v.object({
+          day: v.number(),
+          start: v.string(),
+          end: v.string(),
+        })
+      )
+    ),
+    defaultDurationMinutes: v.optional(v.number()),
+    bufferMinutes: v.optional(v.number()),
+    noMeetingDays: v.optional(v.array(v.number())),
+  },
+  handler: async (ctx, args) => {
+    const { clerkUserId, ...preferences } = args;
+    const existing = await ctx.db
+      .query("userPreferences")
+      .withIndex("by_clerk_user_id", (q) => q.eq("clerkUserId", clerkUserId))
+      .first();
+
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        workingHours: preferences.workingHours,
+        defaultDurationMinutes: preferences.defaultDurationMinutes,
+        bufferMinutes: preferences.bufferMinutes,
+        noMeetingDays: preferences.noMeetingDays,
+        updatedAt: now,
+      });
+      return existing._id;
+    } else {
+      return await ctx.db.insert("userPreferences", {
+        clerkUserId,
+        ...preferences,
+        updatedAt: now,
+      });
+    }
+  },
+});
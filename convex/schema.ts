@@ -11,13 +11,172 @@ export default defineSchema({
     updatedAt: v.number(),
   }).index("by_clerk_user_id", ["clerkUserId"]),
 
+  caldavCredentials: defineTable({
+    clerkUserId: v.string(),
+    serverUrl: v.string(),
+    username: v.string(),
+    password: v.string(),
+    calendarUrl: v.string(), // Discovered calendar collection URL
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_clerk_user_id", ["clerkUserId"]),
+
   actionLogs: defineTable({
     clerkUserId: v.string(),
-    action: v.string(), // 'create', 'update', 'delete', 'list'
+    action: v.string(), // 'create', 'update', 'delete', 'list', 'respond', 'batch', 'undo', 'import'
     details: v.optional(v.any()),
+    sessionId: v.optional(v.string()), // Voice session the action came from
+    snapshot: v.optional(v.any()), // Event state needed to undo the action
+    undoneAt: v.optional(v.number()),
     timestamp: v.number(),
   }).index("by_clerk_user_id", ["clerkUserId"]),
 
+  userPreferences: defineTable({
+    clerkUserId: v.string(),
+    defaultCalendarId: v.optional(v.string()),
+    timeZone: v.optional(v.string()), // IANA zone, e.g. "Europe/Berlin"
+    workingHours: v.optional(
+      v.array(
+        v.object({
+          day: v.number(), // 0 = Sunday; days left out aren't working days
+          start: v.string(), // Local "HH:mm"
+          end: v.string(),
+        })
+      )
+    ),
+    defaultDurationMinutes: v.optional(v.number()), // For events given without an end
+    bufferMinutes: v.optional(v.number()), // Free time to keep between meetings
+    noMeetingDays: v.optional(v.array(v.number())), // Weekdays kept free of meetings, 0 = Sunday
+    updatedAt: v.number(),
+  }).index("by_clerk_user_id", ["clerkUserId"]),
+
+  calendarEvents: defineTable({
+    clerkUserId: v.string(),
+    calendarId: v.string(),
+    eventId: v.string(),
+    startTime: v.number(), // Unix timestamp, for range queries
+    endTime: v.number(),
+    long: v.optional(v.boolean()), // Longer than range queries look back by start; found by end instead
+    event: v.any(), // Event as the calendar provider returns it
+    updatedAt: v.number(),
+  })
+    .index("by_user_calendar_start", ["clerkUserId", "calendarId", "startTime"])
+    .index("by_user_calendar_long_end", [
+      "clerkUserId",
+      "calendarId",
+      "long",
+      "endTime",
+    ])
+    .index("by_user_calendar_event", ["clerkUserId", "calendarId", "eventId"]),
+
+  // Recurring series whose instances are mirrored; instances don't carry the rule
+  calendarEventSeries: defineTable({
+    clerkUserId: v.string(),
+    calendarId: v.string(),
+    seriesId: v.string(),
+    recurrence: v.optional(v.array(v.string())), // RRULE/EXDATE lines of the series
+    updatedAt: v.number(),
+  }).index("by_user_calendar_series", ["clerkUserId", "calendarId", "seriesId"]),
+
+  calendarSyncStates: defineTable({
+    clerkUserId: v.string(),
+    calendarId: v.string(),
+    syncToken: v.optional(v.string()), // Unset until a full sync has completed
+    stale: v.boolean(), // Set after writes so the next read syncs first
+    coversFrom: v.optional(v.number()), // Events ending before this weren't mirrored
+    coversUntil: v.optional(v.number()), // Events starting after this weren't mirrored
+    lastChangedAt: v.optional(v.number()), // Last sync that changed events; the UI refreshes on it
+    lastSyncedAt: v.number(),
+  }).index("by_user_calendar", ["clerkUserId", "calendarId"]),
+
+  calendarWatchChannels: defineTable({
+    clerkUserId: v.string(),
+    calendarId: v.string(),
+    channelId: v.string(), // Our id for the channel, sent back in X-Goog-Channel-ID
+    resourceId: v.string(), // Google's id for the watched calendar
+    token: v.string(), // Secret Google echoes in X-Goog-Channel-Token
+    expiration: v.number(), // Unix timestamp
+    renewalId: v.optional(v.id("_scheduled_functions")),
+    local: v.optional(v.boolean()), // Created by the test harness, never registered with Google
+    createdAt: v.number(),
+  })
+    .index("by_channel_id", ["channelId"])
+    .index("by_clerk_user_id", ["clerkUserId"]),
+
+  calendarFeeds: defineTable({
+    clerkUserId: v.string(),
+    token: v.string(), // Secret in the feed URL; rotating it revokes the old URL
+    calendarId: v.optional(v.string()), // Defaults to the user's default calendar
+    createdAt: v.number(),
+  })
+    .index("by_token", ["token"])
+    .index("by_clerk_user_id", ["clerkUserId"]),
+
+  idempotencyKeys: defineTable({
+    clerkUserId: v.string(),
+    key: v.string(), // Idempotency-Key header
+    route: v.string(), // e.g. "create"; a key can't be reused across routes
+    requestHash: v.string(), // SHA-256 of the request body
+    response: v.optional(v.any()), // JSON body to replay
+    statusCode: v.optional(v.number()),
+    completedAt: v.optional(v.number()), // Unset while the first request is running
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_user_key", ["clerkUserId", "key"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  confirmationTokens: defineTable({
+    clerkUserId: v.string(),
+    token: v.string(),
+    route: v.string(), // e.g. "delete"; a token only confirms the route that issued it
+    requestHash: v.string(), // SHA-256 of the previewed request
+    summary: v.string(), // What the user was asked to confirm
+    usedAt: v.optional(v.number()), // Tokens confirm one request
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_token", ["token"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  eventTemplates: defineTable({
+    clerkUserId: v.string(),
+    name: v.string(), // What the user calls it, e.g. "standup"; unique per user
+    title: v.string(),
+    durationMinutes: v.number(),
+    startTime: v.optional(v.string()), // Usual local start, "HH:mm"
+    calendarId: v.optional(v.string()),
+    location: v.optional(v.string()),
+    attendees: v.optional(v.array(v.string())),
+    description: v.optional(v.string()),
+    colorId: v.optional(v.string()),
+    visibility: v.optional(v.string()),
+    transparency: v.optional(v.string()),
+    reminders: v.optional(v.any()), // Same shape as the create route's reminders
+    addVideoCall: v.optional(v.boolean()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_clerk_user_id", ["clerkUserId"]),
+
+  contacts: defineTable({
+    clerkUserId: v.string(),
+    email: v.string(), // Lowercased
+    name: v.optional(v.string()), // From the user, or the display name seen in events
+    aliases: v.array(v.string()), // Nicknames the user calls them, e.g. "Alex", "my manager"
+    eventCount: v.number(), // Recent events with them, from seeding
+    lastSeenAt: v.optional(v.number()), // Start of the latest of those events
+    hidden: v.optional(v.boolean()), // Deleted by the user; kept so seeding doesn't bring it back
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_clerk_user_id", ["clerkUserId"])
+    .index("by_user_email", ["clerkUserId", "email"]),
+
+  contactSeedStates: defineTable({
+    clerkUserId: v.string(),
+    seededAt: v.number(), // Last time contacts were collected from past events
+  }).index("by_clerk_user_id", ["clerkUserId"]),
+
   voiceSessions: defineTable({
     clerkUserId: v.string(),
     sessionId: v.string(),
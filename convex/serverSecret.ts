@@ -0,0 +1,23 @@
+/**
+ * Functions that hand out or store secrets (CalDAV passwords, watch channel tokens) are only for
+ * the app's server; it sends CALENDAR_WEBHOOK_SECRET, which browsers calling Convex never have
+ */
+
+// Compare every character so the time taken doesn't hint at how much of a guess was right
+export function secretsMatch(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i % Math.max(b.length, 1));
+  }
+  return difference === 0;
+}
+
+/**
+ * Throw unless serverSecret is the deployment's CALENDAR_WEBHOOK_SECRET
+ */
+export function requireServerSecret(serverSecret: string) {
+  const expected = process.env.CALENDAR_WEBHOOK_SECRET;
+  if (!expected || !secretsMatch(serverSecret, expected)) {
+    throw new Error("Unauthorized");
+  }
+}
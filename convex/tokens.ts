@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
+import { requireServerSecret } from "./serverSecret";
 
 /**
  * Get Google OAuth tokens for a user
@@ -78,6 +79,113 @@ export const deleteUserTokens = mutation({
   },
 });
 
+/**
+ * Get CalDAV credentials for a user, password included; server only (see serverSecret.ts)
+ */
+export const getCalDavCredentials = query({
+  args: { clerkUserId: v.string(), serverSecret: v.string() },
+  handler: async (ctx, args) => {
+    requireServerSecret(args.serverSecret);
+    return await ctx.db
+      .query("caldavCredentials")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+  },
+});
+
+/**
+ * Get a user's CalDAV connection without the password (safe for the client)
+ */
+export const getCalDavConnection = query({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    const credentials = await ctx.db
+      .query("caldavCredentials")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+
+    if (!credentials) {
+      return null;
+    }
+
+    return {
+      serverUrl: credentials.serverUrl,
+      username: credentials.username,
+      calendarUrl: credentials.calendarUrl,
+    };
+  },
+});
+
+/**
+ * Store or update CalDAV credentials for a user; server only, so nobody can point
+ * another user's calendar at a server of their choosing
+ */
+export const upsertCalDavCredentials = mutation({
+  args: {
+    serverSecret: v.string(),
+    clerkUserId: v.string(),
+    serverUrl: v.string(),
+    username: v.string(),
+    password: v.string(),
+    calendarUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    requireServerSecret(args.serverSecret);
+    const existing = await ctx.db
+      .query("caldavCredentials")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        serverUrl: args.serverUrl,
+        username: args.username,
+        password: args.password,
+        calendarUrl: args.calendarUrl,
+        updatedAt: now,
+      });
+      return existing._id;
+    } else {
+      return await ctx.db.insert("caldavCredentials", {
+        clerkUserId: args.clerkUserId,
+        serverUrl: args.serverUrl,
+        username: args.username,
+        password: args.password,
+        calendarUrl: args.calendarUrl,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * Delete CalDAV credentials for a user (disconnect)
+ */
+export const deleteCalDavCredentials = mutation({
+  args: { clerkUserId: v.string() },
+  handler: async (ctx, args) => {
+    const credentials = await ctx.db
+      .query("caldavCredentials")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .first();
+
+    if (credentials) {
+      await ctx.db.delete(credentials._id);
+    }
+  },
+});
+
 /**
  * Check if tokens are expired and need refresh
  */
@@ -109,23 +217,98 @@ export const refreshIfNeeded = query({
 
 /**
  * Log a calendar action (create, update, delete, list)
+ * Changes pass a snapshot of the affected events so they can be undone
  */
 export const logAction = mutation({
   args: {
     clerkUserId: v.string(),
     action: v.string(), // 'create', 'update', 'delete', 'list'
     details: v.optional(v.any()),
+    sessionId: v.optional(v.string()),
+    snapshot: v.optional(v.any()),
   },
   handler: async (ctx, args) => {
     return await ctx.db.insert("actionLogs", {
       clerkUserId: args.clerkUserId,
       action: args.action,
       details: args.details,
+      sessionId: args.sessionId,
+      snapshot: args.snapshot,
       timestamp: Date.now(),
     });
   },
 });
 
+/**
+ * Get a user's logged action by ID (null if it isn't theirs)
+ */
+export const getActionLog = query({
+  args: {
+    clerkUserId: v.string(),
+    logId: v.string(), // Checked here, so a malformed ID is "not found" rather than an error
+  },
+  handler: async (ctx, args) => {
+    const logId = ctx.db.normalizeId("actionLogs", args.logId);
+    if (!logId) {
+      return null;
+    }
+    const log = await ctx.db.get(logId);
+    return log && log.clerkUserId === args.clerkUserId ? log : null;
+  },
+});
+
+/**
+ * Get actions that can still be undone, newest first
+ * With a sessionId only actions from that voice session are returned
+ */
+export const getUndoableActions = query({
+  args: {
+    clerkUserId: v.string(),
+    sessionId: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    let logs = ctx.db
+      .query("actionLogs")
+      .withIndex("by_clerk_user_id", (q) =>
+        q.eq("clerkUserId", args.clerkUserId)
+      )
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          q.neq(q.field("snapshot"), undefined),
+          q.eq(q.field("undoneAt"), undefined)
+        )
+      );
+
+    if (args.sessionId !== undefined) {
+      const sessionId = args.sessionId;
+      logs = logs.filter((q) => q.eq(q.field("sessionId"), sessionId));
+    }
+
+    return await logs.take(args.limit ?? 50);
+  },
+});
+
+/**
+ * Mark a logged action as undone so it isn't reverted twice
+ */
+export const markActionUndone = mutation({
+  args: {
+    clerkUserId: v.string(),
+    logId: v.id("actionLogs"),
+  },
+  handler: async (ctx, args) => {
+    const log = await ctx.db.get(args.logId);
+    if (!log || log.clerkUserId !== args.clerkUserId) {
+      throw new Error("Action not found");
+    }
+
+    await ctx.db.patch(args.logId, { undoneAt: Date.now() });
+    return args.logId;
+  },
+});
+
 /**
  * Create a new voice session
  */
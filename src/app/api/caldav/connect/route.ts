@@ -0,0 +1,81 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client, getServerSecret } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import {
+  checkServerUrl,
+  discoverCalendarUrl,
+} from "@/lib/caldav-calendar-provider";
+
+const connectCalDavSchema = z.object({
+  serverUrl: z.string().url(), // https on a public host; checked by checkServerUrl
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+/**
+ * POST /api/caldav/connect - Connect a CalDAV calendar (Nextcloud, Radicale, ...)
+ * Discovers the user's event calendar before storing the credentials in Convex
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = connectCalDavSchema.parse(body);
+
+    // The password is sent to this server, so it has to be one we may reach on the user's behalf
+    await checkServerUrl(validated.serverUrl);
+    const calendarUrl = await discoverCalendarUrl(validated);
+
+    await client.mutation(api.tokens.upsertCalDavCredentials, {
+      serverSecret: getServerSecret(),
+      clerkUserId: userId,
+      serverUrl: validated.serverUrl,
+      username: validated.username,
+      password: validated.password,
+      calendarUrl,
+    });
+
+    return NextResponse.json({ success: true, calendarUrl });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to connect CalDAV";
+
+    if (errorMessage === "CalDAV authentication failed") {
+      return NextResponse.json(
+        { error: "CalDAV server rejected the username or password" },
+        { status: 401 }
+      );
+    }
+
+    // Discovery failures are about the URL the user gave, not the app
+    if (
+      errorMessage.startsWith("No CalDAV") ||
+      errorMessage.startsWith("CalDAV server URL") ||
+      errorMessage === "CalDAV server pointed to another host"
+    ) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    console.error("CalDAV connect error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
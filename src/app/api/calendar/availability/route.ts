@@ -0,0 +1,130 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  getCalendarProvider,
+  resolveCalendarId,
+  resolveTimeZone,
+} from "@/lib/calendar-provider";
+import { findFreeSlots } from "@/lib/free-slots";
+import {
+  DEFAULT_MEETING_MINUTES,
+  getSchedulingPreferences,
+} from "@/lib/scheduling-preferences";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
+import { isValidTimeZone } from "@/lib/timezone";
+
+const timeOfDay = z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:mm");
+
+const availabilitySchema = z
+  .object({
+    start: z.string().datetime({ offset: true }), // Window start, ISO 8601
+    end: z.string().datetime({ offset: true }), // Window end, ISO 8601
+    durationMinutes: z.number().int().min(5).max(24 * 60).optional(), // Defaults to the user's meeting length
+    timeZone: z
+      .string()
+      .refine(isValidTimeZone, { message: "Unknown time zone" })
+      .optional(), // Zone for working hours, defaults to the user's timezone
+    // Defaults to the user's working hours, without their no-meeting days
+    workingHours: z
+      .object({
+        start: timeOfDay,
+        end: timeOfDay,
+        days: z.array(z.number().int().min(0).max(6)).optional(),
+      })
+      .optional(),
+    minGapMinutes: z.number().int().min(0).max(240).optional(), // Defaults to the user's buffer
+    calendarIds: z.array(z.string()).optional(),
+    maxResults: z.number().int().min(1).max(20).optional(),
+  })
+  .refine((data) => new Date(data.end) > new Date(data.start), {
+    message: "end must be after start",
+    path: ["end"],
+  })
+  .refine(
+    (data) =>
+      new Date(data.end).getTime() - new Date(data.start).getTime() <=
+      62 * 24 * 60 * 60 * 1000,
+    { message: "Window can be at most 62 days", path: ["end"] }
+  );
+
+/**
+ * POST /api/calendar/availability - Busy times and ranked free slots in a window
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = availabilitySchema.parse(body);
+
+    const calendar = await getCalendarProvider(userId);
+    const defaultCalendarId = await resolveCalendarId(userId);
+    const preferences = await getSchedulingPreferences(userId);
+
+    const busy = await calendar.queryFreeBusy({
+      timeMin: validated.start,
+      timeMax: validated.end,
+      calendarIds:
+        validated.calendarIds ||
+        (defaultCalendarId ? [defaultCalendarId] : undefined),
+    });
+
+    const slots = findFreeSlots({
+      windowStart: validated.start,
+      windowEnd: validated.end,
+      durationMinutes:
+        validated.durationMinutes ??
+        preferences.defaultDurationMinutes ??
+        DEFAULT_MEETING_MINUTES,
+      busy,
+      timeZone: await resolveTimeZone(userId, validated.timeZone),
+      workingHours:
+        validated.workingHours ??
+        preferences.workingHours?.filter(
+          (hours) => !preferences.noMeetingDays?.includes(hours.day)
+        ),
+      minGapMinutes: validated.minGapMinutes ?? preferences.bufferMinutes,
+      maxResults: validated.maxResults,
+    });
+
+    return NextResponse.json({ busy, slots });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to check availability";
+
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    // Handle invalid token error
+    if (errorMessage === "TOKEN_INVALID") {
+      return NextResponse.json(
+        {
+          error: "Google Calendar connection expired. Please reconnect.",
+          needsReconnect: true,
+        },
+        { status: 401 }
+      );
+    }
+
+    console.error("Calendar availability error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { getCalendarProvider } from "@/lib/calendar-provider";
+import {
+  batchSchema,
+  needsConfirmation,
+  runBatch,
+} from "@/lib/batch-mutations";
+import { isUndoable } from "@/lib/undo";
+import { VOICE_SESSION_HEADER } from "@/lib/voice-session-bridge";
+import {
+  confirmationSchema,
+  issueConfirmation,
+  releaseConfirmation,
+  withConfirmation,
+} from "@/lib/confirmation";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
+
+/**
+ * POST /api/calendar/batch - Apply several create/update/delete operations
+ * Responds with a result per operation; with rollback, a failure reverts the ones already applied
+ * dryRun: true previews the operations; batches with deletes need the confirmationToken it returns
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = batchSchema.parse(body);
+    const { dryRun, confirmationToken } = confirmationSchema.parse(body);
+
+    const apply = async (): Promise<NextResponse> => {
+      const calendar = await getCalendarProvider(userId);
+      const { results, snapshot } = await runBatch(
+        calendar,
+        userId,
+        validated.operations,
+        { rollback: validated.rollback, dryRun }
+      );
+
+      const count = (status: string) =>
+        results.filter((result) => result.status === status).length;
+
+      if (dryRun) {
+        const summary = results
+          .flatMap((result) => (result.preview ? [result.preview.summary] : []))
+          .join("\n");
+        return NextResponse.json({
+          dryRun: true,
+          success: count("failed") === 0,
+          failed: count("failed"),
+          results,
+          ...(await issueConfirmation(userId, "batch", validated, summary)),
+        });
+      }
+
+      // Nothing stayed applied, so the same confirmation can be tried again
+      if (count("applied") === 0 && confirmationToken) {
+        await releaseConfirmation(userId, confirmationToken);
+      }
+
+      // Log the action; whatever is still applied can be undone as one step
+      const actionId = await client.mutation(api.tokens.logAction, {
+        clerkUserId: userId,
+        action: "batch",
+        details: {
+          operations: results.map(({ type, status, event, error }) => ({
+            type,
+            status,
+            eventId: event?.id,
+            title: event?.title,
+            error,
+          })),
+          rollback: validated.rollback,
+        },
+        sessionId: request.headers.get(VOICE_SESSION_HEADER) || undefined,
+        snapshot: isUndoable(snapshot) ? snapshot : undefined,
+      });
+
+      return NextResponse.json({
+        success: count("failed") === 0,
+        applied: count("applied"),
+        failed: count("failed"),
+        rolledBack: count("rolledBack"),
+        results,
+        actionId,
+      });
+    };
+
+    return dryRun
+      ? await apply()
+      : await withConfirmation(
+          userId,
+          "batch",
+          validated,
+          confirmationToken,
+          { required: needsConfirmation(validated.operations) },
+          apply
+        );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to apply batch";
+
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    // Handle invalid token error
+    if (errorMessage === "TOKEN_INVALID") {
+      return NextResponse.json(
+        {
+          error: "Google Calendar connection expired. Please reconnect.",
+          needsReconnect: true,
+        },
+        { status: 401 }
+      );
+    }
+
+    console.error("Calendar batch error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { getCalendarProvider } from "@/lib/calendar-provider";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
+
+const setDefaultCalendarSchema = z.object({
+  calendarId: z.string().min(1),
+});
+
+/**
+ * POST /api/calendar/calendars/default - Set the calendar used when none is specified
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = setDefaultCalendarSchema.parse(body);
+
+    // Only allow calendars the user can actually see
+    const calendar = await getCalendarProvider(userId);
+    const calendars = await calendar.listCalendars();
+    if (!calendars.some((c) => c.id === validated.calendarId)) {
+      return NextResponse.json(
+        { error: "Calendar not found" },
+        { status: 404 }
+      );
+    }
+
+    await client.mutation(api.preferences.setDefaultCalendar, {
+      clerkUserId: userId,
+      defaultCalendarId: validated.calendarId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      defaultCalendarId: validated.calendarId,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to set default calendar";
+
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    // Handle invalid token error
+    if (errorMessage === "TOKEN_INVALID") {
+      return NextResponse.json(
+        {
+          error: "Google Calendar connection expired. Please reconnect.",
+          needsReconnect: true,
+        },
+        { status: 401 }
+      );
+    }
+
+    console.error("Calendar set default error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { getCalendarProvider } from "@/lib/calendar-provider";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
+
+/**
+ * GET /api/calendar/calendars - List the user's calendars and their default calendar
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const calendar = await getCalendarProvider(userId);
+    const calendars = await calendar.listCalendars();
+
+    const preferences = await client.query(api.preferences.getUserPreferences, {
+      clerkUserId: userId,
+    });
+
+    // Fall back to the provider's primary calendar when no default is set
+    const defaultCalendarId =
+      preferences?.defaultCalendarId ||
+      calendars.find((c) => c.primary)?.id ||
+      calendars[0]?.id;
+
+    return NextResponse.json({ calendars, defaultCalendarId });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to list calendars";
+
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    // Handle invalid token error
+    if (errorMessage === "TOKEN_INVALID") {
+      return NextResponse.json(
+        {
+          error: "Google Calendar connection expired. Please reconnect.",
+          needsReconnect: true,
+        },
+        { status: 401 }
+      );
+    }
+
+    console.error("Calendar list calendars error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
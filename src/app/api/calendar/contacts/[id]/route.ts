@@ -0,0 +1,105 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { updateContactSchema } from "@/lib/contacts";
+
+/**
+ * The user's contact with this id, or null
+ * Looked up in their own list, so malformed and foreign ids are simply not found
+ */
+async function getUserContact(userId: string, id: string) {
+  const contacts = await client.query(api.contacts.listContacts, {
+    clerkUserId: userId,
+  });
+  return contacts.find((contact) => contact._id === id) ?? null;
+}
+
+/**
+ * PUT /api/calendar/contacts/[id] - Set a contact's name and aliases
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const validated = updateContactSchema.parse(body);
+
+    const contact = await getUserContact(userId, id);
+    if (!contact) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    await client.mutation(api.contacts.updateContact, {
+      clerkUserId: userId,
+      contactId: contact._id,
+      name: validated.name,
+      aliases: validated.aliases ?? [],
+    });
+
+    return NextResponse.json({ success: true, id: contact._id });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Update contact error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to update contact",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/calendar/contacts/[id] - Remove a contact
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const contact = await getUserContact(userId, id);
+    if (!contact) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    await client.mutation(api.contacts.deleteContact, {
+      clerkUserId: userId,
+      contactId: contact._id,
+    });
+
+    return NextResponse.json({ success: true, deleted: true });
+  } catch (error) {
+    console.error("Delete contact error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to delete contact",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { ensureContactsSeeded, resolveContact } from "@/lib/contacts";
+
+const resolveContactSchema = z.object({
+  name: z.string().trim().min(1).max(100), // Name, nickname or email, e.g. "Alex"
+  maxCandidates: z.number().int().min(1).max(10).optional(),
+});
+
+/**
+ * POST /api/calendar/contacts/resolve - Emails for a spoken name, best candidate first
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = resolveContactSchema.parse(body);
+
+    await ensureContactsSeeded(userId);
+    const contacts = await client.query(api.contacts.listContacts, {
+      clerkUserId: userId,
+    });
+
+    return NextResponse.json(
+      resolveContact(contacts, validated.name, validated.maxCandidates)
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Resolve contact error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to resolve contact",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import {
+  contactSchema,
+  ensureContactsSeeded,
+  formatContact,
+} from "@/lib/contacts";
+
+/**
+ * GET /api/calendar/contacts - The user's contacts, most frequently met first
+ * The first call collects contacts from past events
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await ensureContactsSeeded(userId);
+    const contacts = await client.query(api.contacts.listContacts, {
+      clerkUserId: userId,
+    });
+
+    return NextResponse.json({ contacts: contacts.map(formatContact) });
+  } catch (error) {
+    console.error("List contacts error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to list contacts",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/calendar/contacts - Add a contact, or update the one with this email
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = contactSchema.parse(body);
+
+    const id = await client.mutation(api.contacts.saveContact, {
+      clerkUserId: userId,
+      email: validated.email,
+      name: validated.name,
+      aliases: validated.aliases ?? [],
+    });
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Save contact error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to save contact",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,93 +1,26 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
-import { google } from "googleapis";
 import { z } from "zod";
 import { client } from "@/lib/convex";
 import { api } from "convex/_generated/api";
-
-/**
- * Helper function to delete invalid tokens
- */
-async function deleteInvalidTokens(userId: string) {
-  await client.mutation(api.tokens.deleteUserTokens, {
-    clerkUserId: userId,
-  });
-}
-
-/**
- * Get Google Calendar client with refreshed tokens
- * Handles invalid_grant errors by deleting tokens and throwing a specific error
- */
-async function getCalendarClient(userId: string) {
-  const tokens = await client.query(api.tokens.getUserTokens, {
-    clerkUserId: userId,
-  });
-
-  if (!tokens) {
-    throw new Error("Google Calendar not connected");
-  }
-
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET,
-    process.env.GOOGLE_OAUTH_REDIRECT
-  );
-
-  const now = Date.now();
-  if (tokens.expiryTimestamp - now < 5 * 60 * 1000) {
-    oauth2Client.setCredentials({
-      refresh_token: tokens.refreshToken,
-    });
-
-    try {
-      const { credentials } = await oauth2Client.refreshAccessToken();
-
-      if (!credentials.access_token) {
-        // No access token returned, delete invalid tokens
-        await deleteInvalidTokens(userId);
-        throw new Error("TOKEN_INVALID");
-      }
-
-      await client.mutation(api.tokens.upsertUserTokens, {
-        clerkUserId: userId,
-        accessToken: credentials.access_token,
-        refreshToken: credentials.refresh_token || tokens.refreshToken,
-        expiryTimestamp: credentials.expiry_date || Date.now() + 3600 * 1000,
-      });
-
-      oauth2Client.setCredentials({
-        access_token: credentials.access_token,
-        refresh_token: credentials.refresh_token || tokens.refreshToken,
-      });
-    } catch (error: any) {
-      // Check if it's an invalid_grant error
-      if (
-        error?.message?.includes("invalid_grant") ||
-        error?.code === 400 ||
-        error?.response?.data?.error === "invalid_grant"
-      ) {
-        // Token is invalid, delete it
-        await deleteInvalidTokens(userId);
-        throw new Error("TOKEN_INVALID");
-      }
-      throw error;
-    }
-  } else {
-    oauth2Client.setCredentials({
-      access_token: tokens.accessToken,
-      refresh_token: tokens.refreshToken,
-    });
-  }
-
-  return google.calendar({ version: "v3", auth: oauth2Client });
-}
-
-const deleteEventSchema = z.object({
-  eventId: z.string().min(1),
-});
+import { getCalendarProvider } from "@/lib/calendar-provider";
+import {
+  deleteCalendarEvent,
+  deleteEventSchema,
+} from "@/lib/event-mutations";
+import { VOICE_SESSION_HEADER } from "@/lib/voice-session-bridge";
+import { withIdempotency } from "@/lib/idempotency";
+import {
+  confirmationSchema,
+  issueConfirmation,
+  withConfirmation,
+} from "@/lib/confirmation";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
 
 /**
  * POST /api/calendar/delete - Delete a calendar event
+ * Accepts an Idempotency-Key header so retries don't apply the change twice
+ * Needs the confirmationToken from a dryRun: true request for the same event and scope
  */
 export async function POST(request: Request) {
   const { userId } = await auth();
@@ -96,24 +29,59 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  // Replays with the same Idempotency-Key get the first response back
+  return withIdempotency(request, userId, "delete", () =>
+    deleteEvent(request, userId)
+  );
+}
+
+async function deleteEvent(request: Request, userId: string) {
   try {
     const body = await request.json();
     const validated = deleteEventSchema.parse(body);
+    const { dryRun, confirmationToken } = confirmationSchema.parse(body);
 
-    const calendar = await getCalendarClient(userId);
+    const apply = async (): Promise<NextResponse> => {
+      const calendar = await getCalendarProvider(userId);
+      const result = await deleteCalendarEvent(calendar, userId, validated, {
+        dryRun,
+      });
 
-    await calendar.events.delete({
-      calendarId: "primary",
-      eventId: validated.eventId,
-    });
+      if (result.dryRun) {
+        return NextResponse.json({
+          dryRun: true,
+          preview: result.preview,
+          ...(await issueConfirmation(
+            userId,
+            "delete",
+            validated,
+            result.preview.summary
+          )),
+        });
+      }
 
-    // Log the action
-    await client.mutation(api.tokens.logAction, {
-      clerkUserId: userId,
-      action: "delete",
-    });
+      // Log the action with the deleted event so it can be re-created
+      const actionId = await client.mutation(api.tokens.logAction, {
+        clerkUserId: userId,
+        action: "delete",
+        details: result.details,
+        sessionId: request.headers.get(VOICE_SESSION_HEADER) || undefined,
+        snapshot: result.snapshot,
+      });
 
-    return NextResponse.json({ success: true });
+      return NextResponse.json({ success: true, actionId });
+    };
+
+    return dryRun
+      ? await apply()
+      : await withConfirmation(
+          userId,
+          "delete",
+          validated,
+          confirmationToken,
+          { required: true },
+          apply
+        );
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -125,6 +93,10 @@ export async function POST(request: Request) {
     const errorMessage =
       error instanceof Error ? error.message : "Failed to delete event";
 
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     // Handle invalid token error
     if (errorMessage === "TOKEN_INVALID") {
       return NextResponse.json(
@@ -2,9 +2,12 @@ import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import { client } from "@/lib/convex";
 import { api } from "convex/_generated/api";
+import { clearCalendarMirror } from "@/lib/calendar-mirror";
+import { stopCalendarWatches } from "@/lib/calendar-watch";
 
 /**
- * POST /api/calendar/disconnect - Disconnect Google Calendar by deleting tokens
+ * POST /api/calendar/disconnect - Disconnect the calendar by deleting Google tokens
+ * and any stored CalDAV credentials, and drop the mirrored events
  */
 export async function POST() {
   const { userId } = await auth();
@@ -14,10 +17,17 @@ export async function POST() {
   }
 
   try {
+    // Stop push notifications while the tokens still work
+    await stopCalendarWatches(userId);
+
     // Delete tokens from Convex
     await client.mutation(api.tokens.deleteUserTokens, {
       clerkUserId: userId,
     });
+    await client.mutation(api.tokens.deleteCalDavCredentials, {
+      clerkUserId: userId,
+    });
+    await clearCalendarMirror(userId);
 
     return NextResponse.json({ success: true, disconnected: true });
   } catch (error: any) {
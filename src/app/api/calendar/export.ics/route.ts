@@ -0,0 +1,84 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import {
+  getCalendarProvider,
+  resolveCalendarId,
+} from "@/lib/calendar-provider";
+import { fetchListedEvents, toICalendar } from "@/lib/ics";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
+
+/**
+ * GET /api/calendar/export.ics - Download events in a date range as an .ics file
+ * Query: start, end (ISO 8601, default the next 30 days), calendarId
+ */
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const startTime = searchParams.get("start") || new Date().toISOString();
+    const endTime =
+      searchParams.get("end") ||
+      new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+
+    if (
+      isNaN(new Date(startTime).getTime()) ||
+      isNaN(new Date(endTime).getTime())
+    ) {
+      return NextResponse.json(
+        { error: "start and end must be ISO 8601 dates" },
+        { status: 400 }
+      );
+    }
+
+    const calendarId = await resolveCalendarId(
+      userId,
+      searchParams.get("calendarId") || undefined
+    );
+
+    const calendar = await getCalendarProvider(userId);
+    const events = await fetchListedEvents(calendar, {
+      timeMin: new Date(startTime).toISOString(),
+      timeMax: new Date(endTime).toISOString(),
+      calendarId,
+    });
+
+    return new NextResponse(toICalendar(events), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="calendar.ics"',
+      },
+    });
+  } catch (error) {
+    console.error("Calendar export error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to export events";
+
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    // Handle invalid token error
+    if (errorMessage === "TOKEN_INVALID") {
+      return NextResponse.json(
+        {
+          error: "Google Calendar connection expired. Please reconnect.",
+          needsReconnect: true,
+        },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
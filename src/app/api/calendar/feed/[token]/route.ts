@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import {
+  getCalendarProvider,
+  resolveCalendarId,
+} from "@/lib/calendar-provider";
+import { fetchListedEvents, toICalendar } from "@/lib/ics";
+
+// What subscribed clients see: a month back and a year ahead
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+
+/**
+ * GET /api/calendar/feed/[token].ics - Subscription feed polled by external calendar apps
+ * Not behind Clerk: the secret token in the URL identifies the user
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  const feed = await client.query(api.calendarFeeds.getFeedByToken, {
+    token: token.replace(/\.ics$/, ""),
+  });
+  if (!feed) {
+    return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+  }
+
+  try {
+    const calendar = await getCalendarProvider(feed.clerkUserId);
+    const calendarId = await resolveCalendarId(
+      feed.clerkUserId,
+      feed.calendarId
+    );
+    const day = 24 * 60 * 60 * 1000;
+    const events = await fetchListedEvents(calendar, {
+      timeMin: new Date(Date.now() - FEED_PAST_DAYS * day).toISOString(),
+      timeMax: new Date(Date.now() + FEED_FUTURE_DAYS * day).toISOString(),
+      calendarId,
+    });
+
+    return new NextResponse(
+      toICalendar(events, { name: "Speech-to-Schedule" }),
+      {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Cache-Control": "private, max-age=300",
+        },
+      }
+    );
+  } catch (error) {
+    // Feed clients can't reconnect the calendar, so every failure looks the same to them
+    console.error("Calendar feed error:", error);
+    return NextResponse.json(
+      { error: "Calendar is unavailable" },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+
+const feedSchema = z.object({
+  calendarId: z.string().optional(), // Defaults to the user's default calendar
+});
+
+function getFeedUrl(request: Request, token: string): string {
+  return new URL(`/api/calendar/feed/${token}.ics`, request.url).toString();
+}
+
+/**
+ * GET /api/calendar/feed - The user's subscription feed URL, or null
+ */
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const feed = await client.query(api.calendarFeeds.getUserFeed, {
+    clerkUserId: userId,
+  });
+
+  return NextResponse.json({
+    url: feed ? getFeedUrl(request, feed.token) : null,
+    calendarId: feed?.calendarId,
+  });
+}
+
+/**
+ * POST /api/calendar/feed - Create the feed URL, or replace it (the old URL stops working)
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validated = feedSchema.parse(body);
+
+    const token = randomBytes(24).toString("hex");
+    await client.mutation(api.calendarFeeds.upsertUserFeed, {
+      clerkUserId: userId,
+      token,
+      calendarId: validated.calendarId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      url: getFeedUrl(request, token),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Calendar feed error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to create feed",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/calendar/feed - Revoke the feed URL
+ */
+export async function DELETE() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  await client.mutation(api.calendarFeeds.deleteUserFeed, {
+    clerkUserId: userId,
+  });
+
+  return NextResponse.json({ success: true, revoked: true });
+}
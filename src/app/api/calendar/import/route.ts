@@ -0,0 +1,127 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { getCalendarProvider } from "@/lib/calendar-provider";
+import { importICalendar } from "@/lib/ics";
+import { isUndoable } from "@/lib/undo";
+import { VOICE_SESSION_HEADER } from "@/lib/voice-session-bridge";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
+
+const MAX_FILE_BYTES = 1024 * 1024;
+
+/**
+ * POST /api/calendar/import - Create events from an .ics file
+ * Takes multipart form data (file, optional calendarId) or a text/calendar body (?calendarId=);
+ * events already in the calendar (same title and start) are skipped
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    let text: string;
+    let calendarId = new URL(request.url).searchParams.get("calendarId");
+
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const form = await request.formData();
+      const file = form.get("file");
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { error: "Attach the .ics file as \"file\"" },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json(
+          { error: "File is too large (1 MB max)" },
+          { status: 413 }
+        );
+      }
+      text = await file.text();
+      calendarId = (form.get("calendarId") as string | null) || calendarId;
+    } else {
+      text = await request.text();
+      if (text.length > MAX_FILE_BYTES) {
+        return NextResponse.json(
+          { error: "File is too large (1 MB max)" },
+          { status: 413 }
+        );
+      }
+    }
+
+    if (!text.includes("BEGIN:VCALENDAR")) {
+      return NextResponse.json(
+        { error: "Not an iCalendar (.ics) file" },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await getCalendarProvider(userId);
+    const { results, snapshot } = await importICalendar(calendar, userId, text, {
+      calendarId: calendarId || undefined,
+    });
+
+    const count = (status: string) =>
+      results.filter((result) => result.status === status).length;
+
+    // Log the action; the created events can be undone as one step
+    const actionId = await client.mutation(api.tokens.logAction, {
+      clerkUserId: userId,
+      action: "import",
+      details: {
+        calendarId,
+        created: count("created"),
+        duplicates: count("duplicate"),
+        failed: count("failed"),
+      },
+      sessionId: request.headers.get(VOICE_SESSION_HEADER) || undefined,
+      snapshot: isUndoable(snapshot) ? snapshot : undefined,
+    });
+
+    return NextResponse.json({
+      success: count("failed") === 0,
+      created: count("created"),
+      duplicates: count("duplicate"),
+      failed: count("failed"),
+      results,
+      actionId,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to import events";
+
+    if (
+      errorMessage === "No events found in the file" ||
+      errorMessage.startsWith("Too many events")
+    ) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    // Handle invalid token error
+    if (errorMessage === "TOKEN_INVALID") {
+      return NextResponse.json(
+        {
+          error: "Google Calendar connection expired. Please reconnect.",
+          needsReconnect: true,
+        },
+        { status: 401 }
+      );
+    }
+
+    console.error("Calendar import error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
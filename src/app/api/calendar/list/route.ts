@@ -1,93 +1,23 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
-import { google } from "googleapis";
 import { z } from "zod";
 import { client } from "@/lib/convex";
 import { api } from "convex/_generated/api";
-
-/**
- * Helper function to delete invalid tokens
- */
-async function deleteInvalidTokens(userId: string) {
-  await client.mutation(api.tokens.deleteUserTokens, {
-    clerkUserId: userId,
-  });
-}
-
-/**
- * Get Google Calendar client with refreshed tokens
- * Handles invalid_grant errors by deleting tokens and throwing a specific error
- */
-async function getCalendarClient(userId: string) {
-  // Get tokens from Convex
-  const tokens = await client.query(api.tokens.getUserTokens, {
-    clerkUserId: userId,
-  });
-
-  if (!tokens) {
-    throw new Error("Google Calendar not connected");
-  }
-
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET,
-    process.env.GOOGLE_OAUTH_REDIRECT
-  );
-
-  // Check if token needs refresh
-  const now = Date.now();
-  if (tokens.expiryTimestamp - now < 5 * 60 * 1000) {
-    // Refresh token
-    oauth2Client.setCredentials({
-      refresh_token: tokens.refreshToken,
-    });
-
-    try {
-      const { credentials } = await oauth2Client.refreshAccessToken();
-
-      if (!credentials.access_token) {
-        // No access token returned, delete invalid tokens
-        await deleteInvalidTokens(userId);
-        throw new Error("TOKEN_INVALID");
-      }
-
-      // Update tokens in Convex
-      await client.mutation(api.tokens.upsertUserTokens, {
-        clerkUserId: userId,
-        accessToken: credentials.access_token,
-        refreshToken: credentials.refresh_token || tokens.refreshToken,
-        expiryTimestamp: credentials.expiry_date || Date.now() + 3600 * 1000,
-      });
-
-      oauth2Client.setCredentials({
-        access_token: credentials.access_token,
-        refresh_token: credentials.refresh_token || tokens.refreshToken,
-      });
-    } catch (error: any) {
-      // Check if it's an invalid_grant error
-      if (
-        error?.message?.includes("invalid_grant") ||
-        error?.code === 400 ||
-        error?.response?.data?.error === "invalid_grant"
-      ) {
-        // Token is invalid, delete it
-        await deleteInvalidTokens(userId);
-        throw new Error("TOKEN_INVALID");
-      }
-      throw error;
-    }
-  } else {
-    oauth2Client.setCredentials({
-      access_token: tokens.accessToken,
-      refresh_token: tokens.refreshToken,
-    });
-  }
-
-  return google.calendar({ version: "v3", auth: oauth2Client });
-}
+import {
+  getCalendarProvider,
+  resolveCalendarId,
+} from "@/lib/calendar-provider";
+import { formatListedEvents } from "@/lib/event-listing";
+import { hasSearchFilters } from "@/lib/event-search";
+import {
+  isMirrorPageToken,
+  searchMirroredEvents,
+} from "@/lib/calendar-mirror";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
 
 /**
  * GET /api/calendar/list - List upcoming calendar events
+ * Optional search: q (free text), attendee, location; page with pageToken from nextPageToken
  */
 export async function GET(request: Request) {
   const { userId } = await auth();
@@ -98,32 +28,55 @@ export async function GET(request: Request) {
 
   try {
     const { searchParams } = new URL(request.url);
+    const filters = {
+      query: searchParams.get("q") || undefined,
+      attendee: searchParams.get("attendee") || undefined,
+      location: searchParams.get("location") || undefined,
+    };
+    const pageToken = searchParams.get("pageToken") || undefined;
+
+    // Searches look a year ahead: "my dentist appointment" may not be this week
+    const searchDays = hasSearchFilters(filters) ? 365 : 7;
     const startTime = searchParams.get("start") || new Date().toISOString();
     const endTime =
       searchParams.get("end") ||
-      new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+      new Date(Date.now() + searchDays * 24 * 60 * 60 * 1000).toISOString();
     const maxResults = parseInt(searchParams.get("max") || "10");
+    const calendarId = await resolveCalendarId(
+      userId,
+      searchParams.get("calendarId") || undefined
+    );
 
-    const calendar = await getCalendarClient(userId);
+    const calendar = await getCalendarProvider(userId);
 
-    const response = await calendar.events.list({
-      calendarId: "primary",
+    const searchOptions = {
       timeMin: startTime,
       timeMax: endTime,
       maxResults,
-      singleEvents: true,
-      orderBy: "startTime",
-    });
-
-    const events = (response.data.items || []).map((event) => ({
-      id: event.id,
-      title: event.summary || "Untitled Event",
-      start: event.start?.dateTime || event.start?.date,
-      end: event.end?.dateTime || event.end?.date,
-      location: event.location,
-      attendees: event.attendees?.map((a) => a.email || "") || [],
-      description: event.description,
-    }));
+      calendarId,
+      pageToken,
+      ...filters,
+    };
+
+    // Served from the Convex mirror when it's synced, otherwise from the provider
+    const mirrored = await searchMirroredEvents(userId, calendar, searchOptions);
+    if (!mirrored && isMirrorPageToken(pageToken)) {
+      // The mirror can't continue this listing and the provider can't read its token
+      return NextResponse.json(
+        { error: "Page token is no longer valid; list again from the start" },
+        { status: 400 }
+      );
+    }
+    const { events, nextPageToken } =
+      mirrored || (await calendar.searchEvents(searchOptions));
+
+    // Mirrored series come with the page; the provider is only asked for ones not mirrored yet
+    const formattedEvents = await formatListedEvents(
+      calendar,
+      events,
+      calendarId,
+      mirrored?.seriesRecurrence
+    );
 
     // Log the action (non-blocking)
     client
@@ -135,19 +88,26 @@ export async function GET(request: Request) {
           startTime,
           endTime,
           maxResults,
+          calendarId,
+          ...filters,
+          pageToken,
         },
       })
       .catch((err: unknown) => {
         console.error("Failed to log list action:", err);
       });
 
-    return NextResponse.json({ events });
+    return NextResponse.json({ events: formattedEvents, nextPageToken });
   } catch (error) {
     console.error("Calendar list error:", error);
 
     const errorMessage =
       error instanceof Error ? error.message : "Failed to list events";
 
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     // Handle invalid token error
     if (errorMessage === "TOKEN_INVALID") {
       return NextResponse.json(
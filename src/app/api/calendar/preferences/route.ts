@@ -0,0 +1,87 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import {
+  describeSchedulingPreferences,
+  getSchedulingPreferences,
+  schedulingPreferencesSchema,
+} from "@/lib/scheduling-preferences";
+
+/**
+ * GET /api/calendar/preferences - The user's scheduling preferences, with a summary for the agent
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const preferences = await client.query(api.preferences.getUserPreferences, {
+      clerkUserId: userId,
+    });
+    const scheduling = await getSchedulingPreferences(userId);
+
+    return NextResponse.json({
+      ...scheduling,
+      timeZone: preferences?.timeZone ?? null,
+      summary: describeSchedulingPreferences(scheduling),
+    });
+  } catch (error) {
+    console.error("Get preferences error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to get preferences",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/calendar/preferences - Replace working hours, meeting length, buffer and no-meeting days
+ * Fields left out are cleared
+ */
+export async function PUT(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = schedulingPreferencesSchema.parse(body);
+
+    await client.mutation(api.preferences.setSchedulingPreferences, {
+      clerkUserId: userId,
+      ...validated,
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...validated,
+      summary: describeSchedulingPreferences(validated),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Set preferences error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to set preferences",
+      },
+      { status: 500 }
+    );
+  }
+}
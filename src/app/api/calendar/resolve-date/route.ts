@@ -0,0 +1,67 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { resolveTimeZone } from "@/lib/calendar-provider";
+import { resolveDatePhrase } from "@/lib/date-resolver";
+import { isValidTimeZone } from "@/lib/timezone";
+import { getSchedulingPreferences } from "@/lib/scheduling-preferences";
+
+const resolveDateSchema = z.object({
+  text: z.string().min(1).max(200), // e.g. "next Tuesday at 3"
+  reference: z.string().datetime({ offset: true }).optional(), // Resolve relative to this instead of now
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Unknown time zone" })
+    .optional(), // Defaults to the user's timezone
+  durationMinutes: z.number().int().min(5).max(24 * 60).optional(), // When the phrase has no end; defaults to the user's meeting length
+});
+
+/**
+ * POST /api/calendar/resolve-date - Turn a spoken date/time phrase into a start and end
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = resolveDateSchema.parse(body);
+
+    const resolution = resolveDatePhrase(validated.text, {
+      reference: validated.reference
+        ? new Date(validated.reference)
+        : undefined,
+      timeZone: await resolveTimeZone(userId, validated.timeZone),
+      defaultDurationMinutes:
+        validated.durationMinutes ??
+        (await getSchedulingPreferences(userId)).defaultDurationMinutes,
+    });
+
+    if (!resolution) {
+      return NextResponse.json(
+        { error: `No valid date or time found in "${validated.text}"` },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(resolution);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Resolve date error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to resolve date",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import {
+  getCalendarProvider,
+  resolveCalendarId,
+} from "@/lib/calendar-provider";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
+
+const respondSchema = z.object({
+  eventId: z.string().min(1),
+  calendarId: z.string().optional(),
+  response: z.enum(["accepted", "declined", "tentative"]),
+  comment: z.string().max(1000).optional(), // Sent to the organizer with the response
+});
+
+/**
+ * POST /api/calendar/respond - Accept, decline or tentatively accept an invitation
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = respondSchema.parse(body);
+
+    const calendar = await getCalendarProvider(userId);
+    const calendarId = await resolveCalendarId(userId, validated.calendarId);
+
+    const updated = await calendar.respondToEvent(
+      validated.eventId,
+      { status: validated.response, comment: validated.comment },
+      calendarId
+    );
+
+    // Log the action
+    await client.mutation(api.tokens.logAction, {
+      clerkUserId: userId,
+      action: "respond",
+      details: {
+        calendarId: updated.calendarId,
+        response: validated.response,
+        comment: validated.comment,
+      },
+    });
+
+    return NextResponse.json({
+      id: updated.id,
+      calendarId: updated.calendarId,
+      title: updated.title,
+      start: updated.start,
+      end: updated.end,
+      organizer: updated.organizer,
+      attendees: updated.attendees,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to respond to event";
+
+    if (errorMessage === "You are not invited to this event") {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    // Handle invalid token error
+    if (errorMessage === "TOKEN_INVALID") {
+      return NextResponse.json(
+        {
+          error: "Google Calendar connection expired. Please reconnect.",
+          needsReconnect: true,
+        },
+        { status: 401 }
+      );
+    }
+
+    console.error("Calendar respond error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { eventTemplateSchema, hasTemplateNamed } from "@/lib/event-templates";
+
+/**
+ * The user's template with this id, or null
+ * Looked up in their own list, so malformed and foreign ids are simply not found
+ */
+async function getUserTemplate(userId: string, id: string) {
+  const templates = await client.query(api.eventTemplates.listTemplates, {
+    clerkUserId: userId,
+  });
+  return {
+    templates,
+    template: templates.find((template) => template._id === id) ?? null,
+  };
+}
+
+/**
+ * PUT /api/calendar/templates/[id] - Replace a template's fields
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const validated = eventTemplateSchema.parse(body);
+
+    const { templates, template } = await getUserTemplate(userId, id);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    if (hasTemplateNamed(templates, validated.name, template._id)) {
+      return NextResponse.json(
+        { error: `A template named "${validated.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    await client.mutation(api.eventTemplates.updateTemplate, {
+      clerkUserId: userId,
+      templateId: template._id,
+      ...validated,
+    });
+
+    return NextResponse.json({ success: true, id: template._id });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Update template error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to update template",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/calendar/templates/[id] - Delete a template
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const { template } = await getUserTemplate(userId, id);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    await client.mutation(api.eventTemplates.deleteTemplate, {
+      clerkUserId: userId,
+      templateId: template._id,
+    });
+
+    return NextResponse.json({ success: true, deleted: true });
+  } catch (error) {
+    console.error("Delete template error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to delete template",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { resolveTimeZone } from "@/lib/calendar-provider";
+import { isBadRequestError } from "@/lib/event-mutations";
+import {
+  expandTemplate,
+  expandTemplateSchema,
+  findTemplate,
+} from "@/lib/event-templates";
+
+/**
+ * POST /api/calendar/templates/expand - Fill in a create request from a template
+ * Nothing is created: send the returned event to /api/calendar/create
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = expandTemplateSchema.parse(body);
+
+    const templates = await client.query(api.eventTemplates.listTemplates, {
+      clerkUserId: userId,
+    });
+    const template = findTemplate(templates, validated.template);
+    if (!template) {
+      return NextResponse.json(
+        {
+          error: `No single template matches "${validated.template}"`,
+          templates: templates.map((template) => template.name),
+        },
+        { status: 404 }
+      );
+    }
+
+    const event = expandTemplate(
+      template,
+      validated,
+      await resolveTimeZone(userId, validated.timeZone)
+    );
+
+    return NextResponse.json({
+      template: { id: template._id, name: template.name },
+      event,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to expand template";
+
+    if (isBadRequestError(errorMessage)) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    console.error("Expand template error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import {
+  eventTemplateSchema,
+  formatTemplate,
+  hasTemplateNamed,
+} from "@/lib/event-templates";
+
+/**
+ * GET /api/calendar/templates - The user's event templates
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const templates = await client.query(api.eventTemplates.listTemplates, {
+      clerkUserId: userId,
+    });
+
+    return NextResponse.json({ templates: templates.map(formatTemplate) });
+  } catch (error) {
+    console.error("List templates error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to list templates",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/calendar/templates - Create a template
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = eventTemplateSchema.parse(body);
+
+    const templates = await client.query(api.eventTemplates.listTemplates, {
+      clerkUserId: userId,
+    });
+    if (hasTemplateNamed(templates, validated.name)) {
+      return NextResponse.json(
+        { error: `A template named "${validated.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const id = await client.mutation(api.eventTemplates.createTemplate, {
+      clerkUserId: userId,
+      ...validated,
+    });
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Create template error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to create template",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { isValidTimeZone } from "@/lib/timezone";
+
+const setTimeZoneSchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, { message: "Unknown time zone" }),
+});
+
+/**
+ * GET /api/calendar/timezone - Get the user's saved timezone (null if none)
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const preferences = await client.query(api.preferences.getUserPreferences, {
+      clerkUserId: userId,
+    });
+
+    return NextResponse.json({ timeZone: preferences?.timeZone ?? null });
+  } catch (error) {
+    console.error("Get timezone error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to get timezone",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/calendar/timezone - Save the timezone used for local times
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = setTimeZoneSchema.parse(body);
+
+    await client.mutation(api.preferences.setTimeZone, {
+      clerkUserId: userId,
+      timeZone: validated.timeZone,
+    });
+
+    return NextResponse.json({ success: true, timeZone: validated.timeZone });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Set timezone error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to set timezone",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,187 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import {
+  getCalendarProvider,
+  resolveTimeZone,
+} from "@/lib/calendar-provider";
+import {
+  describeRevert,
+  isUndoable,
+  revertSnapshot,
+  type UndoSnapshot,
+} from "@/lib/undo";
+import {
+  confirmationSchema,
+  issueConfirmation,
+  withConfirmation,
+} from "@/lib/confirmation";
+import { GoogleRateLimitError, rateLimitedResponse } from "@/lib/google-retry";
+
+const undoSchema = z.object({
+  logId: z.string().optional(), // A specific action, as returned in actionId
+  sessionId: z.string().optional(), // Everything from this voice session
+});
+
+/**
+ * POST /api/calendar/undo - Revert calendar changes
+ * Reverts the given action, every action from a voice session (newest first),
+ * or when neither is given the most recent action
+ * With dryRun: true nothing changes; the response has a preview and a confirmationToken,
+ * which has to be sent back with the same request to revert anything
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = undoSchema.parse(body);
+    const { dryRun, confirmationToken } = confirmationSchema.parse(body);
+
+    let logs;
+    if (validated.logId) {
+      const log = await client.query(api.tokens.getActionLog, {
+        clerkUserId: userId,
+        logId: validated.logId,
+      });
+
+      if (!log) {
+        return NextResponse.json({ error: "Action not found" }, { status: 404 });
+      }
+      if (log.undoneAt) {
+        return NextResponse.json(
+          { error: "Action was already undone" },
+          { status: 409 }
+        );
+      }
+      if (!log.snapshot || !isUndoable(log.snapshot)) {
+        return NextResponse.json(
+          { error: "This action can't be undone" },
+          { status: 400 }
+        );
+      }
+      logs = [log];
+    } else {
+      logs = await client.query(api.tokens.getUndoableActions, {
+        clerkUserId: userId,
+        sessionId: validated.sessionId,
+        limit: validated.sessionId ? undefined : 1,
+      });
+    }
+
+    if (logs.length === 0) {
+      return NextResponse.json({ error: "Nothing to undo" }, { status: 404 });
+    }
+
+    // The token covers the actions that were previewed, so a change made
+    // after the preview isn't reverted along with them
+    const confirmed = {
+      ...validated,
+      actionIds: logs.map((log) => log._id),
+    };
+
+    if (dryRun) {
+      const timeZone = await resolveTimeZone(userId);
+      const summary = logs
+        .flatMap((log) =>
+          describeRevert(log.snapshot as UndoSnapshot, timeZone)
+        )
+        .join("\n");
+      return NextResponse.json({
+        dryRun: true,
+        preview: { summary },
+        actionIds: confirmed.actionIds,
+        ...(await issueConfirmation(userId, "undo", confirmed, summary)),
+      });
+    }
+
+    const apply = async (): Promise<NextResponse> => {
+      const calendar = await getCalendarProvider(userId);
+      const undone = [];
+
+      for (const log of logs) {
+        const events = await revertSnapshot(
+          calendar,
+          log.snapshot as UndoSnapshot
+        );
+        await client.mutation(api.tokens.markActionUndone, {
+          clerkUserId: userId,
+          logId: log._id,
+        });
+
+        undone.push({
+          actionId: log._id,
+          action: log.action,
+          details: log.details,
+          events: events.map((event) => ({
+            id: event.id,
+            calendarId: event.calendarId,
+            title: event.title,
+            start: event.start,
+            end: event.end,
+          })),
+        });
+      }
+
+      // Log the action
+      await client.mutation(api.tokens.logAction, {
+        clerkUserId: userId,
+        action: "undo",
+        details: {
+          actionIds: undone.map((entry) => entry.actionId),
+          sessionId: validated.sessionId,
+        },
+      });
+
+      return NextResponse.json({ undone });
+    };
+
+    return await withConfirmation(
+      userId,
+      "undo",
+      confirmed,
+      confirmationToken,
+      { required: true },
+      apply
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to undo action";
+
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    // Handle invalid token error
+    if (errorMessage === "TOKEN_INVALID") {
+      return NextResponse.json(
+        {
+          error: "Google Calendar connection expired. Please reconnect.",
+          needsReconnect: true,
+        },
+        { status: 401 }
+      );
+    }
+
+    console.error("Calendar undo error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
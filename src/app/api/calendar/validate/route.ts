@@ -3,6 +3,13 @@ import { NextResponse } from "next/server";
 import { google } from "googleapis";
 import { client } from "@/lib/convex";
 import { api } from "convex/_generated/api";
+import { getUserCalendarProviderKind } from "@/lib/calendar-provider";
+import { createCalDavCalendarProvider } from "@/lib/caldav-calendar-provider";
+import {
+  GoogleRateLimitError,
+  rateLimitedResponse,
+  withGoogleRetry,
+} from "@/lib/google-retry";
 
 /**
  * Helper function to delete invalid tokens and throw a reconnection error
@@ -27,6 +34,39 @@ export async function GET() {
   }
 
   try {
+    const providerKind = await getUserCalendarProviderKind(userId);
+
+    // The in-memory backend needs no Google account
+    if (providerKind === "memory") {
+      return NextResponse.json({ connected: true, valid: true });
+    }
+
+    // CalDAV connections are validated with a small REPORT against the calendar
+    if (providerKind === "caldav") {
+      try {
+        const calendar = await createCalDavCalendarProvider(userId);
+        const now = new Date();
+        await calendar.listEvents({
+          timeMin: now.toISOString(),
+          timeMax: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+          maxResults: 1,
+        });
+        return NextResponse.json({
+          connected: true,
+          valid: true,
+          provider: "caldav",
+        });
+      } catch (error: any) {
+        if (error?.message === "CalDAV authentication failed") {
+          return NextResponse.json(
+            { connected: false, valid: false, needsReconnect: true },
+            { status: 401 }
+          );
+        }
+        throw error;
+      }
+    }
+
     // Get tokens from Convex
     const tokens = await client.query(api.tokens.getUserTokens, {
       clerkUserId: userId,
@@ -96,10 +136,13 @@ export async function GET() {
     try {
       // Make a lightweight API call to verify the token works
       // Use events.list instead of calendarList.list since we only have calendar.events scope
-      await calendar.events.list({
-        calendarId: "primary",
-        maxResults: 1,
-      });
+      // Rate limits come back as GoogleRateLimitError, so a 403 below means the token is bad
+      await withGoogleRetry(() =>
+        calendar.events.list({
+          calendarId: "primary",
+          maxResults: 1,
+        })
+      );
 
       return NextResponse.json({ connected: true, valid: true });
     } catch (error: any) {
@@ -116,6 +159,10 @@ export async function GET() {
       throw error;
     }
   } catch (error: any) {
+    if (error instanceof GoogleRateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     // Handle token invalid error specifically
     if (error?.message === "TOKEN_INVALID") {
       return NextResponse.json(
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { renewCalendarWatch } from "@/lib/calendar-watch";
+
+const renewSchema = z.object({
+  channelId: z.string().min(1),
+});
+
+/**
+ * POST /api/calendar/webhook/renew - Replace a channel before it expires
+ * Called by the renewWatchChannel Convex action with CALENDAR_WEBHOOK_SECRET as a bearer token
+ */
+export async function POST(request: Request) {
+  const secret = process.env.CALENDAR_WEBHOOK_SECRET;
+  if (
+    !secret ||
+    request.headers.get("authorization") !== `Bearer ${secret}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = renewSchema.parse(body);
+
+    const renewed = await renewCalendarWatch(validated.channelId);
+
+    return NextResponse.json({ success: true, renewed });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Calendar channel renewal error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to renew channel",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { handleCalendarNotification } from "@/lib/calendar-watch";
+
+/**
+ * POST /api/calendar/webhook - Google push notifications for watched calendars
+ * Not behind Clerk: the channel token Google echoes back authenticates the request
+ */
+export async function POST(request: Request) {
+  const headers = request.headers;
+  const channelId = headers.get("x-goog-channel-id");
+  const resourceId = headers.get("x-goog-resource-id");
+  const resourceState = headers.get("x-goog-resource-state");
+
+  if (!channelId || !resourceId || !resourceState) {
+    return NextResponse.json(
+      { error: "Missing notification headers" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await handleCalendarNotification({
+      channelId,
+      resourceId,
+      resourceState,
+      token: headers.get("x-goog-channel-token") || "",
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to handle notification";
+
+    if (errorMessage === "Unknown channel") {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (errorMessage === "Invalid channel token") {
+      return NextResponse.json({ error: errorMessage }, { status: 401 });
+    }
+
+    // Google retries 5xx responses with backoff, which is what we want for failed syncs
+    console.error("Calendar webhook error:", error);
+    return NextResponse.json(
+      {
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCalendarProvider } from "@/lib/calendar-provider";
+import { syncCalendarMirror } from "@/lib/calendar-mirror";
+import { ensureCalendarWatch } from "@/lib/calendar-watch";
+import { BACKGROUND_RETRY_BUDGET_MS } from "@/lib/google-retry";
+
+const syncSchema = z.object({
+  clerkUserId: z.string().min(1),
+  calendarId: z.string().min(1),
+});
+
+/**
+ * POST /api/calendar/webhook/sync - Run a full sync of a calendar's mirror and watch the calendar
+ * Called by the runFullSync Convex action with CALENDAR_WEBHOOK_SECRET as a bearer token
+ */
+export async function POST(request: Request) {
+  const secret = process.env.CALENDAR_WEBHOOK_SECRET;
+  if (
+    !secret ||
+    request.headers.get("authorization") !== `Bearer ${secret}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = syncSchema.parse(body);
+
+    const calendar = await getCalendarProvider(validated.clerkUserId, {
+      retryBudgetMs: BACKGROUND_RETRY_BUDGET_MS,
+    });
+    await syncCalendarMirror(
+      validated.clerkUserId,
+      calendar,
+      validated.calendarId,
+      { full: true }
+    );
+
+    // Reads of any calendar end up here first, so this is where new calendars get a channel
+    try {
+      await ensureCalendarWatch(
+        validated.clerkUserId,
+        calendar,
+        validated.calendarId
+      );
+    } catch (err) {
+      // The mirror still works without one; reads sync once it's a minute old
+      console.error("Failed to watch calendar:", err);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Calendar mirror sync error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to sync calendar",
+      },
+      { status: 500 }
+    );
+  }
+}
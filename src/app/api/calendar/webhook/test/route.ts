@@ -0,0 +1,89 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client, getServerSecret } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { getCalendarProvider } from "@/lib/calendar-provider";
+import { startCalendarWatch } from "@/lib/calendar-watch";
+
+const testNotificationSchema = z.object({
+  resourceState: z.enum(["sync", "exists", "not_exists"]).default("exists"),
+  token: z.string().optional(), // Override the channel token to test rejection
+});
+
+/**
+ * POST /api/calendar/webhook/test - Post a fake push notification for the signed-in user
+ * Development only; registers a local channel that Google never sees for the notification,
+ * since stored channel tokens can't be read back, and removes it afterwards
+ */
+export async function POST(request: Request) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validated = testNotificationSchema.parse(body);
+
+    const calendar = await getCalendarProvider(userId);
+    const channel = await startCalendarWatch(userId, calendar, "primary", {
+      local: true,
+    });
+    if (!channel) {
+      throw new Error("Failed to register a local channel");
+    }
+
+    try {
+      // Go through the real webhook so header parsing and token checks are exercised too
+      const response = await fetch(
+        new URL("/api/calendar/webhook", request.url),
+        {
+          method: "POST",
+          headers: {
+            "X-Goog-Channel-ID": channel.channelId,
+            "X-Goog-Channel-Token": validated.token ?? channel.token,
+            "X-Goog-Resource-ID": channel.resourceId,
+            "X-Goog-Resource-State": validated.resourceState,
+            "X-Goog-Message-Number": String(Date.now()),
+          },
+        }
+      );
+
+      return NextResponse.json({
+        channelId: channel.channelId,
+        local: true,
+        webhookStatus: response.status,
+        webhookResponse: await response.json(),
+      });
+    } finally {
+      await client.mutation(api.calendarWatch.deleteWatchChannel, {
+        serverSecret: getServerSecret(),
+        channelId: channel.channelId,
+      });
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Test notification error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to post test notification",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,9 @@ import { NextResponse } from "next/server";
 import { google } from "googleapis";
 import { client } from "@/lib/convex";
 import { api } from "convex/_generated/api";
+import { createGoogleCalendarProvider } from "@/lib/google-calendar-provider";
+import { syncCalendarMirror } from "@/lib/calendar-mirror";
+import { ensureCalendarWatch } from "@/lib/calendar-watch";
 
 /**
  * Handles Google OAuth callback and stores tokens in Convex
@@ -68,6 +71,16 @@ export async function GET(request: Request) {
       expiryTimestamp,
     });
 
+    // Mirror the primary calendar and watch it for changes made in Google;
+    // if the sync fails, the first list starts it again
+    try {
+      const calendar = await createGoogleCalendarProvider(userId);
+      await syncCalendarMirror(userId, calendar, "primary", { full: true });
+      await ensureCalendarWatch(userId, calendar, "primary");
+    } catch (err) {
+      console.error("Initial calendar sync failed:", err);
+    }
+
     // Redirect to main app
     return NextResponse.redirect(new URL("/", request.url));
   } catch (error) {
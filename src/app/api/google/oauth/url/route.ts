@@ -31,7 +31,13 @@ export async function GET() {
     redirectUri
   );
 
-  const scopes = ["https://www.googleapis.com/auth/calendar.events"];
+  const scopes = [
+    "https://www.googleapis.com/auth/calendar.events",
+    // Needed to list the user's other calendars (team, family, ...)
+    "https://www.googleapis.com/auth/calendar.calendarlist.readonly",
+    // Needed for availability lookups
+    "https://www.googleapis.com/auth/calendar.freebusy",
+  ];
 
   const authUrl = oauth2Client.generateAuthUrl({
     access_type: "offline",
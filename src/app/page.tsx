@@ -30,7 +30,11 @@ export default function Home() {
     api.tokens.getUserTokens,
     userId ? { clerkUserId: userId } : "skip"
   );
-  const isGoogleCalendarConnected = !!tokens;
+  const caldavConnection = useQuery(
+    api.tokens.getCalDavConnection,
+    userId ? { clerkUserId: userId } : "skip"
+  );
+  const isGoogleCalendarConnected = !!tokens || !!caldavConnection;
 
   return (
     <main className="flex min-h-screen flex-col">
@@ -93,7 +97,7 @@ export default function Home() {
                 <li>• “Create event ‘Team Sync’ tomorrow 10 to 10:30”</li>
                 <li>• “Find meetings with Sarah next week”</li>
                 <li>
-                  • “Rename ‘1:1 John’ to ‘Mentorship’ and add a Zoom link”
+                  • “Rename ‘1:1 John’ to ‘Mentorship’ and add a Meet link”
                 </li>
                 <li>• “Delete my dentist appointment on the 21st”</li>
               </ul>
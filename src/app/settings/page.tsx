@@ -0,0 +1,31 @@
+"use client";
+
+import { SignedIn, SignedOut, SignInButton } from "@clerk/nextjs";
+import { SchedulingSettings } from "@/components/SchedulingSettings";
+
+export default function SettingsPage() {
+  return (
+    <div className="flex min-h-screen flex-col p-8">
+      <div className="max-w-2xl mx-auto w-full">
+        <h1 className="text-4xl font-bold text-center mb-8">Settings</h1>
+
+        <SignedOut>
+          <div className="flex flex-col items-center gap-4">
+            <p className="text-center text-gray-600 mb-4">
+              Please sign in to change your settings
+            </p>
+            <SignInButton mode="modal">
+              <button className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+                Sign In
+              </button>
+            </SignInButton>
+          </div>
+        </SignedOut>
+
+        <SignedIn>
+          <SchedulingSettings />
+        </SignedIn>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import { SignedIn, SignedOut, SignInButton } from "@clerk/nextjs";
 import { useState } from "react";
 import dynamic from "next/dynamic";
 import { EventsList } from "@/components/EventsList";
+import { CalendarImportExport } from "@/components/CalendarImportExport";
+import { EventTemplates } from "@/components/EventTemplates";
+import { ContactsBook } from "@/components/ContactsBook";
 import { useQuery } from "convex/react";
 import { api } from "convex/_generated/api";
 import { useAuth } from "@clerk/nextjs";
@@ -66,8 +69,13 @@ export default function VoiceTestPage() {
             </div>
 
             {/* Right Column: Events List */}
-            <div>
+            <div className="space-y-4">
               <EventsList refreshTrigger={refreshTrigger} />
+              <CalendarImportExport
+                onImported={() => setRefreshTrigger((prev) => prev + 1)}
+              />
+              <EventTemplates />
+              <ContactsBook />
             </div>
           </div>
         </SignedIn>
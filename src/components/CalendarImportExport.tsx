@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface CalendarImportExportProps {
+  onImported?: () => void;
+}
+
+/**
+ * .ics download, upload and the private subscription feed URL
+ */
+export function CalendarImportExport({ onImported }: CalendarImportExportProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/calendar/feed")
+      .then((response) => response.json())
+      .then((data) => setFeedUrl(data.url || null))
+      .catch((err) => console.warn("Failed to load feed URL:", err));
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+    setImportSummary(null);
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const response = await fetch("/api/calendar/import", {
+        method: "POST",
+        body: form,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import events");
+      }
+
+      setImportSummary(
+        `Imported ${data.created}, skipped ${data.duplicates} duplicate${
+          data.duplicates === 1 ? "" : "s"
+        }${data.failed > 0 ? `, ${data.failed} failed` : ""}`
+      );
+      onImported?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import events");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const updateFeed = async (method: "POST" | "DELETE") => {
+    setError(null);
+    try {
+      const response = await fetch("/api/calendar/feed", { method });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update feed");
+      }
+
+      setFeedUrl(data.url || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update feed");
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3 text-sm">
+      <div className="flex items-center gap-3">
+        <a
+          href="/api/calendar/export.ics"
+          className="px-3 py-1 border rounded-lg hover:bg-gray-50"
+        >
+          Export next 30 days (.ics)
+        </a>
+        <label className="px-3 py-1 border rounded-lg hover:bg-gray-50 cursor-pointer">
+          {isImporting ? "Importing..." : "Import .ics"}
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleImport}
+            disabled={isImporting}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {importSummary && <p className="text-green-700">{importSummary}</p>}
+
+      <div>
+        <p className="font-medium">Subscription feed</p>
+        {feedUrl ? (
+          <div className="space-y-1">
+            <input
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-2 py-1 border rounded-lg text-xs"
+            />
+            <p className="text-xs text-gray-500">
+              Anyone with this URL can see your events.{" "}
+              <button
+                onClick={() => updateFeed("POST")}
+                className="text-blue-600 hover:underline"
+              >
+                New URL
+              </button>{" "}
+              <button
+                onClick={() => updateFeed("DELETE")}
+                className="text-red-600 hover:underline"
+              >
+                Turn off
+              </button>
+            </p>
+          </div>
+        ) : (
+          <button
+            onClick={() => updateFeed("POST")}
+            className="text-blue-600 hover:underline"
+          >
+            Create a private URL for other calendar apps
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
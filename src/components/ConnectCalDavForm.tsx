@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+
+interface ConnectCalDavFormProps {
+  onConnected?: () => void;
+}
+
+/**
+ * Form for connecting a CalDAV calendar (Nextcloud, Radicale, ...)
+ * The server discovers the calendar from the server URL before saving credentials
+ */
+export function ConnectCalDavForm({ onConnected }: ConnectCalDavFormProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [serverUrl, setServerUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsConnecting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/caldav/connect", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ serverUrl, username, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to connect CalDAV calendar");
+      }
+
+      setPassword("");
+      setIsOpen(false);
+      onConnected?.();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to connect CalDAV calendar"
+      );
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="text-sm text-blue-600 hover:underline"
+      >
+        Use a CalDAV calendar instead
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 p-4 border rounded-lg">
+      <input
+        type="url"
+        required
+        placeholder="https://cloud.example.com/remote.php/dav"
+        value={serverUrl}
+        onChange={(e) => setServerUrl(e.target.value)}
+        className="w-full px-3 py-2 border rounded-lg text-sm"
+      />
+      <input
+        type="text"
+        required
+        placeholder="Username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        className="w-full px-3 py-2 border rounded-lg text-sm"
+      />
+      <input
+        type="password"
+        required
+        placeholder="Password or app password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        className="w-full px-3 py-2 border rounded-lg text-sm"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isConnecting}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isConnecting ? "Connecting..." : "Connect CalDAV"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
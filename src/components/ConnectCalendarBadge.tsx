@@ -4,6 +4,7 @@ import { useQuery } from "convex/react";
 import { api } from "convex/_generated/api";
 import { useAuth } from "@clerk/nextjs";
 import { useState, useEffect } from "react";
+import { ConnectCalDavForm } from "@/components/ConnectCalDavForm";
 
 export function ConnectCalendarBadge() {
   const { userId } = useAuth();
@@ -11,6 +12,10 @@ export function ConnectCalendarBadge() {
     api.tokens.getUserTokens,
     userId ? { clerkUserId: userId } : "skip"
   );
+  const caldavConnection = useQuery(
+    api.tokens.getCalDavConnection,
+    userId ? { clerkUserId: userId } : "skip"
+  );
   const [isConnecting, setIsConnecting] = useState(false);
   const [isDisconnecting, setIsDisconnecting] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
@@ -19,9 +24,9 @@ export function ConnectCalendarBadge() {
     valid: boolean;
   } | null>(null);
 
-  // Validate connection when tokens exist
+  // Validate connection when Google tokens or CalDAV credentials exist
   useEffect(() => {
-    if (!userId || !tokens) {
+    if (!userId || (!tokens && !caldavConnection)) {
       setConnectionStatus({ connected: false, valid: false });
       return;
     }
@@ -47,7 +52,7 @@ export function ConnectCalendarBadge() {
     };
 
     validateConnection();
-  }, [userId, tokens]);
+  }, [userId, tokens, caldavConnection]);
 
   const handleConnect = async () => {
     if (!userId) return;
@@ -98,41 +103,47 @@ export function ConnectCalendarBadge() {
   const showConnecting = isConnecting || isValidating;
 
   return (
-    <div className="flex items-center gap-4 p-4 border rounded-lg">
-      <div className="flex items-center gap-2">
-        <div
-          className={`w-3 h-3 rounded-full ${
-            isConnected ? "bg-green-500" : "bg-gray-400"
-          }`}
-        />
-        <span className="font-medium">
-          {showConnecting
-            ? "Validating connection..."
-            : isConnected
-            ? "Google Calendar Connected"
-            : "Google Calendar Not Connected"}
-        </span>
+    <div className="space-y-2">
+      <div className="flex items-center gap-4 p-4 border rounded-lg">
+        <div className="flex items-center gap-2">
+          <div
+            className={`w-3 h-3 rounded-full ${
+              isConnected ? "bg-green-500" : "bg-gray-400"
+            }`}
+          />
+          <span className="font-medium">
+            {showConnecting
+              ? "Validating connection..."
+              : isConnected
+              ? caldavConnection
+                ? "CalDAV Calendar Connected"
+                : "Google Calendar Connected"
+              : "Google Calendar Not Connected"}
+          </span>
+        </div>
+
+        {isConnected && !showConnecting && (
+          <button
+            onClick={handleDisconnect}
+            disabled={isDisconnecting}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+          >
+            {isDisconnecting ? "Disconnecting..." : "Disconnect"}
+          </button>
+        )}
+
+        {!isConnected && !showConnecting && (
+          <button
+            onClick={handleConnect}
+            disabled={isConnecting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isConnecting ? "Connecting..." : "Connect Google Calendar"}
+          </button>
+        )}
       </div>
 
-      {isConnected && !showConnecting && (
-        <button
-          onClick={handleDisconnect}
-          disabled={isDisconnecting}
-          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
-        >
-          {isDisconnecting ? "Disconnecting..." : "Disconnect"}
-        </button>
-      )}
-
-      {!isConnected && !showConnecting && (
-        <button
-          onClick={handleConnect}
-          disabled={isConnecting}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
-        >
-          {isConnecting ? "Connecting..." : "Connect Google Calendar"}
-        </button>
-      )}
+      {!isConnected && !showConnecting && <ConnectCalDavForm />}
     </div>
   );
 }
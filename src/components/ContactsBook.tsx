@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface Contact {
+  id: string;
+  email: string;
+  name?: string;
+  aliases: string[];
+  eventCount: number;
+}
+
+interface ContactForm {
+  email: string;
+  name: string;
+  aliases: string; // Comma-separated
+}
+
+const EMPTY_FORM: ContactForm = { email: "", name: "", aliases: "" };
+
+function parseAliases(aliases: string): string[] {
+  return aliases
+    .split(",")
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Contacts the agent invites by name, with their nicknames ("lunch with Alex")
+ */
+export function ContactsBook() {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [form, setForm] = useState<ContactForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadContacts = async () => {
+    try {
+      const response = await fetch("/api/calendar/contacts");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load contacts");
+      }
+
+      setContacts(data.contacts || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load contacts");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadContacts();
+  }, []);
+
+  const startEditing = (contact?: Contact) => {
+    setError(null);
+    setEditingId(contact?.id ?? null);
+    setForm(
+      contact
+        ? {
+            email: contact.email,
+            name: contact.name || "",
+            aliases: contact.aliases.join(", "),
+          }
+        : EMPTY_FORM
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setError(null);
+    try {
+      const fields = {
+        name: form.name.trim() || undefined,
+        aliases: parseAliases(form.aliases),
+      };
+      const response = await fetch(
+        editingId
+          ? `/api/calendar/contacts/${editingId}`
+          : "/api/calendar/contacts",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            editingId ? fields : { ...fields, email: form.email.trim() }
+          ),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to save contact"
+        );
+      }
+
+      setForm(null);
+      setEditingId(null);
+      await loadContacts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save contact");
+    }
+  };
+
+  const handleDelete = async (contact: Contact) => {
+    if (!confirm(`Remove ${contact.name || contact.email} from contacts?`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/calendar/contacts/${contact.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete contact");
+      }
+
+      await loadContacts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete contact");
+    }
+  };
+
+  const wanted = filter.trim().toLowerCase();
+  const visible = contacts.filter(
+    (contact) =>
+      !wanted ||
+      contact.email.includes(wanted) ||
+      contact.name?.toLowerCase().includes(wanted) ||
+      contact.aliases.some((alias) => alias.toLowerCase().includes(wanted))
+  );
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">Contacts</p>
+        {!form && (
+          <button
+            onClick={() => startEditing()}
+            className="text-blue-600 hover:underline"
+          >
+            Add contact
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <form onSubmit={handleSave} className="space-y-2">
+          <input
+            required
+            type="email"
+            placeholder="Email"
+            value={form.email}
+            disabled={!!editingId}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            className="w-full px-2 py-1 border rounded-lg disabled:bg-gray-50"
+          />
+          <input
+            placeholder="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="w-full px-2 py-1 border rounded-lg"
+          />
+          <input
+            placeholder="Nicknames, comma-separated (e.g. Alex, my manager)"
+            value={form.aliases}
+            onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+            className="w-full px-2 py-1 border rounded-lg"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+              }}
+              className="px-3 py-1 border rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading contacts...</p>
+      ) : contacts.length === 0 ? (
+        <p className="text-gray-500">
+          People from your past events show up here. Add nicknames so the
+          assistant knows who &quot;Alex&quot; is.
+        </p>
+      ) : (
+        <>
+          {contacts.length > 5 && (
+            <input
+              placeholder="Filter"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="w-full px-2 py-1 border rounded-lg"
+            />
+          )}
+          <ul className="divide-y max-h-64 overflow-y-auto">
+            {visible.map((contact) => (
+              <li
+                key={contact.id}
+                className="py-2 flex items-center justify-between gap-2"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {contact.name || contact.email}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {contact.name ? `${contact.email}, ` : ""}
+                    {contact.aliases.length > 0
+                      ? `aka ${contact.aliases.join(", ")}`
+                      : "no nicknames"}
+                  </p>
+                </div>
+                <div className="flex gap-2 text-xs shrink-0">
+                  <button
+                    onClick={() => startEditing(contact)}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(contact)}
+                    className="text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
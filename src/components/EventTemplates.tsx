@@ -0,0 +1,313 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface EventTemplate {
+  id: string;
+  name: string;
+  title: string;
+  durationMinutes: number;
+  startTime?: string;
+  location?: string;
+  attendees?: string[];
+  description?: string;
+  addVideoCall?: boolean;
+  [field: string]: unknown; // Fields the form doesn't show, e.g. reminders
+}
+
+interface TemplateForm {
+  name: string;
+  title: string;
+  durationMinutes: string;
+  startTime: string;
+  location: string;
+  attendees: string; // Comma-separated emails
+  description: string;
+  addVideoCall: boolean;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  name: "",
+  title: "",
+  durationMinutes: "30",
+  startTime: "",
+  location: "",
+  attendees: "",
+  description: "",
+  addVideoCall: false,
+};
+
+function toForm(template: EventTemplate): TemplateForm {
+  return {
+    name: template.name,
+    title: template.title,
+    durationMinutes: String(template.durationMinutes),
+    startTime: template.startTime || "",
+    location: template.location || "",
+    attendees: (template.attendees || []).join(", "),
+    description: template.description || "",
+    addVideoCall: !!template.addVideoCall,
+  };
+}
+
+/**
+ * Manage event templates the agent can create events from ("my usual standup")
+ */
+export function EventTemplates() {
+  const [templates, setTemplates] = useState<EventTemplate[]>([]);
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [editing, setEditing] = useState<EventTemplate | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch("/api/calendar/templates");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load templates");
+      }
+
+      setTemplates(data.templates || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load templates");
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const startEditing = (template?: EventTemplate) => {
+    setError(null);
+    setEditing(template ?? null);
+    setForm(template ? toForm(template) : EMPTY_FORM);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const attendees = form.attendees
+        .split(",")
+        .map((email) => email.trim())
+        .filter(Boolean);
+      const response = await fetch(
+        editing
+          ? `/api/calendar/templates/${editing.id}`
+          : "/api/calendar/templates",
+        {
+          method: editing ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          // PUT replaces the template, so fields the form doesn't show are sent back as they were
+          body: JSON.stringify({
+            ...editing,
+            name: form.name,
+            title: form.title,
+            durationMinutes: parseInt(form.durationMinutes, 10),
+            startTime: form.startTime || undefined,
+            location: form.location || undefined,
+            attendees: attendees.length > 0 ? attendees : undefined,
+            description: form.description || undefined,
+            addVideoCall: form.addVideoCall || undefined,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to save template"
+        );
+      }
+
+      setForm(null);
+      setEditing(null);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: EventTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/calendar/templates/${template.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete template");
+      }
+
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete template");
+    }
+  };
+
+  const update = (fields: Partial<TemplateForm>) =>
+    setForm((current) => (current ? { ...current, ...fields } : current));
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">Event templates</p>
+        {!form && (
+          <button
+            onClick={() => startEditing()}
+            className="text-blue-600 hover:underline"
+          >
+            New template
+          </button>
+        )}
+      </div>
+
+      {templates.length === 0 && !form && (
+        <p className="text-gray-500">
+          Save events you create often, then say &quot;schedule my usual
+          standup tomorrow&quot;.
+        </p>
+      )}
+
+      {templates.length > 0 && (
+        <ul className="divide-y">
+          {templates.map((template) => (
+            <li
+              key={template.id}
+              className="py-2 flex items-center justify-between gap-2"
+            >
+              <div>
+                <p className="font-medium">{template.name}</p>
+                <p className="text-xs text-gray-500">
+                  {template.title}, {template.durationMinutes} min
+                  {template.startTime ? ` at ${template.startTime}` : ""}
+                  {template.attendees?.length
+                    ? `, ${template.attendees.length} attendee${
+                        template.attendees.length === 1 ? "" : "s"
+                      }`
+                    : ""}
+                  {template.addVideoCall ? ", video call" : ""}
+                </p>
+              </div>
+              <div className="flex gap-2 text-xs">
+                <button
+                  onClick={() => startEditing(template)}
+                  className="text-blue-600 hover:underline"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="text-red-600 hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {form && (
+        <form onSubmit={handleSave} className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              required
+              placeholder="Name, e.g. standup"
+              value={form.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className="px-2 py-1 border rounded-lg"
+            />
+            <input
+              required
+              placeholder="Event title"
+              value={form.title}
+              onChange={(e) => update({ title: e.target.value })}
+              className="px-2 py-1 border rounded-lg"
+            />
+            <label className="flex items-center gap-2">
+              Minutes
+              <input
+                required
+                type="number"
+                min={5}
+                max={1440}
+                value={form.durationMinutes}
+                onChange={(e) => update({ durationMinutes: e.target.value })}
+                className="w-full px-2 py-1 border rounded-lg"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Usual start
+              <input
+                type="time"
+                value={form.startTime}
+                onChange={(e) => update({ startTime: e.target.value })}
+                className="w-full px-2 py-1 border rounded-lg"
+              />
+            </label>
+          </div>
+          <input
+            placeholder="Location"
+            value={form.location}
+            onChange={(e) => update({ location: e.target.value })}
+            className="w-full px-2 py-1 border rounded-lg"
+          />
+          <input
+            placeholder="Attendees (comma-separated emails)"
+            value={form.attendees}
+            onChange={(e) => update({ attendees: e.target.value })}
+            className="w-full px-2 py-1 border rounded-lg"
+          />
+          <textarea
+            placeholder="Description"
+            value={form.description}
+            onChange={(e) => update({ description: e.target.value })}
+            rows={2}
+            className="w-full px-2 py-1 border rounded-lg"
+          />
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.addVideoCall}
+              onChange={(e) => update({ addVideoCall: e.target.checked })}
+            />
+            Add a video call
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : editing ? "Save" : "Create"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setEditing(null);
+              }}
+              className="px-3 py-1 border rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,15 +1,80 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "convex/react";
+import { useAuth } from "@clerk/nextjs";
+import { api } from "convex/_generated/api";
+import { EVENT_COLORS } from "@/lib/event-colors";
+
+interface Attendee {
+  email: string;
+  displayName?: string;
+  responseStatus: "needsAction" | "accepted" | "declined" | "tentative";
+  optional?: boolean;
+  organizer?: boolean;
+  self?: boolean;
+}
+
+const RESPONSE_ICONS: Record<Attendee["responseStatus"], string> = {
+  accepted: "✓",
+  declined: "✗",
+  tentative: "?",
+  needsAction: "…",
+};
 
 interface Event {
   id: string;
+  calendarId?: string;
   title: string;
   start: string;
-  end: string;
+  end: string; // Last day (inclusive) for all-day events
+  allDay?: boolean;
   location?: string;
-  attendees?: string[];
+  attendees?: Attendee[];
   description?: string;
+  colorId?: string;
+  visibility?: "default" | "public" | "private" | "confidential";
+  transparency?: "busy" | "free";
+}
+
+interface CalendarOption {
+  id: string;
+  name: string;
+  primary: boolean;
+  color?: string;
+}
+
+/**
+ * "Friday, Oct 23, all day", "Mon, Oct 19 – Wed, Oct 21", or the start and end times
+ */
+function formatEventTime(event: Event): string {
+  if (!event.allDay) {
+    return `${new Date(event.start).toLocaleString()} - ${new Date(
+      event.end
+    ).toLocaleString()}`;
+  }
+
+  // Dates without a time would parse as UTC midnight, so build them locally
+  const toLocalDate = (date: string) => {
+    const [year, month, day] = date.split("-").map(Number);
+    return new Date(year, month - 1, day);
+  };
+
+  if (event.end === event.start) {
+    return `${toLocalDate(event.start).toLocaleDateString(undefined, {
+      weekday: "long",
+      month: "short",
+      day: "numeric",
+    })}, all day`;
+  }
+
+  const format = (date: string) =>
+    toLocalDate(date).toLocaleDateString(undefined, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+  return `${format(event.start)} – ${format(event.end)}`;
 }
 
 interface EventsListProps {
@@ -17,15 +82,48 @@ interface EventsListProps {
 }
 
 export function EventsList({ refreshTrigger }: EventsListProps) {
+  const { userId } = useAuth();
+  // Bumped when a sync, e.g. after a Google push notification, changes events
+  const lastMirrorChange = useQuery(
+    api.calendarEvents.getLastMirrorChange,
+    userId ? { clerkUserId: userId } : "skip"
+  );
+  const seenMirrorChange = useRef<number | undefined>(undefined);
   const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [calendars, setCalendars] = useState<CalendarOption[]>([]);
+  const [defaultCalendarId, setDefaultCalendarId] = useState<string | null>(
+    null
+  );
+  const [selectedCalendarId, setSelectedCalendarId] = useState<string | null>(
+    null
+  );
+
+  const fetchCalendars = async () => {
+    try {
+      const response = await fetch("/api/calendar/calendars");
+      const data = await response.json();
+
+      if (response.ok) {
+        setCalendars(data.calendars || []);
+        setDefaultCalendarId(data.defaultCalendarId || null);
+      }
+    } catch (err) {
+      // The filter is optional; events still load from the default calendar
+      console.warn("Failed to load calendars:", err);
+    }
+  };
 
   const fetchEvents = async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch("/api/calendar/list?max=10");
+      const params = new URLSearchParams({ max: "10" });
+      if (selectedCalendarId) {
+        params.set("calendarId", selectedCalendarId);
+      }
+      const response = await fetch(`/api/calendar/list?${params.toString()}`);
       const data = await response.json();
 
       if (!response.ok) {
@@ -54,9 +152,39 @@ export function EventsList({ refreshTrigger }: EventsListProps) {
     }
   };
 
+  const makeDefault = async (calendarId: string) => {
+    const response = await fetch("/api/calendar/calendars/default", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ calendarId }),
+    });
+
+    if (response.ok) {
+      setDefaultCalendarId(calendarId);
+    }
+  };
+
+  useEffect(() => {
+    fetchCalendars();
+  }, []);
+
   useEffect(() => {
     fetchEvents();
-  }, [refreshTrigger]);
+  }, [refreshTrigger, selectedCalendarId]);
+
+  // Refetch on changes made outside the app, but not for the first value
+  useEffect(() => {
+    if (lastMirrorChange === undefined) return;
+    if (
+      seenMirrorChange.current !== undefined &&
+      lastMirrorChange > seenMirrorChange.current
+    ) {
+      fetchEvents();
+    }
+    seenMirrorChange.current = lastMirrorChange;
+  }, [lastMirrorChange]);
+
+  const activeCalendarId = selectedCalendarId || defaultCalendarId;
 
   if (loading) {
     return (
@@ -82,22 +210,80 @@ export function EventsList({ refreshTrigger }: EventsListProps) {
 
   return (
     <div className="p-4 border rounded-lg">
-      <h2 className="text-xl font-bold mb-4">Upcoming Events</h2>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold">Upcoming Events</h2>
+        {calendars.length > 1 && (
+          <div className="flex items-center gap-2">
+            <select
+              value={activeCalendarId || ""}
+              onChange={(e) => setSelectedCalendarId(e.target.value)}
+              className="px-2 py-1 border rounded-lg text-sm"
+            >
+              {calendars.map((calendar) => (
+                <option key={calendar.id} value={calendar.id}>
+                  {calendar.name}
+                  {calendar.id === defaultCalendarId ? " (default)" : ""}
+                </option>
+              ))}
+            </select>
+            {activeCalendarId && activeCalendarId !== defaultCalendarId && (
+              <button
+                onClick={() => makeDefault(activeCalendarId)}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                Make default
+              </button>
+            )}
+          </div>
+        )}
+      </div>
       {events.length === 0 ? (
         <p className="text-gray-600">No upcoming events</p>
       ) : (
         <div className="space-y-4">
           {events.map((event) => (
             <div key={event.id} className="border-b pb-3 last:border-b-0">
-              <h3 className="font-semibold text-lg">{event.title}</h3>
+              <h3 className="font-semibold text-lg flex items-center gap-2">
+                {event.colorId && EVENT_COLORS[event.colorId] && (
+                  <span
+                    className="inline-block w-3 h-3 rounded-full"
+                    style={{ backgroundColor: EVENT_COLORS[event.colorId].hex }}
+                    title={EVENT_COLORS[event.colorId].name}
+                  />
+                )}
+                {event.title}
+                {(event.visibility === "private" ||
+                  event.visibility === "confidential") && (
+                  <span className="px-2 py-0.5 text-xs font-normal bg-gray-100 text-gray-700 rounded">
+                    🔒 Private
+                  </span>
+                )}
+              </h3>
               <div className="text-sm text-gray-600 mt-1">
                 <p>
-                  {new Date(event.start).toLocaleString()} -{" "}
-                  {new Date(event.end).toLocaleString()}
+                  {formatEventTime(event)}
+                  {event.transparency === "free" && " · Free"}
                 </p>
                 {event.location && <p>📍 {event.location}</p>}
                 {event.attendees && event.attendees.length > 0 && (
-                  <p>👥 {event.attendees.join(", ")}</p>
+                  <p>
+                    👥{" "}
+                    {event.attendees
+                      .map(
+                        (attendee) =>
+                          `${RESPONSE_ICONS[attendee.responseStatus]} ${
+                            attendee.self
+                              ? "You"
+                              : attendee.displayName || attendee.email
+                          }${attendee.organizer ? " (organizer)" : ""}${
+                            attendee.optional ? " (optional)" : ""
+                          }`
+                      )
+                      .join(", ")}
+                  </p>
+                )}
+                {event.description && (
+                  <p className="mt-1 whitespace-pre-line">{event.description}</p>
                 )}
               </div>
             </div>
@@ -5,7 +5,7 @@ import { SignedIn, UserButton } from "@clerk/nextjs";
 
 /**
  * Global header component with home button and user profile
- * Visible on all pages with home button on left and user profile on right
+ * Visible on all pages with home button on left and settings and user profile on right
  */
 export function Header() {
   return (
@@ -33,9 +33,17 @@ export function Header() {
           <span className="font-medium">Home</span>
         </Link>
 
-        {/* User Profile Button - Only shown when signed in */}
+        {/* Settings link and user profile button - Only shown when signed in */}
         <SignedIn>
-          <UserButton afterSignOutUrl="/" />
+          <div className="flex items-center gap-4">
+            <Link
+              href="/settings"
+              className="text-gray-900 hover:text-blue-600 transition-colors"
+            >
+              Settings
+            </Link>
+            <UserButton afterSignOutUrl="/" />
+          </div>
         </SignedIn>
       </div>
     </header>
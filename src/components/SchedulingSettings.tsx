@@ -0,0 +1,317 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface CalendarOption {
+  id: string;
+  name: string;
+}
+
+interface DayForm {
+  working: boolean;
+  start: string;
+  end: string;
+  noMeetings: boolean;
+}
+
+interface SettingsForm {
+  useWorkingHours: boolean;
+  days: DayForm[]; // Indexed by weekday, 0 = Sunday
+  defaultDurationMinutes: string;
+  bufferMinutes: string;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Monday-Friday, nine to five
+const DEFAULT_DAYS: DayForm[] = WEEKDAYS.map((_, day) => ({
+  working: day >= 1 && day <= 5,
+  start: "09:00",
+  end: "17:00",
+  noMeetings: false,
+}));
+
+/**
+ * Working hours, meeting length, buffer, no-meeting days and default calendar
+ * The agent uses these to fill in defaults and to warn about bookings outside them
+ */
+export function SchedulingSettings() {
+  const [form, setForm] = useState<SettingsForm | null>(null);
+  const [calendars, setCalendars] = useState<CalendarOption[]>([]);
+  const [defaultCalendarId, setDefaultCalendarId] = useState("");
+  const [savedCalendarId, setSavedCalendarId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch("/api/calendar/preferences");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load preferences");
+        }
+
+        const workingHours: { day: number; start: string; end: string }[] =
+          data.workingHours || [];
+        setForm({
+          useWorkingHours: !!data.workingHours,
+          days: DEFAULT_DAYS.map((defaults, day) => {
+            const hours = workingHours.find((entry) => entry.day === day);
+            return {
+              working: data.workingHours ? !!hours : defaults.working,
+              start: hours?.start || defaults.start,
+              end: hours?.end || defaults.end,
+              noMeetings: (data.noMeetingDays || []).includes(day),
+            };
+          }),
+          defaultDurationMinutes: data.defaultDurationMinutes
+            ? String(data.defaultDurationMinutes)
+            : "",
+          bufferMinutes: data.bufferMinutes ? String(data.bufferMinutes) : "",
+        });
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load preferences"
+        );
+      }
+
+      // Calendars need a connected account, so settings still load without them
+      try {
+        const response = await fetch("/api/calendar/calendars");
+        const data = await response.json();
+
+        if (response.ok) {
+          setCalendars(data.calendars || []);
+          setDefaultCalendarId(data.defaultCalendarId || "");
+          setSavedCalendarId(data.defaultCalendarId || "");
+        }
+      } catch (err) {
+        console.error("Failed to load calendars:", err);
+      }
+    };
+
+    load();
+  }, []);
+
+  const updateDay = (day: number, fields: Partial<DayForm>) =>
+    setForm((current) =>
+      current
+        ? {
+            ...current,
+            days: current.days.map((entry, index) =>
+              index === day ? { ...entry, ...fields } : entry
+            ),
+          }
+        : current
+    );
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const noMeetingDays = form.days
+        .map((entry, day) => (entry.noMeetings ? day : -1))
+        .filter((day) => day >= 0);
+      const response = await fetch("/api/calendar/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          workingHours: form.useWorkingHours
+            ? form.days
+                .map((entry, day) => ({ day, ...entry }))
+                .filter((entry) => entry.working)
+                .map(({ day, start, end }) => ({ day, start, end }))
+            : undefined,
+          defaultDurationMinutes: form.defaultDurationMinutes
+            ? parseInt(form.defaultDurationMinutes, 10)
+            : undefined,
+          bufferMinutes: form.bufferMinutes
+            ? parseInt(form.bufferMinutes, 10)
+            : undefined,
+          noMeetingDays: noMeetingDays.length > 0 ? noMeetingDays : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to save settings"
+        );
+      }
+
+      if (defaultCalendarId && defaultCalendarId !== savedCalendarId) {
+        const calendarResponse = await fetch("/api/calendar/calendars/default", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ calendarId: defaultCalendarId }),
+        });
+        const calendarData = await calendarResponse.json();
+
+        if (!calendarResponse.ok) {
+          throw new Error(
+            calendarData.error || "Failed to set the default calendar"
+          );
+        }
+        setSavedCalendarId(defaultCalendarId);
+      }
+
+      setMessage("Settings saved. New voice sessions will use them.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!form) {
+    return (
+      <div className="p-4 border rounded-lg text-sm">
+        {error ? (
+          <p className="text-red-600">{error}</p>
+        ) : (
+          <p className="text-gray-500">Loading settings...</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="p-4 border rounded-lg space-y-4 text-sm"
+    >
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 font-medium">
+          <input
+            type="checkbox"
+            checked={form.useWorkingHours}
+            onChange={(e) =>
+              setForm({ ...form, useWorkingHours: e.target.checked })
+            }
+          />
+          Working hours
+        </label>
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="font-normal">Day</th>
+              <th className="font-normal">Working</th>
+              <th className="font-normal">From</th>
+              <th className="font-normal">To</th>
+              <th className="font-normal">No meetings</th>
+            </tr>
+          </thead>
+          <tbody>
+            {form.days.map((entry, day) => (
+              <tr key={WEEKDAYS[day]}>
+                <td className="py-1">{WEEKDAYS[day]}</td>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={entry.working}
+                    disabled={!form.useWorkingHours}
+                    onChange={(e) =>
+                      updateDay(day, { working: e.target.checked })
+                    }
+                  />
+                </td>
+                <td>
+                  <input
+                    type="time"
+                    value={entry.start}
+                    disabled={!form.useWorkingHours || !entry.working}
+                    onChange={(e) => updateDay(day, { start: e.target.value })}
+                    className="px-2 py-1 border rounded-lg disabled:bg-gray-50"
+                  />
+                </td>
+                <td>
+                  <input
+                    type="time"
+                    value={entry.end}
+                    disabled={!form.useWorkingHours || !entry.working}
+                    onChange={(e) => updateDay(day, { end: e.target.value })}
+                    className="px-2 py-1 border rounded-lg disabled:bg-gray-50"
+                  />
+                </td>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={entry.noMeetings}
+                    onChange={(e) =>
+                      updateDay(day, { noMeetings: e.target.checked })
+                    }
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          Default meeting length (minutes)
+          <input
+            type="number"
+            min={5}
+            max={480}
+            placeholder="60"
+            value={form.defaultDurationMinutes}
+            onChange={(e) =>
+              setForm({ ...form, defaultDurationMinutes: e.target.value })
+            }
+            className="px-2 py-1 border rounded-lg"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Buffer between meetings (minutes)
+          <input
+            type="number"
+            min={0}
+            max={120}
+            placeholder="0"
+            value={form.bufferMinutes}
+            onChange={(e) => setForm({ ...form, bufferMinutes: e.target.value })}
+            className="px-2 py-1 border rounded-lg"
+          />
+        </label>
+      </div>
+
+      {calendars.length > 0 && (
+        <label className="flex flex-col gap-1">
+          Default calendar
+          <select
+            value={defaultCalendarId}
+            onChange={(e) => setDefaultCalendarId(e.target.value)}
+            className="px-2 py-1 border rounded-lg"
+          >
+            {calendars.map((calendar) => (
+              <option key={calendar.id} value={calendar.id}>
+                {calendar.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+      >
+        {isSaving ? "Saving..." : "Save"}
+      </button>
+
+      {message && <p className="text-green-700">{message}</p>}
+      {error && <p className="text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -15,10 +15,19 @@ import {
   type ErrorType,
 } from "@/lib/error-utils";
 import {
+  listCalendarsTool,
   findEventsTool,
+  findFreeSlotsTool,
+  resolveDateTool,
+  resolveContactTool,
   createEventTool,
+  listTemplatesTool,
+  createFromTemplateTool,
   updateEventTool,
   deleteEventTool,
+  batchUpdateEventsTool,
+  respondToInvitationTool,
+  undoLastActionTool,
   endVoiceSessionTool,
 } from "@/lib/calendar-agent-tools";
 import {
@@ -146,14 +155,35 @@ export function VoiceConsole({
         return;
       }
 
-      // Step 3: Capture user's timezone and current time
+      // Step 3: Capture user's timezone, current time and scheduling preferences
       let userTimezone: string;
       let currentTime: string;
+      let schedulingSummary = "";
       try {
         // Get user's IANA timezone (e.g., "America/New_York", "Europe/London")
         const resolvedOptions = Intl.DateTimeFormat().resolvedOptions();
         userTimezone = resolvedOptions.timeZone || "UTC";
 
+        // Prefer the saved timezone; save the browser's on first use
+        try {
+          const preferencesResponse = await fetch("/api/calendar/preferences");
+          if (preferencesResponse.ok) {
+            const { timeZone, summary } = await preferencesResponse.json();
+            schedulingSummary = summary || "";
+            if (timeZone) {
+              userTimezone = timeZone;
+            } else {
+              await fetch("/api/calendar/timezone", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ timeZone: userTimezone }),
+              });
+            }
+          }
+        } catch (err) {
+          console.warn("Failed to load saved preferences:", err);
+        }
+
         // Get current local time in a readable format
         const now = new Date();
         currentTime = now.toLocaleString("en-US", {
@@ -186,19 +216,48 @@ export function VoiceConsole({
           instructions: `You are a helpful assistant for managing Google Calendar. 
         You can help users create, update, and delete calendar events.
         When users ask about events, use find_events to search for them.
-        Always confirm before deleting events.
+        When users ask when they are free or want you to find a time, use find_free_slots, offer the top options, and book the chosen one with create_event.
+        When the user asks for their usual or regular event ("my usual standup", "a focus block"), use create_from_template; call list_templates if you're not sure which templates exist.
+        Attendees must be email addresses. When the user names people ("lunch with Alex"), call resolve_contact for each; if it needs disambiguation ask its question, and if it finds nobody ask for the email. Never guess an address.
+        Events go to the user's default calendar. If they mention another calendar (e.g. "team" or "family"), call list_calendars and pass that calendarId.
+        For recurring events (e.g. "every other Tuesday", "last Friday of the month"), fill in recurrence with freq, interval, byDay, count or until. When changing or deleting one occurrence of a recurring event, ask whether they mean just this one, this and following, or all, and pass scope.
+        Every change takes two steps: create_event, create_from_template, update_event, delete_event, batch_update_events and undo_last_action first return a preview and a confirmationToken without changing anything. Read the preview to the user and only call again with the confirmationToken after they say yes.
+        When a request touches several events ("cancel all my meetings Friday"), apply it with one batch_update_events call, using rollback when the changes only make sense together.
+        If the user wants to take a change back ("undo that", "no, put it back"), call undo_last_action; to revert everything from this conversation, pass entireSession: true after confirming.
         
         IMPORTANT: Current user time: ${currentTime} (Time Zone: ${userTimezone})
-        When creating or updating events, always use the user's local timezone (${userTimezone}) unless they explicitly specify a different timezone.
+        When creating or updating events, give start and end as local times without an offset (e.g. 2026-10-20T14:00); they are resolved in ${userTimezone}. Only pass timeZone when the user names a different timezone.
+        For relative or partial dates ("next Tuesday at 3", "the 21st"), call resolve_date and use its start and end. If its confidence is below 0.7 or a note changes the meaning (e.g. which Tuesday, am or pm), say the date you understood and check before booking.
+        ${
+          schedulingSummary
+            ? `The user's scheduling preferences:\n${schedulingSummary}\n        When the user doesn't say how long, leave out end and the default meeting length is used. When finding free time, don't pass workingHours or minGapMinutes so these preferences apply.`
+            : "When the user doesn't say how long, leave out end and the event is an hour long."
+        }
+        If a create or update result has warnings (outside working hours, a no-meeting day, too close to another meeting), mention them in one short sentence; don't undo the change unless the user asks.
+        For all-day or multi-day events, set allDay with dates only. When reading events with allDay: true, say "Friday, all day" or "Monday to Wednesday" rather than a time.
+        For requests like "remind me 30 minutes before", set reminders overrides (popup unless they ask for email). To answer what reminders an event has, use the reminders field from find_events.
+        When the user wants a video call, Meet, or Zoom link, set addVideoCall; the link is returned as conference.joinUrl.
+        To accept or decline an invitation ("decline the 4pm and tell them I'm travelling"), find the event and call respond_to_invitation with the reason as comment; don't delete invitations.
+        Put notes the user dictates into description. Use colorId for colors (e.g. "make it red" is 11 Tomato), visibility: private for private events, and transparency: free for events that shouldn't block time.
+        If a tool result has rateLimited: true, say its spokenResponse and don't call the tool again right away; try again only when the user asks.
         
         SESSION MANAGEMENT: If the user indicates they are done (e.g., "I'm done", "that's it for now", "okay, I'm done"), you MUST ask for confirmation: "Do you want me to end the session?" Only call the end_voice_session tool if they confirm with "yes" or similar affirmative response.
         
         RESPONSE STYLE: After completing any task, respond with a very brief confirmation only. Use short phrases like "Done, what's next?" or "Do you need anything else?" and nothing more. Keep responses concise and to the point.`,
           tools: [
+            listCalendarsTool,
             findEventsTool,
+            findFreeSlotsTool,
+            resolveDateTool,
+            resolveContactTool,
             createEventTool,
+            listTemplatesTool,
+            createFromTemplateTool,
             updateEventTool,
             deleteEventTool,
+            batchUpdateEventsTool,
+            respondToInvitationTool,
+            undoLastActionTool,
             endVoiceSessionTool,
           ],
         });
@@ -0,0 +1,56 @@
+import { addDaysToDate, getZonedDate, resolveDateTime } from "./timezone";
+
+/**
+ * All-day events are stored with date-only start/end values and an exclusive end
+ * (the day after the last day), like Google Calendar and iCalendar.
+ * The API routes take and return the last day inclusive, which is how people say it.
+ */
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isAllDay(event: { start: string }): boolean {
+  return DATE_ONLY.test(event.start);
+}
+
+/**
+ * Date (YYYY-MM-DD) for a value given to a route:
+ * dates are kept, date-times become their local date in the timezone
+ */
+export function toLocalDate(value: string, timeZone: string): string {
+  if (DATE_ONLY.test(value)) {
+    return resolveDateTime(value, timeZone, { allDay: true });
+  }
+  return getZonedDate(new Date(resolveDateTime(value, timeZone)), timeZone);
+}
+
+/**
+ * Stored start/end for an all-day event running from start through lastDay
+ */
+export function toAllDayRange(start: string, lastDay: string) {
+  if (lastDay < start) {
+    throw new Error("Invalid date-time: end is before start");
+  }
+  return { start, end: addDaysToDate(lastDay, 1) };
+}
+
+/**
+ * Last day (inclusive) of a stored all-day event
+ */
+export function getLastDay(event: { start: string; end: string }): string {
+  const lastDay = addDaysToDate(event.end, -1);
+  return lastDay < event.start ? event.start : lastDay;
+}
+
+/**
+ * Move a stored all-day event to a new first day, keeping its length
+ */
+export function moveAllDayRange(
+  event: { start: string; end: string },
+  start: string
+) {
+  const days = Math.round(
+    (new Date(event.end).getTime() - new Date(event.start).getTime()) /
+      86400000
+  );
+  return { start, end: addDaysToDate(start, Math.max(days, 1)) };
+}
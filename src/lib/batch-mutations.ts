@@ -0,0 +1,184 @@
+import { z } from "zod";
+import type { CalendarProvider } from "./calendar-provider";
+import type { EventConflict } from "./calendar-conflicts";
+import {
+  createCalendarEvent,
+  createEventSchema,
+  deleteCalendarEvent,
+  deleteEventSchema,
+  formatEventResult,
+  updateCalendarEvent,
+  updateEventSchema,
+  type AppliedMutation,
+  type MutationOptions,
+  type MutationResult,
+} from "./event-mutations";
+import { createUndoSnapshot, revertSnapshot, type UndoSnapshot } from "./undo";
+import type { MutationPreview } from "./mutation-preview";
+
+/**
+ * Several creates/updates/deletes in one request, e.g. "cancel all my meetings Friday"
+ * Operations run concurrently, so each should touch a different event
+ */
+
+// Enough to be quick without tripping Google's per-user rate limits
+const BATCH_CONCURRENCY = 4;
+
+export const batchOperationSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("create"), params: createEventSchema }),
+  z.object({ type: z.literal("update"), params: updateEventSchema }),
+  z.object({ type: z.literal("delete"), params: deleteEventSchema }),
+]);
+
+export const batchSchema = z.object({
+  operations: z.array(batchOperationSchema).min(1).max(50),
+  rollback: z.boolean().optional(), // Undo applied operations if any of them fails
+});
+
+export type BatchOperation = z.infer<typeof batchOperationSchema>;
+
+export interface BatchItemResult {
+  index: number;
+  type: BatchOperation["type"];
+  status: "applied" | "failed" | "skipped" | "rolledBack" | "previewed";
+  event?: ReturnType<typeof formatEventResult>;
+  preview?: MutationPreview; // Dry runs only
+  conflicts?: EventConflict[];
+  warnings?: string[]; // Scheduling preferences an applied operation goes against
+  error?: string;
+}
+
+function runOperation(
+  calendar: CalendarProvider,
+  userId: string,
+  operation: BatchOperation,
+  options: MutationOptions
+): Promise<MutationResult> {
+  switch (operation.type) {
+    case "create":
+      return createCalendarEvent(calendar, userId, operation.params, options);
+    case "update":
+      return updateCalendarEvent(calendar, userId, operation.params, options);
+    case "delete":
+      return deleteCalendarEvent(calendar, userId, operation.params, options);
+  }
+}
+
+/**
+ * Batches that update or delete anything need a confirmed dry run, like /api/calendar/update and /delete
+ */
+export function needsConfirmation(operations: BatchOperation[]): boolean {
+  return operations.some((operation) => operation.type !== "create");
+}
+
+function mergeSnapshots(snapshots: UndoSnapshot[]): UndoSnapshot {
+  const merged = createUndoSnapshot();
+  for (const snapshot of snapshots) {
+    merged.created.push(...snapshot.created);
+    merged.updated.push(...snapshot.updated);
+    merged.deleted.push(...snapshot.deleted);
+  }
+  return merged;
+}
+
+/**
+ * Run a batch with bounded concurrency
+ * In rollback mode the first failure stops new operations and reverts the applied ones
+ * Returns per-operation results and a snapshot of what's still applied, for undo
+ * A dry run previews every operation instead of applying it
+ */
+export async function runBatch(
+  calendar: CalendarProvider,
+  userId: string,
+  operations: BatchOperation[],
+  options: { rollback?: boolean; dryRun?: boolean } = {}
+): Promise<{ results: BatchItemResult[]; snapshot: UndoSnapshot }> {
+  const results: BatchItemResult[] = operations.map((operation, index) => ({
+    index,
+    type: operation.type,
+    status: "skipped",
+  }));
+  // Applied operations in the order they finished, so rollback can go backwards
+  const applied: { index: number; mutation: AppliedMutation }[] = [];
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (next < operations.length && !(options.rollback && failed)) {
+      const index = next++;
+      try {
+        const result = await runOperation(calendar, userId, operations[index], {
+          dryRun: options.dryRun,
+        });
+        if (result.conflicted) {
+          failed = true;
+          results[index] = {
+            ...results[index],
+            status: "failed",
+            conflicts: result.conflicts,
+            error: "Event overlaps existing events",
+          };
+          continue;
+        }
+
+        if (result.dryRun) {
+          results[index] = {
+            ...results[index],
+            status: "previewed",
+            preview: result.preview,
+          };
+          continue;
+        }
+
+        applied.push({ index, mutation: result });
+        results[index] = {
+          ...results[index],
+          status: "applied",
+          event: formatEventResult(result.event),
+          conflicts: result.conflicts.length > 0 ? result.conflicts : undefined,
+          warnings: result.warnings?.length ? result.warnings : undefined,
+        };
+      } catch (error) {
+        failed = true;
+        results[index] = {
+          ...results[index],
+          status: "failed",
+          error:
+            error instanceof Error ? error.message : "Failed to apply operation",
+        };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(BATCH_CONCURRENCY, operations.length) },
+      worker
+    )
+  );
+
+  if (options.rollback && failed) {
+    for (const { index, mutation } of applied.reverse()) {
+      try {
+        await revertSnapshot(calendar, mutation.snapshot);
+        results[index] = { ...results[index], status: "rolledBack" };
+      } catch (error) {
+        results[index] = {
+          ...results[index],
+          error: `Rollback failed: ${
+            error instanceof Error ? error.message : "unknown error"
+          }`,
+        };
+      }
+    }
+  }
+
+  return {
+    results,
+    snapshot: mergeSnapshots(
+      applied
+        .filter(({ index }) => results[index].status === "applied")
+        .map(({ mutation }) => mutation.snapshot)
+    ),
+  };
+}
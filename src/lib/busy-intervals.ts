@@ -0,0 +1,25 @@
+import type { BusyInterval } from "./calendar-provider";
+
+/**
+ * Merge overlapping or touching intervals into sorted busy blocks,
+ * matching what the Google freebusy API returns
+ */
+export function mergeBusyIntervals(intervals: BusyInterval[]): BusyInterval[] {
+  const sorted = [...intervals].sort(
+    (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
+  );
+
+  const busy: BusyInterval[] = [];
+  for (const interval of sorted) {
+    const last = busy[busy.length - 1];
+    if (last && new Date(interval.start) <= new Date(last.end)) {
+      if (new Date(interval.end) > new Date(last.end)) {
+        last.end = interval.end;
+      }
+    } else {
+      busy.push({ start: interval.start, end: interval.end });
+    }
+  }
+
+  return busy;
+}
@@ -0,0 +1,788 @@
+import { randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { client, getServerSecret } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import type {
+  CalendarEvent,
+  CalendarInfo,
+  CalendarProvider,
+} from "./calendar-provider";
+import { mergeBusyIntervals } from "./busy-intervals";
+import { paginateEvents, scoreEvent } from "./event-search";
+import {
+  applyToVEvent,
+  createVCalendar,
+  createVEvent,
+  findVEvents,
+  formatICalDate,
+  formatICalDateTime,
+  getProperty,
+  parseICalDateTime,
+  parseICalendar,
+  serializeICalendar,
+  setAttendeeResponse,
+  setProperty,
+  veventToCalendarEvent,
+  type ICalComponent,
+  type ICalProperty,
+} from "./ical";
+import { formatInstanceId, parseInstanceId } from "./rrule";
+
+/**
+ * CalDAV backed provider (Nextcloud, Radicale, iCloud, ...)
+ * Events are stored as one .ics resource per event, named after the event UID
+ */
+
+interface CalDavCredentials {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+const CALENDAR_QUERY_NS =
+  'xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav"';
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCharCode(parseInt(code, 10))
+    )
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) =>
+      String.fromCharCode(parseInt(code, 16))
+    )
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Get the inner content of every element with this local name (any namespace prefix)
+ */
+function getXmlElements(xml: string, localName: string): string[] {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>)`,
+    "g"
+  );
+  return Array.from(xml.matchAll(pattern), (match) => match[1] || "");
+}
+
+function getXmlElement(xml: string, localName: string): string | undefined {
+  return getXmlElements(xml, localName)[0];
+}
+
+function getHref(xml: string): string | undefined {
+  const href = getXmlElement(xml, "href");
+  return href ? decodeXmlEntities(href.trim()) : undefined;
+}
+
+/**
+ * Perform an authenticated CalDAV/WebDAV request
+ * notFound is the error for a 404, e.g. "Event not found"; without it a 404 fails like any other status
+ */
+async function caldavRequest(
+  credentials: CalDavCredentials,
+  url: string,
+  init: {
+    method: string;
+    headers?: Record<string, string>;
+    body?: string;
+    notFound?: string;
+  }
+): Promise<Response> {
+  const authorization = Buffer.from(
+    `${credentials.username}:${credentials.password}`
+  ).toString("base64");
+
+  const response = await fetch(url, {
+    method: init.method,
+    headers: {
+      Authorization: `Basic ${authorization}`,
+      ...(init.body ? { "Content-Type": "application/xml; charset=utf-8" } : {}),
+      ...init.headers,
+    },
+    body: init.body,
+    cache: "no-store",
+    // A redirect could send the request to a host the server URL check never saw
+    redirect: "manual",
+  });
+
+  if (response.status === 401) {
+    throw new Error("CalDAV authentication failed");
+  }
+
+  if (response.status === 404 && init.notFound) {
+    throw new Error(init.notFound);
+  }
+
+  if (response.status >= 300 && response.status < 400) {
+    const location = response.headers.get("location");
+    throw new Error(
+      `No CalDAV server at this URL${location ? `; it redirects to ${location}` : ""}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      `CalDAV ${init.method} failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return response;
+}
+
+async function propfind(
+  credentials: CalDavCredentials,
+  url: string,
+  depth: "0" | "1",
+  props: string
+): Promise<string> {
+  const response = await caldavRequest(credentials, url, {
+    method: "PROPFIND",
+    notFound: "No CalDAV server found at this URL",
+    headers: { Depth: depth },
+    body: `<?xml version="1.0" encoding="utf-8" ?><D:propfind ${CALENDAR_QUERY_NS}><D:prop>${props}</D:prop></D:propfind>`,
+  });
+  return response.text();
+}
+
+function isCalendarCollection(responseXml: string): boolean {
+  const resourceType = getXmlElement(responseXml, "resourcetype") || "";
+  return /<(?:[\w-]+:)?calendar[\s/>]/.test(resourceType);
+}
+
+function supportsEvents(responseXml: string): boolean {
+  const componentSet = getXmlElement(
+    responseXml,
+    "supported-calendar-component-set"
+  );
+  // Servers that omit the component set accept any component
+  return !componentSet || /name="VEVENT"/i.test(componentSet);
+}
+
+/**
+ * Resolve an href from the server against a base URL, refusing other hosts
+ * so the stored credentials are never sent elsewhere
+ */
+function resolveServerHref(href: string, base: string, serverUrl: string): string {
+  const url = new URL(href, base);
+  if (url.origin !== new URL(serverUrl).origin) {
+    throw new Error("CalDAV server pointed to another host");
+  }
+  return url.toString();
+}
+
+/**
+ * What kind of network an IP address is on; link-local includes cloud metadata (169.254.169.254)
+ */
+function addressScope(address: string): "public" | "private" | "link-local" {
+  if (isIP(address) === 6) {
+    const normalized = address.toLowerCase();
+    // IPv4-mapped, e.g. ::ffff:169.254.169.254, which URLs write as ::ffff:a9fe:a9fe
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return addressScope(mapped[1]);
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = mappedHex.slice(1).map((part) => parseInt(part, 16));
+      return addressScope(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    if (/^fe[89ab]/.test(normalized)) return "link-local";
+    // Loopback, unspecified and unique local addresses
+    return normalized === "::1" || normalized === "::" || /^f[cd]/.test(normalized)
+      ? "private"
+      : "public";
+  }
+
+  const [a, b] = address.split(".").map(Number);
+  if (a === 169 && b === 254) return "link-local";
+  return a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+    ? "private"
+    : "public";
+}
+
+/**
+ * Refuse server URLs the app shouldn't connect to with a user's password: plain http, and hosts
+ * on loopback, private or link-local addresses
+ * Outside production, http and local servers (e.g. Radicale on localhost) are allowed; link-local never is
+ */
+export async function checkServerUrl(serverUrl: string): Promise<void> {
+  const url = new URL(serverUrl);
+  const production = process.env.NODE_ENV === "production";
+
+  if (url.protocol !== "https:" && (production || url.protocol !== "http:")) {
+    throw new Error("CalDAV server URL must use https");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new Error("No CalDAV server found at this URL");
+  }
+
+  for (const address of addresses) {
+    const scope = addressScope(address);
+    if (scope === "link-local" || (scope === "private" && production)) {
+      throw new Error("CalDAV server URL points to a private or local address");
+    }
+  }
+}
+
+/**
+ * List the user's event calendars starting from the server URL
+ * Follows current-user-principal -> calendar-home-set -> VEVENT calendars, on the same host only
+ */
+export async function discoverCalendars(
+  credentials: CalDavCredentials
+): Promise<CalendarInfo[]> {
+  const { serverUrl } = credentials;
+
+  const rootXml = await propfind(
+    credentials,
+    serverUrl,
+    "0",
+    "<D:resourcetype/><D:displayname/><D:current-user-principal/>"
+  );
+
+  // The URL may already point at a calendar collection
+  if (isCalendarCollection(rootXml)) {
+    return [
+      {
+        id: serverUrl.endsWith("/") ? serverUrl : `${serverUrl}/`,
+        name: decodeXmlEntities(getXmlElement(rootXml, "displayname") || "Calendar"),
+        primary: true,
+      },
+    ];
+  }
+
+  const principalHref = getHref(
+    getXmlElement(rootXml, "current-user-principal") || ""
+  );
+  const principalUrl = principalHref
+    ? resolveServerHref(principalHref, serverUrl, serverUrl)
+    : serverUrl;
+
+  const principalXml = await propfind(
+    credentials,
+    principalUrl,
+    "0",
+    "<C:calendar-home-set/>"
+  );
+  const homeHref = getHref(getXmlElement(principalXml, "calendar-home-set") || "");
+  if (!homeHref) {
+    throw new Error("No CalDAV calendar home found for this account");
+  }
+  const homeUrl = resolveServerHref(homeHref, principalUrl, serverUrl);
+
+  const homeXml = await propfind(
+    credentials,
+    homeUrl,
+    "1",
+    "<D:resourcetype/><D:displayname/><C:supported-calendar-component-set/>"
+  );
+
+  const calendars: CalendarInfo[] = [];
+  for (const responseXml of getXmlElements(homeXml, "response")) {
+    const href = getHref(responseXml);
+    if (href && isCalendarCollection(responseXml) && supportsEvents(responseXml)) {
+      const url = resolveServerHref(href, homeUrl, serverUrl);
+      calendars.push({
+        id: url,
+        name: decodeXmlEntities(
+          getXmlElement(responseXml, "displayname") || getEventIdFromHref(href)
+        ),
+        primary: calendars.length === 0,
+      });
+    }
+  }
+
+  if (calendars.length === 0) {
+    throw new Error("No CalDAV calendar supporting events was found");
+  }
+
+  return calendars;
+}
+
+/**
+ * Find the user's first event calendar (used as the default at connect time)
+ */
+export async function discoverCalendarUrl(
+  credentials: CalDavCredentials
+): Promise<string> {
+  const [calendar] = await discoverCalendars(credentials);
+  return calendar.id;
+}
+
+function getEventUrl(calendarUrl: string, eventId: string): string {
+  return new URL(`${encodeURIComponent(eventId)}.ics`, calendarUrl).toString();
+}
+
+function getEventIdFromHref(href: string): string {
+  const name = href.replace(/\/$/, "").split("/").pop() || href;
+  return decodeURIComponent(name).replace(/\.ics$/i, "");
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Properties that belong to the series, not to a single overridden occurrence
+const SERIES_ONLY_PROPERTIES = ["RRULE", "RDATE", "EXDATE", "DTSTART", "DTEND", "DURATION"];
+
+/**
+ * Map a VEVENT to the app's event shape
+ * Occurrences (VEVENTs with a RECURRENCE-ID) get Google-style instance IDs
+ * The attendee whose email is selfEmail (the CalDAV login) is marked as self
+ */
+function toCalendarEvent(
+  vevent: ICalComponent,
+  resourceId: string,
+  calendarUrl: string,
+  selfEmail?: string
+): CalendarEvent {
+  const event = veventToCalendarEvent(vevent, resourceId);
+  if (selfEmail) {
+    const isSelf = (email: string) =>
+      email.toLowerCase() === selfEmail.toLowerCase();
+    event.attendees = event.attendees.map((attendee) =>
+      isSelf(attendee.email) ? { ...attendee, self: true } : attendee
+    );
+    if (event.organizer && isSelf(event.organizer.email)) {
+      event.organizer.self = true;
+    }
+  }
+
+  const recurrenceId = getProperty(vevent, "RECURRENCE-ID");
+  if (!recurrenceId) {
+    return { ...event, calendarId: calendarUrl };
+  }
+
+  const originalStart = parseICalDateTime(recurrenceId);
+  return {
+    ...event,
+    id: formatInstanceId(resourceId, originalStart),
+    calendarId: calendarUrl,
+    recurrence: undefined,
+    recurringEventId: resourceId,
+    originalStart,
+  };
+}
+
+function sameInstant(a: string, b: string) {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Write a RECURRENCE-ID or EXDATE value for an occurrence start
+ */
+function setOccurrenceProperty(
+  vevent: ICalComponent,
+  name: string,
+  originalStart: string
+) {
+  const property: ICalProperty = DATE_ONLY.test(originalStart)
+    ? { name, params: { VALUE: "DATE" }, value: formatICalDate(originalStart) }
+    : { name, params: {}, value: formatICalDateTime(originalStart) };
+
+  if (name === "EXDATE") {
+    vevent.properties.push(property);
+  } else {
+    setProperty(vevent, name, property.value, property.params);
+  }
+}
+
+/**
+ * CalDAV servers can't create video calls; existing CONFERENCE links are still read
+ */
+function assertNoVideoCall(addVideoCall?: boolean) {
+  if (addVideoCall) {
+    throw new Error("Video calls are not supported for CalDAV calendars");
+  }
+}
+
+function overlaps(event: CalendarEvent, timeMin: string, timeMax: string) {
+  return (
+    new Date(event.start).getTime() < new Date(timeMax).getTime() &&
+    new Date(event.end).getTime() > new Date(timeMin).getTime()
+  );
+}
+
+export async function createCalDavCalendarProvider(
+  userId: string
+): Promise<CalendarProvider> {
+  const credentials = await client.query(api.tokens.getCalDavCredentials, {
+    clerkUserId: userId,
+    serverSecret: getServerSecret(),
+  });
+
+  if (!credentials) {
+    throw new Error("CalDAV calendar not connected");
+  }
+
+  // Most servers (iCloud, Fastmail, Nextcloud with email logins) use the email as username
+  const selfEmail = credentials.username.includes("@")
+    ? credentials.username
+    : undefined;
+
+  /**
+   * Map a calendarId to a collection URL on the connected server
+   * Refuses other hosts so the stored credentials are never sent elsewhere
+   */
+  const getCalendarUrl = (calendarId?: string) => {
+    if (!calendarId || calendarId === "primary") {
+      return credentials.calendarUrl;
+    }
+
+    const url = new URL(calendarId, credentials.serverUrl);
+    if (url.origin !== new URL(credentials.serverUrl).origin) {
+      throw new Error("Calendar not found");
+    }
+    return url.toString().endsWith("/") ? url.toString() : `${url}/`;
+  };
+
+  /**
+   * Fetch an event resource and return its master VEVENT with the ETag
+   */
+  const fetchEventResource = async (calendarUrl: string, eventId: string) => {
+    const response = await caldavRequest(
+      credentials,
+      getEventUrl(calendarUrl, eventId),
+      { method: "GET", notFound: "Event not found" }
+    );
+    const calendars = parseICalendar(await response.text());
+    const vevents = findVEvents(calendars);
+    const master =
+      vevents.find((vevent) => !getProperty(vevent, "RECURRENCE-ID")) ||
+      vevents[0];
+
+    if (!master) {
+      throw new Error("Event not found");
+    }
+
+    return {
+      calendar: calendars[0],
+      master,
+      vevents,
+      etag: response.headers.get("ETag"),
+    };
+  };
+
+  const putEventResource = async (
+    calendarUrl: string,
+    eventId: string,
+    calendar: ICalComponent,
+    etag: string | null
+  ) => {
+    await caldavRequest(credentials, getEventUrl(calendarUrl, eventId), {
+      method: "PUT",
+      notFound: "Event not found",
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        ...(etag ? { "If-Match": etag } : {}),
+      },
+      body: serializeICalendar(calendar),
+    });
+  };
+
+  /**
+   * Find the overriding VEVENT for an occurrence, or build one from the series
+   */
+  const getOccurrence = (
+    resource: Awaited<ReturnType<typeof fetchEventResource>>,
+    resourceId: string,
+    originalStart: string,
+    calendarUrl: string
+  ) => {
+    const override = resource.vevents.find((vevent) => {
+      const recurrenceId = getProperty(vevent, "RECURRENCE-ID");
+      return recurrenceId && sameInstant(parseICalDateTime(recurrenceId), originalStart);
+    });
+    if (override) {
+      return { vevent: override, isNew: false };
+    }
+
+    const series = toCalendarEvent(resource.master, resourceId, calendarUrl);
+    if (!series.recurrence) {
+      throw new Error("Event not found");
+    }
+
+    // Date-only values parse as UTC midnight, so this works for all-day series too
+    const duration =
+      new Date(series.end).getTime() - new Date(series.start).getTime();
+    const end = new Date(new Date(originalStart).getTime() + duration).toISOString();
+
+    const vevent: ICalComponent = {
+      name: "VEVENT",
+      properties: resource.master.properties
+        .filter((property) => !SERIES_ONLY_PROPERTIES.includes(property.name))
+        .map((property) => ({ ...property, params: { ...property.params } })),
+      components: structuredClone(resource.master.components),
+    };
+    setOccurrenceProperty(vevent, "RECURRENCE-ID", originalStart);
+    applyToVEvent(vevent, {
+      start: originalStart,
+      end: DATE_ONLY.test(originalStart) ? end.slice(0, 10) : end,
+      timeZone: series.timeZone,
+    });
+
+    return { vevent, isNew: true };
+  };
+
+  const listEvents = async (
+    calendarUrl: string,
+    timeMin: string,
+    timeMax: string
+  ) => {
+    const start = formatICalDateTime(timeMin);
+    const end = formatICalDateTime(timeMax);
+
+    const response = await caldavRequest(credentials, calendarUrl, {
+      method: "REPORT",
+      notFound: "Calendar not found",
+      headers: { Depth: "1" },
+      body: `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query ${CALENDAR_QUERY_NS}>
+  <D:prop>
+    <D:getetag/>
+    <C:calendar-data><C:expand start="${start}" end="${end}"/></C:calendar-data>
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VEVENT">
+        <C:time-range start="${start}" end="${end}"/>
+      </C:comp-filter>
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`,
+    });
+
+    const xml = await response.text();
+    const events: CalendarEvent[] = [];
+
+    for (const responseXml of getXmlElements(xml, "response")) {
+      const href = getHref(responseXml);
+      const data = getXmlElement(responseXml, "calendar-data");
+      if (!href || !data) continue;
+
+      const id = getEventIdFromHref(href);
+      for (const vevent of findVEvents(parseICalendar(decodeXmlEntities(data)))) {
+        events.push(toCalendarEvent(vevent, id, calendarUrl, selfEmail));
+      }
+    }
+
+    return events
+      .filter((event) => overlaps(event, timeMin, timeMax))
+      .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+  };
+
+  return {
+    async listCalendars() {
+      const calendars = await discoverCalendars(credentials);
+      // The calendar chosen at connect time is this account's primary one
+      return calendars.map((calendar) => ({
+        ...calendar,
+        primary: calendar.id === credentials.calendarUrl,
+      }));
+    },
+
+    async listEvents({ timeMin, timeMax, maxResults, calendarId }) {
+      const events = await listEvents(getCalendarUrl(calendarId), timeMin, timeMax);
+      return maxResults ? events.slice(0, maxResults) : events;
+    },
+
+    // CalDAV text-match filters are exact substrings and poorly supported, so search locally
+    async searchEvents({
+      timeMin,
+      timeMax,
+      maxResults,
+      calendarId,
+      pageToken,
+      ...filters
+    }) {
+      const events = await listEvents(getCalendarUrl(calendarId), timeMin, timeMax);
+      return paginateEvents(
+        events.filter((event) => scoreEvent(event, filters) > 0),
+        { maxResults, pageToken }
+      );
+    },
+
+    async getEvent(eventId, calendarId) {
+      const calendarUrl = getCalendarUrl(calendarId);
+      const instance = parseInstanceId(eventId);
+
+      if (instance) {
+        const resource = await fetchEventResource(calendarUrl, instance.seriesId);
+        const { vevent } = getOccurrence(
+          resource,
+          instance.seriesId,
+          instance.originalStart,
+          calendarUrl
+        );
+        return toCalendarEvent(
+          vevent,
+          instance.seriesId,
+          calendarUrl,
+          selfEmail
+        );
+      }
+
+      const { master } = await fetchEventResource(calendarUrl, eventId);
+      return toCalendarEvent(master, eventId, calendarUrl, selfEmail);
+    },
+
+    async createEvent(input, calendarId) {
+      assertNoVideoCall(input.addVideoCall);
+      const calendarUrl = getCalendarUrl(calendarId);
+      const uid = randomUUID();
+      const vevent = applyToVEvent(createVEvent(uid), input);
+
+      await caldavRequest(credentials, getEventUrl(calendarUrl, uid), {
+        method: "PUT",
+        notFound: "Calendar not found",
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "If-None-Match": "*",
+        },
+        body: serializeICalendar(createVCalendar([vevent])),
+      });
+
+      return toCalendarEvent(vevent, uid, calendarUrl, selfEmail);
+    },
+
+    async updateEvent(eventId, patch, calendarId) {
+      assertNoVideoCall(patch.addVideoCall);
+      const calendarUrl = getCalendarUrl(calendarId);
+      const instance = parseInstanceId(eventId);
+
+      // A single occurrence is stored as an overriding VEVENT with a RECURRENCE-ID
+      if (instance) {
+        if (patch.recurrence !== undefined) {
+          throw new Error("Cannot set recurrence on a single occurrence");
+        }
+
+        const resource = await fetchEventResource(calendarUrl, instance.seriesId);
+        const { vevent, isNew } = getOccurrence(
+          resource,
+          instance.seriesId,
+          instance.originalStart,
+          calendarUrl
+        );
+        applyToVEvent(vevent, patch);
+        if (isNew) {
+          resource.calendar.components.push(vevent);
+        }
+
+        await putEventResource(
+          calendarUrl,
+          instance.seriesId,
+          resource.calendar,
+          resource.etag
+        );
+        return toCalendarEvent(
+          vevent,
+          instance.seriesId,
+          calendarUrl,
+          selfEmail
+        );
+      }
+
+      const { calendar, master, etag } = await fetchEventResource(
+        calendarUrl,
+        eventId
+      );
+      applyToVEvent(master, patch);
+      await putEventResource(calendarUrl, eventId, calendar, etag);
+
+      return toCalendarEvent(master, eventId, calendarUrl, selfEmail);
+    },
+
+    async deleteEvent(eventId, calendarId) {
+      const calendarUrl = getCalendarUrl(calendarId);
+      const instance = parseInstanceId(eventId);
+
+      // Cancel a single occurrence with an EXDATE on the series
+      if (instance) {
+        const resource = await fetchEventResource(calendarUrl, instance.seriesId);
+        const { vevent, isNew } = getOccurrence(
+          resource,
+          instance.seriesId,
+          instance.originalStart,
+          calendarUrl
+        );
+        if (!isNew) {
+          resource.calendar.components = resource.calendar.components.filter(
+            (component) => component !== vevent
+          );
+        }
+        setOccurrenceProperty(resource.master, "EXDATE", instance.originalStart);
+
+        await putEventResource(
+          calendarUrl,
+          instance.seriesId,
+          resource.calendar,
+          resource.etag
+        );
+        return;
+      }
+
+      await caldavRequest(
+        credentials,
+        getEventUrl(calendarUrl, eventId),
+        { method: "DELETE", notFound: "Event not found" }
+      );
+    },
+
+    async respondToEvent(eventId, response, calendarId) {
+      const calendarUrl = getCalendarUrl(calendarId);
+      const instance = parseInstanceId(eventId);
+      const resourceId = instance ? instance.seriesId : eventId;
+      const resource = await fetchEventResource(calendarUrl, resourceId);
+
+      // Responding to one occurrence stores it as an override, like other edits
+      let vevent = resource.master;
+      if (instance) {
+        const occurrence = getOccurrence(
+          resource,
+          instance.seriesId,
+          instance.originalStart,
+          calendarUrl
+        );
+        vevent = occurrence.vevent;
+        if (occurrence.isNew) {
+          resource.calendar.components.push(vevent);
+        }
+      }
+
+      if (!selfEmail || !setAttendeeResponse(vevent, selfEmail, response)) {
+        throw new Error("You are not invited to this event");
+      }
+
+      await putEventResource(
+        calendarUrl,
+        resourceId,
+        resource.calendar,
+        resource.etag
+      );
+      return toCalendarEvent(vevent, resourceId, calendarUrl, selfEmail);
+    },
+
+    async queryFreeBusy({ timeMin, timeMax, calendarIds = ["primary"] }) {
+      const events = await Promise.all(
+        calendarIds.map((calendarId) =>
+          listEvents(getCalendarUrl(calendarId), timeMin, timeMax)
+        )
+      );
+      return mergeBusyIntervals(
+        events.flat().filter((event) => event.transparency !== "free")
+      );
+    },
+  };
+}
@@ -1,7 +1,13 @@
 import { tool } from "@openai/agents/realtime";
 import { z } from "zod";
+import { recurrenceFields } from "./rrule";
+import { reminderFields } from "./reminders";
+import { EVENT_COLOR_IDS, EVENT_COLORS } from "./event-colors";
+import { rankEvents } from "./event-search";
 import {
+  IDEMPOTENCY_KEY_HEADER,
   VOICE_SESSION_END_EVENT,
+  VOICE_SESSION_HEADER,
   VOICE_SESSION_ID_KEY,
 } from "./voice-session-bridge";
 
@@ -10,62 +16,241 @@ import {
  * These tools allow the voice agent to interact with Google Calendar
  */
 
+/**
+ * Headers for calendar changes, tagged with the voice session so they can be undone together
+ * Passing the function call ID makes re-issued calls replay the first result instead of repeating the change
+ */
+function getRequestHeaders(callId?: string): Record<string, string> {
+  const sessionId =
+    typeof window !== "undefined"
+      ? sessionStorage.getItem(VOICE_SESSION_ID_KEY)
+      : null;
+  return {
+    "Content-Type": "application/json",
+    ...(sessionId ? { [VOICE_SESSION_HEADER]: sessionId } : {}),
+    ...(callId ? { [IDEMPOTENCY_KEY_HEADER]: `call-${callId}` } : {}),
+  };
+}
+
+/**
+ * How long to wait, the way the agent would say it
+ */
+function describeWait(seconds: number): string {
+  if (seconds < 60) return `about ${seconds} seconds`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return minutes === 1 ? "about a minute" : `about ${minutes} minutes`;
+  }
+  return "an hour or so";
+}
+
+/**
+ * Tool result for a failed request
+ * Rate limits carry a spokenResponse so the agent tells the user when to try again instead of retrying
+ */
+function toErrorResult(data: any, fallback: string) {
+  if (data?.code === "rate_limited") {
+    const retryAfterSeconds = Number(data.retryAfter) || 30;
+    return {
+      error: data.error || fallback,
+      rateLimited: true,
+      retryAfterSeconds,
+      spokenResponse: `Google Calendar is getting too many requests right now, so I couldn't do that. Let's try again in ${describeWait(retryAfterSeconds)}.`,
+    };
+  }
+  return { error: data.error || fallback };
+}
+
+/**
+ * Tool result for a dry run: nothing changed, the user has to confirm the preview first
+ */
+function toPreviewResult(data: any) {
+  const summary = data.preview
+    ? data.preview.summary
+    : (data.results || [])
+        .map((result: any) => result.preview?.summary || result.error)
+        .filter(Boolean)
+        .join("\n");
+  return {
+    success: false,
+    needsConfirmation: true,
+    preview: summary,
+    changes: data.preview?.changes,
+    warnings: data.preview?.warnings,
+    confirmationToken: data.confirmationToken,
+    note: "Nothing has changed yet. Read the preview to the user and ask them to confirm. Only after they say yes, call again with the same arguments and this confirmationToken.",
+  };
+}
+
+/**
+ * Tool result for /api/calendar/create: the event, a preview, or the conflicts to ask about
+ */
+function toCreateResult(response: Response, data: any) {
+  if (response.status === 409 && data.conflicts) {
+    return {
+      success: false,
+      needsConfirmation: true,
+      conflicts: data.conflicts,
+    };
+  }
+
+  if (!response.ok) {
+    return toErrorResult(data, "Failed to create event");
+  }
+
+  if (data.dryRun) {
+    return toPreviewResult(data);
+  }
+
+  return { success: true, event: data, warnings: data.warnings };
+}
+
+const COLOR_NAMES = EVENT_COLOR_IDS.map(
+  (id) => `${id} ${EVENT_COLORS[id].name}`
+).join(", ");
+
+/**
+ * Event fields create_event, update_event and batch_update_events share
+ */
+const eventDetailFields = {
+  location: z.string().optional(),
+  attendees: z
+    .array(z.string())
+    .optional()
+    .describe("Email addresses; look names up with resolve_contact"),
+  description: z.string().optional().describe("Notes for the event"),
+  colorId: z
+    .enum(EVENT_COLOR_IDS)
+    .optional()
+    .describe(`Event color: ${COLOR_NAMES}`),
+  visibility: z
+    .enum(["default", "public", "private"])
+    .optional()
+    .describe("private hides the details from people the calendar is shared with"),
+  transparency: z
+    .enum(["busy", "free"])
+    .optional()
+    .describe("Show as busy (default) or free; free events don't block time or conflict"),
+  reminders: reminderFields
+    .optional()
+    .describe(
+      "e.g. { overrides: [{ method: 'popup', minutes: 30 }] }; { useDefault: true } restores the calendar's defaults"
+    ),
+};
+
+export const listCalendarsTool = tool({
+  name: "list_calendars",
+  description:
+    "List the user's calendars (e.g. personal, team, family) with their IDs and which one is the default",
+  parameters: z.object({}),
+  execute: async () => {
+    const response = await fetch("/api/calendar/calendars");
+    const data = await response.json();
+
+    if (!response.ok) {
+      return toErrorResult(data, "Failed to list calendars");
+    }
+
+    return {
+      calendars: data.calendars,
+      defaultCalendarId: data.defaultCalendarId,
+    };
+  },
+});
+
 export const findEventsTool = tool({
   name: "find_events",
   description:
-    "Find calendar events by query, date range, or list upcoming events",
+    "Find calendar events by query, attendee, location, date range, or list upcoming events. Searches the default calendar unless calendarId is given. Results come best match first; if nextPageToken is returned and the event isn't there, call again with it. Occurrences of recurring events have a recurringEventId and a recurrenceDescription such as 'Weekly on Tuesday'. All-day events have allDay: true with start and end as dates, end being the last day. reminders lists popup/email overrides in minutes before, or useDefault for the calendar's default reminders. conference.joinUrl is the video call link. colorId, visibility (private events are hidden from others) and transparency (busy/free) are returned when set. attendees have email, displayName, responseStatus (needsAction, accepted, declined, tentative), optional, organizer and self (the user); organizer is who sent the invite",
   parameters: z.object({
-    query: z.string().optional(),
+    query: z
+      .string()
+      .optional()
+      .describe("Words to search for in titles, notes, locations and attendees"),
+    attendee: z
+      .string()
+      .optional()
+      .describe("Only events with this person (name or email)"),
+    location: z.string().optional().describe("Only events at this place"),
     start: z.string().optional(),
-    end: z.string().optional(),
+    end: z
+      .string()
+      .optional()
+      .describe("Defaults to a week ahead, or a year ahead when searching"),
     max: z.number().optional(),
+    pageToken: z
+      .string()
+      .optional()
+      .describe("nextPageToken from a previous call, to get more results"),
+    calendarId: z.string().optional(),
   }),
-  execute: async ({ query, start, end, max }) => {
+  execute: async ({
+    query,
+    attendee,
+    location,
+    start,
+    end,
+    max,
+    pageToken,
+    calendarId,
+  }) => {
     const params = new URLSearchParams();
+    if (query) params.set("q", query);
+    if (attendee) params.set("attendee", attendee);
+    if (location) params.set("location", location);
     if (start) params.set("start", start);
     if (end) params.set("end", end);
     if (max) params.set("max", max.toString());
+    if (pageToken) params.set("pageToken", pageToken);
+    if (calendarId) params.set("calendarId", calendarId);
 
     const response = await fetch(`/api/calendar/list?${params.toString()}`);
     const data = await response.json();
 
     if (!response.ok) {
-      return { error: data.error || "Failed to find events" };
+      return toErrorResult(data, "Failed to find events");
     }
 
-    // Filter by query if provided
-    let events = data.events || [];
-    if (query) {
-      const lowerQuery = query.toLowerCase();
-      events = events.filter(
-        (e: any) =>
-          e.title.toLowerCase().includes(lowerQuery) ||
-          e.description?.toLowerCase().includes(lowerQuery)
-      );
-    }
+    // Best matches first, e.g. a fuzzy hit on an attendee's name or the location
+    const events = rankEvents(data.events || [], { query, attendee, location });
 
-    return { events };
+    return { events, nextPageToken: data.nextPageToken };
   },
 });
 
-export const createEventTool = tool({
-  name: "create_event",
-  description: "Create a new calendar event",
+export const findFreeSlotsTool = tool({
+  name: "find_free_slots",
+  description:
+    "Find free time slots for a meeting of a given duration within a window (e.g. 'when am I free Thursday afternoon?'). Returns ranked candidate slots, best first. Offer a few to the user, then book the chosen one with create_event.",
   parameters: z.object({
-    title: z.string(),
-    start: z.string(),
-    end: z.string(),
-    location: z.string().optional(),
-    attendees: z.array(z.string()).optional(),
-    recurrence: z
+    start: z.string().describe("Window start, ISO 8601 with offset"),
+    end: z.string().describe("Window end, ISO 8601 with offset"),
+    durationMinutes: z
+      .number()
+      .optional()
+      .describe("Defaults to the user's meeting length"),
+    workingHours: z
       .object({
-        freq: z.enum(["DAILY", "WEEKLY", "MONTHLY"]),
-        count: z.number().optional(),
+        start: z.string().describe("HH:mm, e.g. 09:00"),
+        end: z.string().describe("HH:mm, e.g. 17:00"),
+        days: z
+          .array(z.number())
+          .optional()
+          .describe("Weekdays to allow, 0 = Sunday; defaults to Monday-Friday"),
       })
-      .optional(),
+      .optional()
+      .describe("Defaults to the user's working hours"),
+    minGapMinutes: z
+      .number()
+      .optional()
+      .describe(
+        "Minimum free minutes to keep before and after other meetings; defaults to the user's buffer"
+      ),
+    maxResults: z.number().optional(),
   }),
   execute: async (params) => {
-    const response = await fetch("/api/calendar/create", {
+    // Working hours are interpreted in the user's saved timezone
+    const response = await fetch("/api/calendar/availability", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(params),
@@ -74,67 +259,464 @@ export const createEventTool = tool({
     const data = await response.json();
 
     if (!response.ok) {
-      return { error: data.error || "Failed to create event" };
+      return toErrorResult(data, "Failed to find free slots");
     }
 
-    return { success: true, event: data };
+    return { slots: data.slots };
+  },
+});
+
+export const resolveDateTool = tool({
+  name: "resolve_date",
+  description:
+    "Work out the exact dates and times for what the user said ('next Tuesday at 3', 'the 21st', 'in two weeks', 'tomorrow morning'), in the user's timezone. Returns start and end (dates only when allDay), a confidence from 0 to 1, and notes on any assumptions. Use it before create_event, update_event or find_events whenever the user gives a relative or partial date.",
+  parameters: z.object({
+    text: z.string().describe("Just the date/time part of what the user said"),
+    durationMinutes: z
+      .number()
+      .optional()
+      .describe(
+        "Length to assume when the phrase has no end; defaults to the user's meeting length"
+      ),
+  }),
+  execute: async (params) => {
+    const response = await fetch("/api/calendar/resolve-date", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return toErrorResult(data, "Failed to resolve date");
+    }
+
+    return data;
+  },
+});
+
+export const resolveContactTool = tool({
+  name: "resolve_contact",
+  description:
+    "Look up the email address for a person the user names ('lunch with Alex'), from their contacts and the people in their past events. If match is set, use match.email. If needsDisambiguation is true, ask the question and use the candidate they pick. If there are no candidates, ask the user for the email address; never make one up.",
+  parameters: z.object({
+    name: z.string().describe("Name or nickname as the user said it"),
+  }),
+  execute: async (params) => {
+    const response = await fetch("/api/calendar/contacts/resolve", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return toErrorResult(data, "Failed to look up contact");
+    }
+
+    return data;
+  },
+});
+
+export const createEventTool = tool({
+  name: "create_event",
+  description:
+    "Create a new calendar event. Uses the default calendar unless calendarId is given. For all-day or multi-day events (birthdays, holidays, trips) set allDay and give start and end as dates (YYYY-MM-DD), where end is the last day. The first call only returns a preview and a confirmationToken; read the preview to the user, and once they confirm, call again with the same arguments and the confirmationToken to create it. If the result contains conflicts, nothing was created: tell the user which events overlap (title and time) and ask whether to book anyway. Only after they confirm, call again with allowConflicts: true.",
+  parameters: z.object({
+    calendarId: z.string().optional(),
+    title: z.string(),
+    start: z
+      .string()
+      .describe(
+        "Local time like 2026-10-20T14:00, ISO 8601 with offset, or a date when allDay"
+      ),
+    end: z
+      .string()
+      .optional()
+      .describe(
+        "Local time like 2026-10-20T15:00 (defaults to the user's meeting length), or the last day when allDay (defaults to start)"
+      ),
+    allDay: z.boolean().optional(),
+    timeZone: z
+      .string()
+      .optional()
+      .describe("IANA zone for local times; defaults to the user's timezone"),
+    ...eventDetailFields,
+    addVideoCall: z
+      .boolean()
+      .optional()
+      .describe("Attach a Google Meet video call"),
+    recurrence: recurrenceFields.optional(),
+    allowConflicts: z.boolean().optional(),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe("Token from the preview, once the user has confirmed"),
+  }),
+  execute: async ({ confirmationToken, ...params }, _context, details) => {
+    // Without a token this only previews; the event is created once the user confirms
+    const response = await fetch("/api/calendar/create", {
+      method: "POST",
+      headers: getRequestHeaders(details?.toolCall.callId),
+      body: JSON.stringify({
+        ...params,
+        ...(confirmationToken ? { confirmationToken } : { dryRun: true }),
+      }),
+    });
+
+    return toCreateResult(response, await response.json());
+  },
+});
+
+export const listTemplatesTool = tool({
+  name: "list_templates",
+  description:
+    "List the user's event templates (e.g. 'standup', '1:1 with Sam', 'focus block') with their title, duration, usual start time, attendees and location.",
+  parameters: z.object({}),
+  execute: async () => {
+    const response = await fetch("/api/calendar/templates");
+    const data = await response.json();
+
+    if (!response.ok) {
+      return toErrorResult(data, "Failed to list templates");
+    }
+
+    return { templates: data.templates };
+  },
+});
+
+export const createFromTemplateTool = tool({
+  name: "create_from_template",
+  description:
+    "Create an event from one of the user's templates ('schedule my usual standup tomorrow'). Every field comes from the template; give start as a date to use the template's usual start time, or as a local time to override it. Previews, confirmation and conflicts work as in create_event. If no single template matches, the result lists the user's templates; ask which one they mean.",
+  parameters: z.object({
+    template: z
+      .string()
+      .describe("Template name as the user said it, e.g. 'standup', or its id"),
+    start: z
+      .string()
+      .describe(
+        "A date (YYYY-MM-DD) for the template's usual time, or a local time like 2026-10-20T09:30"
+      ),
+    end: z
+      .string()
+      .optional()
+      .describe("Only to override the template's duration"),
+    title: z.string().optional(),
+    location: z.string().optional(),
+    description: z.string().optional(),
+    attendees: z
+      .array(z.string())
+      .optional()
+      .describe("Extra people to invite on top of the template's"),
+    calendarId: z.string().optional(),
+    allowConflicts: z.boolean().optional(),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe("Token from the preview, once the user has confirmed"),
+  }),
+  execute: async (params, _context, details) => {
+    const { allowConflicts, confirmationToken, ...expand } = params;
+
+    const expandResponse = await fetch("/api/calendar/templates/expand", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(expand),
+    });
+    const expanded = await expandResponse.json();
+
+    if (!expandResponse.ok) {
+      return {
+        ...toErrorResult(expanded, "Failed to use template"),
+        ...(expanded.templates ? { templates: expanded.templates } : {}),
+      };
+    }
+
+    const response = await fetch("/api/calendar/create", {
+      method: "POST",
+      headers: getRequestHeaders(details?.toolCall.callId),
+      body: JSON.stringify({
+        ...expanded.event,
+        allowConflicts,
+        ...(confirmationToken ? { confirmationToken } : { dryRun: true }),
+      }),
+    });
+
+    return toCreateResult(response, await response.json());
   },
 });
 
 export const updateEventTool = tool({
   name: "update_event",
-  description: "Update an existing calendar event",
+  description:
+    "Update an existing calendar event. Pass the calendarId returned by find_events. For an occurrence of a recurring event (it has a recurringEventId), ask whether the change is for just this one, this and following, or all events, and pass scope accordingly. The first call only returns a preview and a confirmationToken; read the preview to the user, and once they confirm, call again with the same arguments and the confirmationToken to apply it. If the result contains conflicts, nothing was changed: tell the user which events overlap (title and time) and ask whether to proceed. Only after they confirm, call again with allowConflicts: true.",
   parameters: z.object({
     eventId: z.string(),
+    calendarId: z.string().optional(),
     title: z.string().optional(),
-    start: z.string().optional(),
-    end: z.string().optional(),
-    location: z.string().optional(),
-    attendees: z.array(z.string()).optional(),
-    recurrence: z
-      .object({
-        freq: z.enum(["DAILY", "WEEKLY", "MONTHLY"]),
-        count: z.number().optional(),
-      })
-      .optional(),
+    start: z
+      .string()
+      .optional()
+      .describe(
+        "Local time like 2026-10-20T14:00, ISO 8601 with offset, or a date for all-day events"
+      ),
+    end: z
+      .string()
+      .optional()
+      .describe("For all-day events the last day (YYYY-MM-DD)"),
+    allDay: z
+      .boolean()
+      .optional()
+      .describe("true makes the event all-day, false makes it timed (needs start and end)"),
+    timeZone: z
+      .string()
+      .optional()
+      .describe("IANA zone for local times; defaults to the user's timezone"),
+    ...eventDetailFields,
+    addVideoCall: z
+      .boolean()
+      .optional()
+      .describe("true adds a Google Meet video call, false removes it"),
+    recurrence: recurrenceFields.optional(),
+    scope: z
+      .enum(["this", "following", "all"])
+      .optional()
+      .describe("Which occurrences of a recurring event to change; defaults to this"),
+    allowConflicts: z.boolean().optional(),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe("Token from the preview, once the user has confirmed"),
   }),
-  execute: async (params) => {
+  execute: async ({ confirmationToken, ...params }, _context, details) => {
+    // Without a token this only previews; the server won't change anything without one
     const response = await fetch("/api/calendar/update", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(params),
+      headers: getRequestHeaders(details?.toolCall.callId),
+      body: JSON.stringify({
+        ...params,
+        ...(confirmationToken ? { confirmationToken } : { dryRun: true }),
+      }),
     });
 
     const data = await response.json();
 
+    if (response.status === 409 && data.conflicts) {
+      return {
+        success: false,
+        needsConfirmation: true,
+        conflicts: data.conflicts,
+      };
+    }
+
     if (!response.ok) {
-      return { error: data.error || "Failed to update event" };
+      return toErrorResult(data, "Failed to update event");
     }
 
-    return { success: true, event: data };
+    if (data.dryRun) {
+      return toPreviewResult(data);
+    }
+
+    return { success: true, event: data, warnings: data.warnings };
   },
 });
 
 export const deleteEventTool = tool({
   name: "delete_event",
-  description: "Delete a calendar event by ID",
+  description:
+    "Delete a calendar event by ID. Pass the calendarId returned by find_events. For an occurrence of a recurring event, ask whether to delete just this one, this and following, or all events, and pass scope accordingly. The first call only returns a preview and a confirmationToken; read the preview to the user, and once they confirm, call again with the same arguments and the confirmationToken to delete",
   parameters: z.object({
     eventId: z.string(),
+    calendarId: z.string().optional(),
+    scope: z
+      .enum(["this", "following", "all"])
+      .optional()
+      .describe("Which occurrences of a recurring event to delete; defaults to this"),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe("Token from the preview, once the user has confirmed"),
   }),
-  execute: async ({ eventId }) => {
+  execute: async (
+    { eventId, calendarId, scope, confirmationToken },
+    _context,
+    details
+  ) => {
+    // Without a token this only previews; the server won't delete without one
     const response = await fetch("/api/calendar/delete", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ eventId }),
+      headers: getRequestHeaders(details?.toolCall.callId),
+      body: JSON.stringify({
+        eventId,
+        calendarId,
+        scope,
+        ...(confirmationToken ? { confirmationToken } : { dryRun: true }),
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return toErrorResult(data, "Failed to delete event");
+    }
+
+    if (data.dryRun) {
+      return toPreviewResult(data);
+    }
+
+    return { success: true, actionId: data.actionId };
+  },
+});
+
+export const batchUpdateEventsTool = tool({
+  name: "batch_update_events",
+  description:
+    "Apply several changes at once, e.g. 'cancel all my meetings Friday' or 'move all of tomorrow's 1:1s an hour later'. Find the events with find_events first, then send one operation per event. Each operation takes the same fields as create_event, update_event or delete_event. The first call only returns a preview and a confirmationToken without changing anything; read it to the user, and once they confirm, call again with the same operations and the confirmationToken. Set rollback to undo everything if any operation fails; otherwise report which ones failed.",
+  parameters: z.object({
+    operations: z.array(
+      z.object({
+        type: z.enum(["create", "update", "delete"]),
+        eventId: z.string().optional().describe("Required for update and delete"),
+        calendarId: z.string().optional(),
+        title: z.string().optional().describe("Required for create"),
+        start: z
+          .string()
+          .optional()
+          .describe("Local time like 2026-10-20T14:00, or a date when allDay"),
+        end: z.string().optional(),
+        allDay: z.boolean().optional(),
+        timeZone: z.string().optional(),
+        ...eventDetailFields,
+        addVideoCall: z
+          .boolean()
+          .optional()
+          .describe("true adds a Google Meet video call, false removes it"),
+        recurrence: recurrenceFields.optional(),
+        scope: z
+          .enum(["this", "following", "all"])
+          .optional()
+          .describe("For occurrences of a recurring event; defaults to this"),
+        allowConflicts: z.boolean().optional(),
+      })
+    ),
+    rollback: z
+      .boolean()
+      .optional()
+      .describe("Undo the operations already applied if any of them fails"),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe("Token from the preview, once the user has confirmed"),
+  }),
+  execute: async ({ operations, rollback, confirmationToken }) => {
+    const response = await fetch("/api/calendar/batch", {
+      method: "POST",
+      headers: getRequestHeaders(),
+      body: JSON.stringify({
+        operations: operations.map(({ type, ...params }) => ({ type, params })),
+        rollback,
+        // Always previewed first; the server refuses updates and deletes without a token
+        ...(confirmationToken ? { confirmationToken } : { dryRun: true }),
+      }),
     });
 
     const data = await response.json();
 
     if (!response.ok) {
-      return { error: data.error || "Failed to delete event" };
+      return toErrorResult(data, "Failed to apply changes");
+    }
+
+    if (data.dryRun) {
+      return toPreviewResult(data);
+    }
+
+    return {
+      success: data.success,
+      applied: data.applied,
+      failed: data.failed,
+      rolledBack: data.rolledBack,
+      results: data.results,
+    };
+  },
+});
+
+export const respondToInvitationTool = tool({
+  name: "respond_to_invitation",
+  description:
+    "Accept, decline or tentatively accept an invitation the user received (an event where the user's attendee entry has self: true and someone else is the organizer). Pass the eventId and calendarId returned by find_events. Put anything the user wants to tell the organizer, like a reason for declining, in comment.",
+  parameters: z.object({
+    eventId: z.string(),
+    calendarId: z.string().optional(),
+    response: z.enum(["accepted", "declined", "tentative"]),
+    comment: z
+      .string()
+      .optional()
+      .describe("Note for the organizer, e.g. \"I'm travelling that day\""),
+  }),
+  execute: async (params) => {
+    const response = await fetch("/api/calendar/respond", {
+      method: "POST",
+      headers: getRequestHeaders(),
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return toErrorResult(data, "Failed to respond to invitation");
+    }
+
+    return { success: true, event: data };
+  },
+});
+
+export const undoLastActionTool = tool({
+  name: "undo_last_action",
+  description:
+    "Undo the most recent calendar change (re-creates a deleted event, restores an updated one, removes a created one). Set entireSession to revert every change made in this voice session. Use this when the user says 'undo that', 'I didn't mean that' or 'put it back'. The first call only returns a preview and a confirmationToken; read the preview to the user, and once they confirm, call again with the same arguments and the confirmationToken to undo.",
+  parameters: z.object({
+    entireSession: z
+      .boolean()
+      .optional()
+      .describe("Revert everything changed during this voice session"),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe("Token from the preview, once the user has confirmed"),
+  }),
+  execute: async ({ entireSession, confirmationToken }) => {
+    const sessionId =
+      entireSession && typeof window !== "undefined"
+        ? sessionStorage.getItem(VOICE_SESSION_ID_KEY)
+        : null;
+    if (entireSession && !sessionId) {
+      return { error: "No active voice session found" };
+    }
+
+    const response = await fetch("/api/calendar/undo", {
+      method: "POST",
+      headers: getRequestHeaders(),
+      body: JSON.stringify({
+        sessionId: sessionId || undefined,
+        // Without a token this only previews; the server won't revert anything without one
+        ...(confirmationToken ? { confirmationToken } : { dryRun: true }),
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return toErrorResult(data, "Failed to undo");
+    }
+
+    if (data.dryRun) {
+      return toPreviewResult(data);
     }
 
-    return { success: true };
+    return { success: true, undone: data.undone };
   },
 });
 
@@ -0,0 +1,51 @@
+import type { CalendarProvider } from "./calendar-provider";
+
+export interface EventConflict {
+  id: string;
+  title: string;
+  start: string;
+  end: string;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Find events that overlap the given time range in a calendar
+ * All-day events (holidays, OOO markers) are informational and don't count as conflicts,
+ * and neither do events marked as free
+ */
+export async function findConflicts(
+  calendar: CalendarProvider,
+  options: {
+    start: string;
+    end: string;
+    calendarId?: string;
+    excludeEventId?: string;
+  }
+): Promise<EventConflict[]> {
+  const events = await calendar.listEvents({
+    timeMin: options.start,
+    timeMax: options.end,
+    calendarId: options.calendarId,
+    maxResults: 50,
+  });
+
+  const start = new Date(options.start).getTime();
+  const end = new Date(options.end).getTime();
+
+  return events
+    .filter((event) => event.id !== options.excludeEventId)
+    .filter((event) => !DATE_ONLY.test(event.start))
+    .filter((event) => event.transparency !== "free")
+    .filter(
+      (event) =>
+        new Date(event.start).getTime() < end &&
+        new Date(event.end).getTime() > start
+    )
+    .map((event) => ({
+      id: event.id,
+      title: event.title,
+      start: event.start,
+      end: event.end,
+    }));
+}
@@ -0,0 +1,289 @@
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import type {
+  CalendarEvent,
+  CalendarProvider,
+  EventPage,
+  SearchEventsOptions,
+} from "./calendar-provider";
+import { paginateEvents, scoreEvent } from "./event-search";
+
+/**
+ * Convex mirror of a user's events, kept current with the provider's sync tokens
+ * A full sync runs on connect, later reads sync incrementally before serving from the mirror
+ */
+
+// How far back and ahead a full sync goes; searches look a year ahead,
+// so the horizon covers them for a month before a new full sync is needed
+const MIRROR_LOOKBACK_DAYS = 30;
+const MIRROR_HORIZON_DAYS = 400;
+
+// Changes made outside the app show up once the mirror is this old
+const MAX_MIRROR_AGE_MS = 60 * 1000;
+
+// Don't start another background full sync while one is probably still running
+const FULL_SYNC_RETRY_MS = 5 * 60 * 1000;
+
+// Mirror page tokens are offsets into the filtered events; the prefix keeps them apart
+// from the provider's opaque tokens, so neither path is handed the other's
+const MIRROR_PAGE_TOKEN_PREFIX = "mirror:";
+
+/**
+ * Whether a page token came from the mirror rather than the provider
+ */
+export function isMirrorPageToken(pageToken?: string): boolean {
+  return !!pageToken?.startsWith(MIRROR_PAGE_TOKEN_PREFIX);
+}
+
+/**
+ * A page served from the mirror, with the rules of the series its instances belong to
+ */
+export type MirroredEventPage = EventPage & {
+  seriesRecurrence: Record<string, string[] | null>;
+};
+
+function toMirroredEvent(event: CalendarEvent) {
+  return {
+    eventId: event.id,
+    startTime: new Date(event.start).getTime(),
+    endTime: new Date(event.end).getTime(),
+    event,
+  };
+}
+
+/**
+ * Make the next read sync first, e.g. after the app changed an event
+ * Never throws: a failure only means the read may be up to a minute behind
+ */
+export async function markMirrorStale(userId: string): Promise<void> {
+  try {
+    await client.mutation(api.calendarEvents.markMirrorStale, {
+      clerkUserId: userId,
+    });
+  } catch (error) {
+    console.error("Failed to mark calendar mirror stale:", error);
+  }
+}
+
+/**
+ * Delete a user's mirrored events and sync states, e.g. on disconnect
+ */
+export async function clearCalendarMirror(userId: string): Promise<void> {
+  let done = false;
+  while (!done) {
+    ({ done } = await client.mutation(api.calendarEvents.clearMirroredEvents, {
+      clerkUserId: userId,
+    }));
+  }
+}
+
+/**
+ * Bring the mirror of one calendar up to date
+ * Incremental when there's a sync token; full when asked, on first sync, or when the token expired
+ */
+export async function syncCalendarMirror(
+  userId: string,
+  calendar: CalendarProvider,
+  calendarId = "primary",
+  options: { full?: boolean } = {}
+): Promise<void> {
+  if (!calendar.syncEvents) {
+    return;
+  }
+
+  const state = await client.query(api.calendarEvents.getSyncState, {
+    clerkUserId: userId,
+    calendarId,
+  });
+
+  let syncToken = options.full ? undefined : state?.syncToken;
+  let coversFrom = state?.coversFrom;
+  let coversUntil = state?.coversUntil;
+
+  if (!syncToken) {
+    // Mark the mirror incomplete until the full sync finishes, then start over
+    coversFrom = Date.now() - MIRROR_LOOKBACK_DAYS * 24 * 60 * 60 * 1000;
+    coversUntil = Date.now() + MIRROR_HORIZON_DAYS * 24 * 60 * 60 * 1000;
+    await client.mutation(api.calendarEvents.saveSyncState, {
+      clerkUserId: userId,
+      calendarId,
+      stale: true,
+      coversFrom,
+      coversUntil,
+    });
+
+    let done = false;
+    while (!done) {
+      ({ done } = await client.mutation(
+        api.calendarEvents.clearMirroredEvents,
+        { clerkUserId: userId, calendarId }
+      ));
+    }
+  }
+
+  let pageToken: string | undefined;
+  let nextSyncToken: string | undefined;
+  // Series looked up during this sync; instances don't carry the rule, so lists read it from here
+  const seenSeries = new Set<string>();
+
+  do {
+    let page;
+    try {
+      page = await calendar.syncEvents({
+        calendarId,
+        syncToken,
+        timeMin: new Date(coversFrom || Date.now()).toISOString(),
+        timeMax: coversUntil ? new Date(coversUntil).toISOString() : undefined,
+        pageToken,
+      });
+    } catch (error) {
+      // Google expires sync tokens now and then; the only way back is a full sync
+      if (
+        syncToken &&
+        error instanceof Error &&
+        error.message === "SYNC_TOKEN_EXPIRED"
+      ) {
+        return syncCalendarMirror(userId, calendar, calendarId, {
+          full: true,
+        });
+      }
+      throw error;
+    }
+
+    const seriesIds = Array.from(
+      new Set(
+        page.events
+          .map((event) => event.recurringEventId)
+          .filter((id): id is string => !!id && !seenSeries.has(id))
+      )
+    );
+    const series: { seriesId: string; recurrence?: string[] }[] = [];
+    for (const seriesId of seriesIds) {
+      seenSeries.add(seriesId);
+      try {
+        const master = await calendar.getEvent(seriesId, calendarId);
+        series.push({ seriesId, recurrence: master.recurrence });
+      } catch (err) {
+        console.error("Failed to load recurring series:", err);
+      }
+    }
+
+    await client.mutation(api.calendarEvents.applySyncPage, {
+      clerkUserId: userId,
+      calendarId,
+      upserts: page.events.map(toMirroredEvent),
+      series,
+      deletes: page.deletedIds,
+    });
+
+    pageToken = page.nextPageToken;
+    nextSyncToken = page.nextSyncToken;
+  } while (pageToken);
+
+  await client.mutation(api.calendarEvents.saveSyncState, {
+    clerkUserId: userId,
+    calendarId,
+    syncToken: nextSyncToken || syncToken,
+    stale: false,
+    coversFrom,
+    coversUntil,
+  });
+}
+
+/**
+ * Search events from the mirror, syncing first if it may be out of date
+ * Returns null when the mirror can't answer (no sync support, not synced yet,
+ * the range goes beyond it, or the page token is the provider's);
+ * a full sync is then scheduled in the background when that would help
+ */
+export async function searchMirroredEvents(
+  userId: string,
+  calendar: CalendarProvider,
+  options: SearchEventsOptions
+): Promise<MirroredEventPage | null> {
+  if (
+    !calendar.syncEvents ||
+    (options.pageToken && !isMirrorPageToken(options.pageToken))
+  ) {
+    return null;
+  }
+
+  const calendarId = options.calendarId || "primary";
+  const state = await client.query(api.calendarEvents.getSyncState, {
+    clerkUserId: userId,
+    calendarId,
+  });
+
+  // Runs from Convex rather than after this response, which may be the end of the process
+  const scheduleFullSync = () =>
+    client.mutation(api.calendarEvents.scheduleFullSync, {
+      clerkUserId: userId,
+      calendarId,
+    });
+
+  if (!state?.syncToken) {
+    if (!state || Date.now() - state.lastSyncedAt > FULL_SYNC_RETRY_MS) {
+      await scheduleFullSync();
+    }
+    return null;
+  }
+
+  const timeMin = new Date(options.timeMin).getTime();
+  const timeMax = new Date(options.timeMax).getTime();
+  if (state.coversFrom !== undefined && timeMin < state.coversFrom) {
+    return null;
+  }
+  if (state.coversUntil !== undefined && timeMax > state.coversUntil) {
+    // The horizon is relative to the last full sync; move it forward
+    await scheduleFullSync();
+    return null;
+  }
+
+  if (state.stale || Date.now() - state.lastSyncedAt > MAX_MIRROR_AGE_MS) {
+    try {
+      await syncCalendarMirror(userId, calendar, calendarId);
+    } catch (error) {
+      // Serve what we have rather than fail the read
+      console.error("Failed to sync calendar mirror:", error);
+    }
+  }
+
+  const mirrored: CalendarEvent[] = await client.query(
+    api.calendarEvents.listMirroredEvents,
+    { clerkUserId: userId, calendarId, timeMin, timeMax }
+  );
+
+  const events = mirrored
+    .filter((event) => scoreEvent(event, options) > 0)
+    .sort(
+      (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
+    );
+
+  const page = paginateEvents(events, {
+    maxResults: options.maxResults,
+    pageToken: options.pageToken?.slice(MIRROR_PAGE_TOKEN_PREFIX.length),
+  });
+  const seriesIds = Array.from(
+    new Set(
+      page.events
+        .map((event) => event.recurringEventId)
+        .filter((id): id is string => !!id)
+    )
+  );
+  const seriesRecurrence =
+    seriesIds.length > 0
+      ? await client.query(api.calendarEvents.getMirroredSeries, {
+          clerkUserId: userId,
+          calendarId,
+          seriesIds,
+        })
+      : {};
+
+  return {
+    events: page.events,
+    nextPageToken: page.nextPageToken
+      ? `${MIRROR_PAGE_TOKEN_PREFIX}${page.nextPageToken}`
+      : undefined,
+    seriesRecurrence,
+  };
+}
@@ -0,0 +1,279 @@
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { createCalDavCalendarProvider } from "./caldav-calendar-provider";
+import { createGoogleCalendarProvider } from "./google-calendar-provider";
+import { createMemoryCalendarProvider } from "./memory-calendar-provider";
+
+/**
+ * Backend-agnostic calendar layer used by the calendar API routes
+ * Each provider maps its own event format to the shape returned by /api/calendar/list
+ */
+
+export interface EventReminder {
+  method: "popup" | "email";
+  minutes: number; // Before the event starts
+}
+
+export interface EventReminders {
+  useDefault: boolean; // Calendar's default reminders; overrides are ignored when true
+  overrides: EventReminder[];
+}
+
+export interface EventConference {
+  id: string;
+  joinUrl?: string; // Missing while the conference is still being created
+  pending?: boolean;
+}
+
+export type AttendeeResponseStatus =
+  | "needsAction"
+  | "accepted"
+  | "declined"
+  | "tentative";
+
+export interface EventAttendee {
+  email: string;
+  displayName?: string;
+  responseStatus: AttendeeResponseStatus;
+  optional?: boolean;
+  organizer?: boolean;
+  self?: boolean; // The connected account
+  comment?: string; // Note sent with the response
+}
+
+export interface InvitationResponse {
+  status: Exclude<AttendeeResponseStatus, "needsAction">;
+  comment?: string;
+}
+
+export type EventVisibility = "default" | "public" | "private" | "confidential";
+
+export type EventTransparency = "busy" | "free"; // free events don't block time
+
+export interface CalendarEvent {
+  id: string;
+  calendarId?: string;
+  title: string;
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+  timeZone?: string; // IANA zone the event was scheduled in
+  location?: string;
+  attendees: EventAttendee[];
+  organizer?: { email: string; displayName?: string; self?: boolean };
+  description?: string;
+  colorId?: string; // Google event color, "1"-"11"
+  visibility?: EventVisibility;
+  transparency?: EventTransparency;
+  reminders?: EventReminders;
+  conference?: EventConference; // Video call, e.g. Google Meet
+  recurrence?: string[]; // RRULE lines, e.g. "RRULE:FREQ=WEEKLY;COUNT=5"
+  recurringEventId?: string; // Set on instances of a recurring series
+  originalStart?: string; // Instance start as scheduled by the series rule
+}
+
+export interface CalendarEventInput {
+  title: string;
+  start: string;
+  end: string;
+  timeZone?: string; // Zone to store the event in, defaults to UTC
+  location?: string;
+  attendees?: string[]; // Emails; people already invited keep their response
+  description?: string;
+  colorId?: string;
+  visibility?: EventVisibility;
+  transparency?: EventTransparency;
+  reminders?: EventReminders;
+  addVideoCall?: boolean; // true requests a video call, false removes it
+  recurrence?: string[];
+}
+
+export type CalendarEventPatch = Partial<CalendarEventInput>;
+
+export interface CalendarInfo {
+  id: string;
+  name: string;
+  primary: boolean;
+  color?: string;
+  readOnly?: boolean;
+}
+
+export interface ListEventsOptions {
+  timeMin: string;
+  timeMax: string;
+  maxResults?: number;
+  calendarId?: string;
+}
+
+export interface SearchEventsOptions extends ListEventsOptions {
+  query?: string; // Free text: title, description, location, attendees
+  attendee?: string; // Name or email
+  location?: string;
+  pageToken?: string; // nextPageToken from the previous page
+}
+
+export interface EventPage {
+  events: CalendarEvent[];
+  nextPageToken?: string;
+}
+
+export interface SyncEventsOptions {
+  calendarId?: string;
+  syncToken?: string; // From the last sync; omit for a full sync
+  timeMin?: string; // Full syncs only: skip events ending before this
+  timeMax?: string; // Full syncs only: skip events starting after this
+  pageToken?: string;
+}
+
+export interface SyncPage {
+  events: CalendarEvent[]; // Created or changed since the sync token
+  deletedIds: string[];
+  nextPageToken?: string; // More pages to fetch before the sync completes
+  nextSyncToken?: string; // Set on the last page
+}
+
+export interface WatchEventsOptions {
+  calendarId?: string;
+  channelId: string; // Unique per channel, chosen by us
+  token: string; // Echoed back with every notification
+  address: string; // HTTPS URL notifications are posted to
+}
+
+export interface WatchChannel {
+  channelId: string;
+  resourceId: string;
+  expiration: number; // Unix timestamp
+}
+
+export interface FreeBusyOptions {
+  timeMin: string;
+  timeMax: string;
+  calendarIds?: string[];
+}
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+/**
+ * Every event operation takes an optional calendarId;
+ * when omitted the provider uses the account's primary calendar
+ * listEvents expands recurring series into instances; instance IDs can be
+ * passed to getEvent/updateEvent/deleteEvent to touch a single occurrence
+ */
+export interface CalendarProvider {
+  listCalendars(): Promise<CalendarInfo[]>;
+  listEvents(options: ListEventsOptions): Promise<CalendarEvent[]>;
+  // One page of events matching the search, in start time order
+  searchEvents(options: SearchEventsOptions): Promise<EventPage>;
+  getEvent(eventId: string, calendarId?: string): Promise<CalendarEvent>;
+  createEvent(
+    input: CalendarEventInput,
+    calendarId?: string
+  ): Promise<CalendarEvent>;
+  updateEvent(
+    eventId: string,
+    patch: CalendarEventPatch,
+    calendarId?: string
+  ): Promise<CalendarEvent>;
+  deleteEvent(eventId: string, calendarId?: string): Promise<void>;
+  // Accept, decline or tentatively accept an invitation as the connected account
+  respondToEvent(
+    eventId: string,
+    response: InvitationResponse,
+    calendarId?: string
+  ): Promise<CalendarEvent>;
+  queryFreeBusy(options: FreeBusyOptions): Promise<BusyInterval[]>;
+  // Incremental change feed used to mirror events into Convex; only Google has one
+  // Throws "SYNC_TOKEN_EXPIRED" when the token is no longer valid and a full sync is needed
+  syncEvents?(options: SyncEventsOptions): Promise<SyncPage>;
+  // Push notifications when a calendar changes; notifications only say that something changed
+  watchEvents?(options: WatchEventsOptions): Promise<WatchChannel>;
+  stopWatch?(channel: Omit<WatchChannel, "expiration">): Promise<void>;
+}
+
+export type CalendarProviderKind = "google" | "caldav" | "memory";
+
+/**
+ * Reads the configured backend from CALENDAR_PROVIDER (defaults to Google)
+ */
+export function getCalendarProviderKind(): CalendarProviderKind {
+  return process.env.CALENDAR_PROVIDER === "memory" ? "memory" : "google";
+}
+
+/**
+ * Resolve which backend a user is on
+ * CALENDAR_PROVIDER=memory wins; otherwise a stored CalDAV connection takes precedence over Google
+ */
+export async function getUserCalendarProviderKind(
+  userId: string
+): Promise<CalendarProviderKind> {
+  if (getCalendarProviderKind() === "memory") {
+    return "memory";
+  }
+
+  const caldav = await client.query(api.tokens.getCalDavConnection, {
+    clerkUserId: userId,
+  });
+
+  return caldav ? "caldav" : "google";
+}
+
+/**
+ * Get the calendar provider for a user
+ * Throws "Google Calendar not connected" or "TOKEN_INVALID" like the routes expect
+ */
+export async function getCalendarProvider(
+  userId: string,
+  options: { retryBudgetMs?: number } = {} // Google only: total time for retries
+): Promise<CalendarProvider> {
+  const kind = await getUserCalendarProviderKind(userId);
+
+  if (kind === "memory") {
+    return createMemoryCalendarProvider(userId);
+  }
+
+  if (kind === "caldav") {
+    return createCalDavCalendarProvider(userId);
+  }
+
+  return createGoogleCalendarProvider(userId, options);
+}
+
+/**
+ * Pick the timezone for a request: the explicit zone,
+ * then the user's saved timezone preference, then UTC
+ */
+export async function resolveTimeZone(
+  userId: string,
+  timeZone?: string
+): Promise<string> {
+  if (timeZone) {
+    return timeZone;
+  }
+
+  const preferences = await client.query(api.preferences.getUserPreferences, {
+    clerkUserId: userId,
+  });
+
+  return preferences?.timeZone || "UTC";
+}
+
+/**
+ * Pick the calendar for a request: the explicit calendarId,
+ * then the user's default calendar preference, then the provider's primary calendar
+ */
+export async function resolveCalendarId(
+  userId: string,
+  calendarId?: string
+): Promise<string | undefined> {
+  if (calendarId) {
+    return calendarId;
+  }
+
+  const preferences = await client.query(api.preferences.getUserPreferences, {
+    clerkUserId: userId,
+  });
+
+  return preferences?.defaultCalendarId;
+}
@@ -0,0 +1,219 @@
+import { randomBytes, randomUUID } from "crypto";
+import { client, getServerSecret } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import {
+  getCalendarProvider,
+  type CalendarProvider,
+  type WatchChannel,
+} from "./calendar-provider";
+import { syncCalendarMirror } from "./calendar-mirror";
+import { BACKGROUND_RETRY_BUDGET_MS } from "./google-retry";
+
+/**
+ * Push notifications for changes made outside the app, e.g. in Google Calendar itself
+ * Each notification triggers an incremental mirror sync; clients refetch through Convex
+ */
+
+// Channels registered by the local test harness; Google never hears about them
+export const LOCAL_RESOURCE_ID = "local-test";
+
+export interface CalendarNotification {
+  channelId: string;
+  token: string;
+  resourceId: string;
+  resourceState: string; // "sync" when a channel is created, then "exists" on changes
+}
+
+/**
+ * Public HTTPS URL of /api/calendar/webhook; without it channels can't be created
+ */
+export function getWebhookUrl(): string | undefined {
+  return process.env.CALENDAR_WEBHOOK_URL;
+}
+
+/**
+ * Register a channel for a calendar; null when the provider or config doesn't allow push
+ * With local: true the channel is only stored, for posting fake notifications
+ * The token comes back here only; Convex never hands it out again
+ */
+export async function startCalendarWatch(
+  userId: string,
+  calendar: CalendarProvider,
+  calendarId = "primary",
+  options: { local?: boolean } = {}
+): Promise<(WatchChannel & { token: string }) | null> {
+  const channelId = randomUUID();
+  const token = randomBytes(24).toString("hex");
+
+  let channel: WatchChannel;
+  if (options.local) {
+    channel = {
+      channelId,
+      resourceId: LOCAL_RESOURCE_ID,
+      expiration: Date.now() + 7 * 24 * 60 * 60 * 1000,
+    };
+  } else {
+    const address = getWebhookUrl();
+    if (!calendar.watchEvents || !address) {
+      return null;
+    }
+    channel = await calendar.watchEvents({
+      calendarId,
+      channelId,
+      token,
+      address,
+    });
+  }
+
+  await client.mutation(api.calendarWatch.saveWatchChannel, {
+    serverSecret: getServerSecret(),
+    clerkUserId: userId,
+    calendarId,
+    channelId,
+    resourceId: channel.resourceId,
+    token,
+    expiration: channel.expiration,
+    local: options.local,
+  });
+
+  return { ...channel, token };
+}
+
+async function stopChannel(
+  calendar: CalendarProvider | undefined,
+  channel: { channelId: string; resourceId: string; local?: boolean }
+) {
+  if (calendar?.stopWatch && !channel.local) {
+    try {
+      await calendar.stopWatch({
+        channelId: channel.channelId,
+        resourceId: channel.resourceId,
+      });
+    } catch (error) {
+      // Google stops sending once the channel expires anyway
+      console.error("Failed to stop calendar channel:", error);
+    }
+  }
+
+  await client.mutation(api.calendarWatch.deleteWatchChannel, {
+    serverSecret: getServerSecret(),
+    channelId: channel.channelId,
+  });
+}
+
+/**
+ * Watch a mirrored calendar unless a channel already does, e.g. after its first full sync
+ * Any calendar the mirror serves (the default calendar, or one listed by id) gets one,
+ * so edits made in Google reach the mirror without waiting for it to go stale
+ */
+export async function ensureCalendarWatch(
+  userId: string,
+  calendar: CalendarProvider,
+  calendarId = "primary"
+): Promise<void> {
+  const channels = await client.query(api.calendarWatch.listWatchChannels, {
+    clerkUserId: userId,
+  });
+  if (
+    channels.some(
+      (channel) => channel.calendarId === calendarId && !channel.local
+    )
+  ) {
+    return;
+  }
+
+  await startCalendarWatch(userId, calendar, calendarId);
+}
+
+/**
+ * Stop and forget all of a user's channels, e.g. on disconnect
+ */
+export async function stopCalendarWatches(userId: string): Promise<void> {
+  const channels = await client.query(api.calendarWatch.listWatchChannels, {
+    clerkUserId: userId,
+  });
+  if (channels.length === 0) {
+    return;
+  }
+
+  let calendar: CalendarProvider | undefined;
+  try {
+    calendar = await getCalendarProvider(userId);
+  } catch (error) {
+    console.error("Failed to load calendar to stop channels:", error);
+  }
+
+  for (const channel of channels) {
+    await stopChannel(calendar, channel);
+  }
+}
+
+/**
+ * Replace a channel that's about to expire with a new one
+ * Returns false when the channel is gone or the calendar was disconnected
+ */
+export async function renewCalendarWatch(channelId: string): Promise<boolean> {
+  const channel = await client.query(api.calendarWatch.findWatchChannel, {
+    channelId,
+  });
+  if (!channel) {
+    return false;
+  }
+
+  let calendar: CalendarProvider;
+  try {
+    calendar = await getCalendarProvider(channel.clerkUserId, {
+      retryBudgetMs: BACKGROUND_RETRY_BUDGET_MS,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (
+      message === "Google Calendar not connected" ||
+      message === "TOKEN_INVALID"
+    ) {
+      await stopChannel(undefined, channel);
+      return false;
+    }
+    throw error;
+  }
+
+  // Start the new channel first so no change slips through in between
+  const renewed = await startCalendarWatch(
+    channel.clerkUserId,
+    calendar,
+    channel.calendarId
+  );
+  await stopChannel(calendar, channel);
+
+  return !!renewed;
+}
+
+/**
+ * Check a notification against its channel and sync the calendar it's about
+ * Throws "Unknown channel" or "Invalid channel token" for notifications we didn't ask for
+ */
+export async function handleCalendarNotification(
+  notification: CalendarNotification
+): Promise<void> {
+  const result = await client.query(api.calendarWatch.verifyWatchChannel, {
+    serverSecret: getServerSecret(),
+    channelId: notification.channelId,
+    token: notification.token,
+    resourceId: notification.resourceId,
+  });
+  if (result.status === "unknown") {
+    throw new Error("Unknown channel");
+  }
+  if (result.status === "invalid") {
+    throw new Error("Invalid channel token");
+  }
+  const { channel } = result;
+
+  // The first notification only confirms the channel works
+  if (notification.resourceState === "sync") {
+    return;
+  }
+
+  const calendar = await getCalendarProvider(channel.clerkUserId);
+  await syncCalendarMirror(channel.clerkUserId, calendar, channel.calendarId);
+}
@@ -0,0 +1,162 @@
+import { createHash, randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+
+/**
+ * Dry runs and confirmation tokens for the mutation routes
+ * A dry run returns a preview and a short-lived token; updates and deletes only run when the token
+ * from a dry run of the same request comes back, so nothing is changed or removed unconfirmed
+ * A token is held while its change runs and handed back if the change fails, so it can be retried
+ */
+
+// Long enough to read the preview out and hear a yes
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Fields the mutation routes take next to the event fields
+ */
+export const confirmationSchema = z.object({
+  dryRun: z.boolean().optional(), // Preview the change and get a confirmationToken
+  confirmationToken: z.string().optional(),
+});
+
+const CONFIRMATION_ERRORS = {
+  invalid: "Unknown confirmation token",
+  expired: "The confirmation token has expired",
+  used: "The confirmation token was already used",
+  mismatch: "The confirmation token is for a different change",
+};
+
+/**
+ * Validated requests are hashed, so field order and extra fields don't matter
+ */
+function hashRequest(request: unknown): string {
+  return createHash("sha256").update(JSON.stringify(request)).digest("hex");
+}
+
+/**
+ * Issue a token for a previewed request, to send back with the preview
+ */
+export async function issueConfirmation(
+  userId: string,
+  route: string,
+  request: unknown,
+  summary: string
+) {
+  const confirmationToken = randomBytes(12).toString("hex");
+
+  await client.mutation(api.confirmations.issueConfirmationToken, {
+    clerkUserId: userId,
+    token: confirmationToken,
+    route,
+    requestHash: hashRequest(request),
+    summary,
+    ttlMs: CONFIRMATION_TTL_MS,
+  });
+
+  return {
+    confirmationToken,
+    expiresAt: new Date(Date.now() + CONFIRMATION_TTL_MS).toISOString(),
+  };
+}
+
+/**
+ * Check the confirmation token sent with a request, using it up
+ * Returns an error response to send back, or null to go ahead
+ * With required: false a request without a token goes ahead, but a bad one is still refused
+ */
+async function verifyConfirmation(
+  userId: string,
+  route: string,
+  request: unknown,
+  token: string | undefined,
+  options: { required: boolean }
+): Promise<NextResponse | null> {
+  if (!token) {
+    if (!options.required) {
+      return null;
+    }
+    return NextResponse.json(
+      {
+        error:
+          "This change needs confirmation. Send it with dryRun: true, confirm the preview, then send it again with the confirmationToken.",
+        code: "confirmation_required",
+      },
+      { status: 428 }
+    );
+  }
+
+  const result = await client.mutation(
+    api.confirmations.consumeConfirmationToken,
+    {
+      clerkUserId: userId,
+      token,
+      route,
+      requestHash: hashRequest(request),
+    }
+  );
+
+  if (result.status === "confirmed") {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      error: `${CONFIRMATION_ERRORS[result.status]}. Preview the change again.`,
+      code: "confirmation_invalid",
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * Make a token usable again after the change it confirmed didn't go through
+ */
+export async function releaseConfirmation(userId: string, token: string) {
+  await client.mutation(api.confirmations.releaseConfirmationToken, {
+    clerkUserId: userId,
+    token,
+  });
+}
+
+/**
+ * Run a change behind its confirmation token
+ * The token is used up while the change runs and released when it throws or responds with an error
+ * (a rate limit, a server error, a conflict), so retrying with the same token works
+ */
+export async function withConfirmation(
+  userId: string,
+  route: string,
+  request: unknown,
+  token: string | undefined,
+  options: { required: boolean },
+  change: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const rejected = await verifyConfirmation(
+    userId,
+    route,
+    request,
+    token,
+    options
+  );
+  if (rejected) {
+    return rejected;
+  }
+
+  let response: NextResponse;
+  try {
+    response = await change();
+  } catch (error) {
+    if (token) {
+      await releaseConfirmation(userId, token);
+    }
+    throw error;
+  }
+
+  if (token && !response.ok) {
+    await releaseConfirmation(userId, token);
+  }
+  return response;
+}
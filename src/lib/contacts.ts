@@ -0,0 +1,300 @@
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import type { Doc } from "convex/_generated/dataModel";
+import {
+  getCalendarProvider,
+  resolveCalendarId,
+  type CalendarEvent,
+  type CalendarProvider,
+} from "./calendar-provider";
+import { matchWord, tokenize } from "./event-search";
+
+/**
+ * Contacts: names and nicknames for attendee emails, so "lunch with Alex" can invite the right Alex
+ * The book fills itself from people in past events; lookups rank candidates and say when to ask which one
+ */
+
+export type Contact = Doc<"contacts">;
+
+// How far back seeding looks for people the user meets
+const CONTACT_LOOKBACK_DAYS = 90;
+
+// Seeding runs again in the background once the last one is this old
+const CONTACT_RESEED_MS = 24 * 60 * 60 * 1000;
+
+// Contacts per Convex call while seeding
+const SEED_CHUNK_SIZE = 100;
+
+// Google's addresses for rooms and shared calendars aren't people
+const NON_PERSON_EMAIL = /@(resource|group)\.calendar\.google\.com$/;
+
+// Below this a candidate isn't worth offering
+const MIN_CANDIDATE_SCORE = 0.4;
+
+// The best candidate needs this much of a lead to be picked without asking
+const CLEAR_LEAD = 0.1;
+
+export const contactSchema = z.object({
+  email: z.string().email(),
+  name: z.string().trim().min(1).max(100).optional(),
+  aliases: z.array(z.string().trim().min(1).max(60)).max(20).optional(), // Nicknames, e.g. "Alex"
+});
+
+export const updateContactSchema = contactSchema.omit({ email: true });
+
+export interface ContactCandidate {
+  id: string;
+  email: string;
+  name?: string;
+  aliases: string[];
+  eventCount: number;
+  score: number; // 0-1
+  matchedOn: "email" | "alias" | "name";
+}
+
+export interface ContactResolution {
+  query: string;
+  match?: ContactCandidate; // Set when one candidate is clearly meant
+  candidates: ContactCandidate[]; // Best first
+  needsDisambiguation: boolean;
+  question?: string; // What to ask the user when there's no clear match
+}
+
+/**
+ * Contact as the contacts routes return it
+ */
+export function formatContact(contact: Contact) {
+  return {
+    id: contact._id,
+    email: contact.email,
+    name: contact.name,
+    aliases: contact.aliases,
+    eventCount: contact.eventCount,
+    lastSeenAt: contact.lastSeenAt
+      ? new Date(contact.lastSeenAt).toISOString()
+      : undefined,
+  };
+}
+
+/**
+ * People in a list of events, with how many events each was in
+ * The connected account, rooms and invalid addresses are left out
+ */
+export function collectAttendees(events: CalendarEvent[]) {
+  const seen = new Map<
+    string,
+    { email: string; name?: string; eventCount: number; lastSeenAt: number }
+  >();
+
+  for (const event of events) {
+    const startTime = new Date(event.start).getTime();
+    const people = [
+      ...event.attendees,
+      ...(event.organizer ? [event.organizer] : []),
+    ];
+    const counted = new Set<string>();
+
+    for (const person of people) {
+      const email = person.email?.toLowerCase();
+      if (
+        !email ||
+        person.self ||
+        counted.has(email) ||
+        NON_PERSON_EMAIL.test(email) ||
+        !z.string().email().safeParse(email).success
+      ) {
+        continue;
+      }
+      counted.add(email);
+
+      const entry = seen.get(email) ?? { email, eventCount: 0, lastSeenAt: 0 };
+      entry.eventCount += 1;
+      // The display name from the latest event wins
+      if (startTime >= entry.lastSeenAt) {
+        entry.lastSeenAt = startTime;
+        entry.name = person.displayName || entry.name;
+      }
+      seen.set(email, entry);
+    }
+  }
+
+  return Array.from(seen.values());
+}
+
+/**
+ * Collect contacts from the user's events of the last few months
+ */
+export async function seedContacts(
+  userId: string,
+  calendar: CalendarProvider
+): Promise<void> {
+  const now = Date.now();
+  const events = await calendar.listEvents({
+    timeMin: new Date(
+      now - CONTACT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString(),
+    timeMax: new Date(now).toISOString(),
+    maxResults: 2500,
+    calendarId: await resolveCalendarId(userId),
+  });
+
+  const attendees = collectAttendees(events);
+
+  // An empty call still records the seeding time
+  for (let i = 0; i === 0 || i < attendees.length; i += SEED_CHUNK_SIZE) {
+    await client.mutation(api.contacts.recordSeenContacts, {
+      clerkUserId: userId,
+      contacts: attendees.slice(i, i + SEED_CHUNK_SIZE),
+    });
+  }
+}
+
+/**
+ * Seed contacts the first time they're needed and refresh them daily
+ * The first seeding is awaited so the lookup can use it; refreshes run in the background
+ * Never throws: without seeding, contacts the user added still resolve
+ */
+export async function ensureContactsSeeded(userId: string): Promise<void> {
+  const state = await client.query(api.contacts.getContactSeedState, {
+    clerkUserId: userId,
+  });
+  if (state && Date.now() - state.seededAt < CONTACT_RESEED_MS) {
+    return;
+  }
+
+  const seed = async () =>
+    seedContacts(userId, await getCalendarProvider(userId));
+
+  if (state) {
+    seed().catch((error) =>
+      console.error("Failed to refresh contacts:", error)
+    );
+    return;
+  }
+
+  try {
+    await seed();
+  } catch (error) {
+    console.error("Failed to seed contacts:", error);
+  }
+}
+
+/**
+ * How well every word of the query matches a field's words, from 0 to 1
+ */
+function scoreWords(queryWords: string[], fieldWords: string[]): number {
+  if (queryWords.length === 0 || fieldWords.length === 0) return 0;
+
+  let total = 0;
+  for (const word of queryWords) {
+    const score = matchWord(word, fieldWords);
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total / queryWords.length;
+}
+
+function scoreContact(
+  contact: Contact,
+  query: string
+): Pick<ContactCandidate, "score" | "matchedOn"> | null {
+  const wanted = query.trim().toLowerCase();
+  if (wanted.includes("@")) {
+    return contact.email === wanted ? { score: 1, matchedOn: "email" } : null;
+  }
+
+  const words = tokenize(wanted);
+  const joined = words.join(" ");
+  if (contact.aliases.some((alias) => tokenize(alias).join(" ") === joined)) {
+    return { score: 1, matchedOn: "alias" };
+  }
+  if (contact.name && tokenize(contact.name).join(" ") === joined) {
+    return { score: 0.95, matchedOn: "name" };
+  }
+
+  const scores: Pick<ContactCandidate, "score" | "matchedOn">[] = [
+    {
+      score: 0.9 * scoreWords(words, contact.aliases.flatMap(tokenize)),
+      matchedOn: "alias",
+    },
+    {
+      score: 0.85 * scoreWords(words, tokenize(contact.name || "")),
+      matchedOn: "name",
+    },
+    {
+      score: 0.7 * scoreWords(words, tokenize(contact.email.split("@")[0])),
+      matchedOn: "email",
+    },
+  ];
+  const best = scores.sort((a, b) => b.score - a.score)[0];
+  return best.score > 0 ? best : null;
+}
+
+function describeCandidate(candidate: ContactCandidate): string {
+  return candidate.name
+    ? `${candidate.name} (${candidate.email})`
+    : candidate.email;
+}
+
+/**
+ * Rank contacts for a name, nickname or email
+ * People the user meets more often win ties, but never by enough to skip asking
+ * between two equally good matches
+ */
+export function resolveContact(
+  contacts: Contact[],
+  query: string,
+  maxCandidates = 5
+): ContactResolution {
+  const candidates = contacts
+    .map((contact): ContactCandidate | null => {
+      const scored = scoreContact(contact, query);
+      if (!scored) return null;
+
+      const frequency = Math.min(contact.eventCount, 20) / 20;
+      return {
+        id: contact._id,
+        email: contact.email,
+        name: contact.name,
+        aliases: contact.aliases,
+        eventCount: contact.eventCount,
+        score:
+          Math.round(Math.min(1, scored.score + frequency * 0.05) * 100) / 100,
+        matchedOn: scored.matchedOn,
+      };
+    })
+    .filter(
+      (candidate): candidate is ContactCandidate =>
+        !!candidate && candidate.score >= MIN_CANDIDATE_SCORE
+    )
+    .sort((a, b) => b.score - a.score || b.eventCount - a.eventCount)
+    .slice(0, maxCandidates);
+
+  if (candidates.length === 0) {
+    return {
+      query,
+      candidates,
+      needsDisambiguation: false,
+      question: `I don't have an email address for ${query}. What is it?`,
+    };
+  }
+
+  const [best, runnerUp] = candidates;
+  if (!runnerUp || best.score - runnerUp.score >= CLEAR_LEAD) {
+    return { query, match: best, candidates, needsDisambiguation: false };
+  }
+
+  const options = candidates
+    .filter((candidate) => best.score - candidate.score < CLEAR_LEAD)
+    .slice(0, 3)
+    .map(describeCandidate);
+  return {
+    query,
+    candidates,
+    needsDisambiguation: true,
+    question: `Which ${query} do you mean: ${options
+      .slice(0, -1)
+      .join(", ")} or ${options[options.length - 1]}?`,
+  };
+}
@@ -2,5 +2,17 @@ import { ConvexHttpClient } from "convex/browser";
 
 const client = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL || "");
 
-export { client };
+/**
+ * The secret Convex functions handling credentials ask for (see convex/serverSecret.ts)
+ * Server side only; it is never sent to the browser
+ */
+function getServerSecret(): string {
+  const secret = process.env.CALENDAR_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("CALENDAR_WEBHOOK_SECRET must be set");
+  }
+  return secret;
+}
+
+export { client, getServerSecret };
 
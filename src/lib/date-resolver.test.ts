@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import { resolveDatePhrase } from "./date-resolver";
+
+// Tuesday, October 20 2026, 10:00 AM in New York
+const REFERENCE = new Date("2026-10-20T14:00:00Z");
+const TIME_ZONE = "America/New_York";
+
+function resolve(text: string, timeZone = TIME_ZONE) {
+  return resolveDatePhrase(text, { reference: REFERENCE, timeZone });
+}
+
+// [phrase, start, end, confidence]
+type Case = [string, string, string, number];
+
+describe("resolveDatePhrase", () => {
+  describe("days", () => {
+    it.each<Case>([
+      ["today", "2026-10-20", "2026-10-20", 1],
+      ["tomorrow", "2026-10-21", "2026-10-21", 1],
+      ["yesterday", "2026-10-19", "2026-10-19", 1],
+      ["day after tomorrow", "2026-10-22", "2026-10-22", 1],
+      ["wednesday", "2026-10-21", "2026-10-21", 1],
+      ["this friday", "2026-10-23", "2026-10-23", 1],
+      ["next monday", "2026-10-26", "2026-10-26", 1],
+      ["last friday", "2026-10-16", "2026-10-16", 1],
+      ["friday after next", "2026-10-30", "2026-10-30", 1],
+      ["tuesday next week", "2026-10-27", "2026-10-27", 1],
+      ["sometime next week tuesday", "2026-10-27", "2026-10-27", 1],
+      ["end of the month", "2026-10-31", "2026-10-31", 1],
+      ["october 21", "2026-10-21", "2026-10-21", 1],
+      ["21st of october", "2026-10-21", "2026-10-21", 1],
+      ["the 21st", "2026-10-21", "2026-10-21", 1],
+      ["the twenty first", "2026-10-21", "2026-10-21", 1],
+      ["first of november", "2026-11-01", "2026-11-01", 1],
+      ["the 31st", "2026-10-31", "2026-10-31", 1],
+      ["the 3rd of next month", "2026-11-03", "2026-11-03", 1],
+      ["january 5 2027", "2027-01-05", "2027-01-05", 1],
+      ["10/21", "2026-10-21", "2026-10-21", 1],
+      ["25/10", "2026-10-25", "2026-10-25", 1],
+      ["12/25/2026", "2026-12-25", "2026-12-25", 1],
+      ["2026-11-05", "2026-11-05", "2026-11-05", 1],
+      ["all day friday", "2026-10-23", "2026-10-23", 1],
+      ["in 3 days", "2026-10-23", "2026-10-23", 1],
+      ["3 days from now", "2026-10-23", "2026-10-23", 1],
+      ["in 2 weeks", "2026-11-03", "2026-11-03", 1],
+      ["in a month", "2026-11-20", "2026-11-20", 1],
+      ["a week from friday", "2026-10-30", "2026-10-30", 1],
+      ["2 days after next monday", "2026-10-28", "2026-10-28", 1],
+    ])("%s", (text, start, end, confidence) => {
+      expect(resolve(text)).toMatchObject({
+        start,
+        end,
+        allDay: true,
+        confidence,
+      });
+    });
+  });
+
+  describe("ranges of days", () => {
+    it.each<Case>([
+      ["this week", "2026-10-20", "2026-10-25", 1],
+      ["next week", "2026-10-26", "2026-11-01", 1],
+      ["this weekend", "2026-10-24", "2026-10-25", 1],
+      ["next weekend", "2026-10-31", "2026-11-01", 1],
+      ["this month", "2026-10-20", "2026-10-31", 1],
+      ["next month", "2026-11-01", "2026-11-30", 1],
+      ["in march", "2027-03-01", "2027-03-31", 1],
+      ["monday to wednesday", "2026-10-26", "2026-10-28", 1],
+      ["Mon-Wed", "2026-10-26", "2026-10-28", 1],
+      ["fri-mon", "2026-10-23", "2026-10-26", 1],
+      ["october 21 to october 23", "2026-10-21", "2026-10-23", 1],
+    ])("%s", (text, start, end, confidence) => {
+      expect(resolve(text)).toMatchObject({
+        start,
+        end,
+        allDay: true,
+        confidence,
+      });
+    });
+  });
+
+  describe("times", () => {
+    it.each<Case>([
+      ["tomorrow at 3pm", "2026-10-21T15:00:00-04:00", "2026-10-21T16:00:00-04:00", 1],
+      ["three pm tomorrow", "2026-10-21T15:00:00-04:00", "2026-10-21T16:00:00-04:00", 1],
+      ["at 8pm", "2026-10-20T20:00:00-04:00", "2026-10-20T21:00:00-04:00", 1],
+      ["3pm", "2026-10-20T15:00:00-04:00", "2026-10-20T16:00:00-04:00", 1],
+      ["15:00", "2026-10-20T15:00:00-04:00", "2026-10-20T16:00:00-04:00", 1],
+      ["noon", "2026-10-20T12:00:00-04:00", "2026-10-20T13:00:00-04:00", 1],
+      ["tomorrow at noon", "2026-10-21T12:00:00-04:00", "2026-10-21T13:00:00-04:00", 1],
+      ["oct 21 at 2pm", "2026-10-21T14:00:00-04:00", "2026-10-21T15:00:00-04:00", 1],
+      ["2026-11-05T14:30", "2026-11-05T14:30:00-05:00", "2026-11-05T15:30:00-05:00", 1],
+      ["tomorrow 3-4pm", "2026-10-21T15:00:00-04:00", "2026-10-21T16:00:00-04:00", 1],
+      ["10am until noon tomorrow", "2026-10-21T10:00:00-04:00", "2026-10-21T12:00:00-04:00", 1],
+      ["tomorrow 11pm to 1am", "2026-10-21T23:00:00-04:00", "2026-10-22T01:00:00-04:00", 1],
+      ["tomorrow at 3pm for 2 hours", "2026-10-21T15:00:00-04:00", "2026-10-21T17:00:00-04:00", 1],
+      ["tomorrow at 3pm for 45 minutes", "2026-10-21T15:00:00-04:00", "2026-10-21T15:45:00-04:00", 1],
+      ["tomorrow at 3pm for an hour and a half", "2026-10-21T15:00:00-04:00", "2026-10-21T16:30:00-04:00", 1],
+      ["in 20 minutes", "2026-10-20T10:20:00-04:00", "2026-10-20T11:20:00-04:00", 1],
+      ["in 2 hours", "2026-10-20T12:00:00-04:00", "2026-10-20T13:00:00-04:00", 1],
+      ["10.15am tomorrow", "2026-10-21T10:15:00-04:00", "2026-10-21T11:15:00-04:00", 1],
+      ["tomorrow at 3.30pm", "2026-10-21T15:30:00-04:00", "2026-10-21T16:30:00-04:00", 1],
+      // An explicit offset is the instant, written in the user's zone
+      ["2026-10-20T14:00:00Z", "2026-10-20T10:00:00-04:00", "2026-10-20T11:00:00-04:00", 1],
+      ["2026-10-21T15:00:00+02:00", "2026-10-21T09:00:00-04:00", "2026-10-21T10:00:00-04:00", 1],
+      ["2026-10-21T15:00-0230 for 30 minutes", "2026-10-21T13:30:00-04:00", "2026-10-21T14:00:00-04:00", 1],
+      ["monday at 10am to wednesday at 2pm", "2026-10-26T10:00:00-04:00", "2026-10-28T14:00:00-04:00", 1],
+      ["8am tomorrow to 10am", "2026-10-21T08:00:00-04:00", "2026-10-21T10:00:00-04:00", 1],
+      ["friday 9pm until saturday 2am", "2026-10-23T21:00:00-04:00", "2026-10-24T02:00:00-04:00", 1],
+    ])("%s", (text, start, end, confidence) => {
+      expect(resolve(text)).toMatchObject({
+        start,
+        end,
+        allDay: false,
+        confidence,
+        notes: [],
+      });
+    });
+  });
+
+  describe("assumptions", () => {
+    // [phrase, start, end, confidence, part of the note]
+    it.each<[...Case, string]>([
+      ["tomorrow at 3", "2026-10-21T15:00:00-04:00", "2026-10-21T16:00:00-04:00", 0.8, "Assumed 3 PM"],
+      ["quarter past nine tomorrow", "2026-10-21T09:15:00-04:00", "2026-10-21T10:15:00-04:00", 0.8, "Assumed 9:15 AM"],
+      ["quarter to 5 tomorrow", "2026-10-21T16:45:00-04:00", "2026-10-21T17:45:00-04:00", 0.8, "Assumed 4:45 PM"],
+      ["half past 3 tomorrow", "2026-10-21T15:30:00-04:00", "2026-10-21T16:30:00-04:00", 0.8, "Assumed 3:30 PM"],
+      ["tomorrow from 2 to 4", "2026-10-21T14:00:00-04:00", "2026-10-21T16:00:00-04:00", 0.8, "Assumed 2 PM"],
+      ["between 2 and 4 tomorrow", "2026-10-21T14:00:00-04:00", "2026-10-21T16:00:00-04:00", 0.8, "Assumed 2 PM"],
+      // 9 AM has passed, so the rest of today wins
+      ["today at 9", "2026-10-20T21:00:00-04:00", "2026-10-20T22:00:00-04:00", 0.8, "Assumed 9 PM"],
+      ["at 09:00", "2026-10-21T09:00:00-04:00", "2026-10-21T10:00:00-04:00", 0.9, "took tomorrow"],
+      ["midnight", "2026-10-21T00:00:00-04:00", "2026-10-21T01:00:00-04:00", 0.9, "Midnight taken as the end of Tue, Oct 20"],
+      ["tomorrow morning", "2026-10-21T09:00:00-04:00", "2026-10-21T12:00:00-04:00", 0.8, "Morning taken as 9 AM to 12 PM"],
+      ["friday afternoon", "2026-10-23T13:00:00-04:00", "2026-10-23T17:00:00-04:00", 0.8, "Afternoon taken as 1 PM to 5 PM"],
+      ["tonight", "2026-10-20T18:00:00-04:00", "2026-10-20T21:00:00-04:00", 0.8, "Evening taken as 6 PM to 9 PM"],
+      ["tomorrow at lunch", "2026-10-21T12:00:00-04:00", "2026-10-21T13:00:00-04:00", 0.8, "Lunchtime"],
+      ["until 5", "2026-10-20T10:00:00-04:00", "2026-10-20T17:00:00-04:00", 0.7, "starting now"],
+      ["tomorrow at 3 maybe", "2026-10-21T15:00:00-04:00", "2026-10-21T16:00:00-04:00", 0.64, 'Ignored "maybe"'],
+      ["tuesday", "2026-10-27", "2026-10-27", 0.8, "Today is Tuesday"],
+      ["next wednesday", "2026-10-28", "2026-10-28", 0.7, "this coming Wednesday is Wed, Oct 21"],
+      ["next thu-sat", "2026-10-29", "2026-10-31", 0.7, "this coming Thursday is Thu, Oct 22"],
+      ["end of the week", "2026-10-23", "2026-10-23", 0.9, "End of the week taken as Friday"],
+      ["march 3", "2027-03-03", "2027-03-03", 0.9, "is next year"],
+      ["the 19th", "2026-11-19", "2026-11-19", 0.9, "the 19th has passed this month"],
+      ["in a few days", "2026-10-23", "2026-10-23", 0.7, '"A few days" taken as 3'],
+      ["mon-wed at 3pm", "2026-10-26T15:00:00-04:00", "2026-10-26T16:00:00-04:00", 0.5, "is several days; took only the first"],
+    ])("%s", (text, start, end, confidence, note) => {
+      const resolution = resolve(text);
+      expect(resolution).toMatchObject({ start, end, confidence });
+      expect(resolution!.notes.join("\n")).toContain(note);
+    });
+
+    it("asks whether 12/11 is month/day", () => {
+      const resolution = resolve("12/11");
+      expect(resolution).toMatchObject({ start: "2026-12-11", confidence: 0.6 });
+      expect(resolution!.notes[0]).toContain("could also be day/month");
+    });
+  });
+
+  describe("daylight saving time", () => {
+    // [phrase, zone, start, end, part of the note]
+    it.each<[string, string, string, string, string]>([
+      // Clocks go forward: 2:30 AM is skipped and moves to 3:30 AM
+      ["2026-03-08 2:30am", "America/New_York", "2026-03-08T03:30:00-04:00", "2026-03-08T04:30:00-04:00", "doesn't exist in America/New_York"],
+      ["march 29 2027 at 2:30am", "Europe/Berlin", "2027-03-29T02:30:00+02:00", "2027-03-29T03:30:00+02:00", ""],
+      ["mar 28 2027 at 2:30am", "Europe/Berlin", "2027-03-28T03:30:00+02:00", "2027-03-28T04:30:00+02:00", "doesn't exist in Europe/Berlin"],
+      // Clocks go back: 1:30 AM happens twice, the first one is taken
+      ["nov 1 at 1:30am", "America/New_York", "2026-11-01T01:30:00-04:00", "2026-11-01T01:30:00-05:00", "happens twice in America/New_York"],
+      ["oct 25 at 2:30am", "Europe/Berlin", "2026-10-25T02:30:00+02:00", "2026-10-25T02:30:00+01:00", "happens twice in Europe/Berlin"],
+    ])("%s in %s", (text, timeZone, start, end, note) => {
+      const resolution = resolve(text, timeZone);
+      expect(resolution).toMatchObject({ start, end });
+      if (note) {
+        expect(resolution!.confidence).toBeLessThan(0.7);
+        expect(resolution!.notes.join("\n")).toContain(note);
+      } else {
+        expect(resolution!.notes).toEqual([]);
+      }
+    });
+
+    it("keeps half-hour offsets", () => {
+      expect(resolve("tomorrow at 3pm", "Asia/Kolkata")).toMatchObject({
+        start: "2026-10-21T15:00:00+05:30",
+        end: "2026-10-21T16:00:00+05:30",
+      });
+    });
+  });
+
+  describe("phrases without a date", () => {
+    it.each([
+      "",
+      "hello",
+      "february 30",
+      "feb 30 at 3pm",
+      "2/30 at 3pm",
+      "2026-02-30",
+      "2026-13-01",
+      "13/13",
+      "the 32nd",
+      "25:00",
+      "tomorrow at 25:00",
+      "at 24:30",
+      "from 25 to 26",
+      "until 12:75",
+      "2026-10-21T15:00:00+15:00",
+    ])("%j", (text) => {
+      expect(resolve(text)).toBeNull();
+    });
+  });
+
+  it("uses the default duration when there's no end", () => {
+    expect(
+      resolveDatePhrase("tomorrow at 3pm", {
+        reference: REFERENCE,
+        timeZone: TIME_ZONE,
+        defaultDurationMinutes: 30,
+      })
+    ).toMatchObject({ end: "2026-10-21T15:30:00-04:00" });
+  });
+});
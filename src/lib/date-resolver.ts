@@ -0,0 +1,1104 @@
+import {
+  addDaysToDate,
+  formatZonedTime,
+  getTimeZoneOffset,
+  getZonedParts,
+  zonedTimeToUtc,
+} from "./timezone";
+
+/**
+ * Deterministic resolver for spoken date/time phrases ("next Tuesday at 3", "the 21st", "in two weeks")
+ * Phrases are resolved against a reference time in an IANA zone; every assumption made along the way
+ * lowers the confidence and is explained in notes, so the agent knows when to double-check
+ */
+
+export interface DateResolution {
+  text: string;
+  start: string; // ISO 8601 with offset, or a date (YYYY-MM-DD) when allDay
+  end: string; // ISO 8601 with offset, or the last day (inclusive) when allDay
+  allDay: boolean;
+  timeZone: string;
+  confidence: number; // 0-1; below about 0.7 the result should be confirmed with the user
+  notes: string[]; // Assumptions and ambiguities, e.g. "Assumed 3 PM"
+}
+
+export interface ResolveDateOptions {
+  reference?: Date; // Defaults to now
+  timeZone: string;
+  defaultDurationMinutes?: number; // For a start time without an end, defaults to 60
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+  meridiem?: "am" | "pm";
+  twentyFourHour?: boolean; // "09:00" or "15:00"
+}
+
+interface DayPeriod {
+  name: string;
+  start: number; // Hours
+  end: number;
+}
+
+interface DateRange {
+  start: string;
+  lastDay: string;
+  monday?: string; // Week ranges, for "Tuesday next week"
+}
+
+type WeekdayModifier = "this" | "next" | "last" | "after next";
+
+const WEEKDAY_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+const WEEKDAY_PATTERN =
+  "(sun|mon|tues?|wed|weds|wednes|thu|thur|thurs|fri|sat|satur)(?:day)?";
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const MONTH_PATTERN =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+const PERIODS: Record<string, DayPeriod> = {
+  morning: { name: "morning", start: 9, end: 12 },
+  lunch: { name: "lunchtime", start: 12, end: 13 },
+  afternoon: { name: "afternoon", start: 13, end: 17 },
+  evening: { name: "evening", start: 18, end: 21 },
+  night: { name: "night", start: 20, end: 23 },
+};
+
+const UNITS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+};
+const TENS: Record<string, number> = {
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+};
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+  tenth: 10,
+  eleventh: 11,
+  twelfth: 12,
+  thirteenth: 13,
+  fourteenth: 14,
+  fifteenth: 15,
+  sixteenth: 16,
+  seventeenth: 17,
+  eighteenth: 18,
+  nineteenth: 19,
+  twentieth: 20,
+  thirtieth: 30,
+};
+
+// Words that carry no date information once the rest has been understood
+const FILLERS = new Set([
+  "on",
+  "at",
+  "the",
+  "of",
+  "for",
+  "in",
+  "this",
+  "from",
+  "to",
+  "until",
+  "till",
+  "and",
+  "by",
+  "around",
+  "about",
+  "approximately",
+  "a",
+  "an",
+  "o'clock",
+  "oclock",
+  "starting",
+  "please",
+  "sometime",
+  "-",
+]);
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function toDate(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const index = year * 12 + (month - 1) + months;
+  const nextYear = Math.floor(index / 12);
+  const nextMonth = (index % 12) + 1;
+  return toDate(
+    nextYear,
+    nextMonth,
+    Math.min(day, daysInMonth(nextYear, nextMonth))
+  );
+}
+
+function shiftDate(base: string, amount: number, unit: string): string {
+  switch (unit) {
+    case "day":
+      return addDaysToDate(base, Math.round(amount));
+    case "week":
+      return addDaysToDate(base, Math.round(amount * 7));
+    case "month":
+      return addMonths(base, Math.round(amount));
+    default:
+      return addMonths(base, Math.round(amount * 12));
+  }
+}
+
+function ordinal(value: number): string {
+  const suffix =
+    Math.floor(value / 10) === 1
+      ? "th"
+      : ["th", "st", "nd", "rd"][value % 10] ?? "th";
+  return `${value}${suffix}`;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatHour(hour: number, minute: number): string {
+  const suffix = hour % 24 < 12 ? "AM" : "PM";
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return minute === 0
+    ? `${displayHour} ${suffix}`
+    : `${displayHour}:${pad(minute)} ${suffix}`;
+}
+
+/**
+ * An instant as ISO 8601 with the zone's offset, e.g. "2026-10-20T15:00:00+02:00"
+ */
+function toZonedIso(instant: Date, timeZone: string): string {
+  const offset = getTimeZoneOffset(instant, timeZone);
+  const sign = offset < 0 ? "-" : "+";
+  const absolute = Math.abs(offset);
+  return `${formatZonedTime(instant, timeZone)}${sign}${pad(
+    Math.floor(absolute / 60)
+  )}:${pad(absolute % 60)}`;
+}
+
+function parseNumber(value: string): number {
+  if (value === "a" || value === "an") return 1;
+  if (value.startsWith("half")) return 0.5;
+  return parseFloat(value);
+}
+
+/**
+ * Lowercase, unify am/pm spellings and turn number words into digits
+ */
+function normalize(text: string): string {
+  let normalized = ` ${text.toLowerCase()} `
+    .replace(/a\.m\.?/g, "am")
+    .replace(/p\.m\.?/g, "pm")
+    .replace(/[,!?;]|\.(?!\d)/g, " ")
+    .replace(/(\d)\s+(am|pm)\b/g, "$1$2")
+    // "10.15am", "at 10.15"
+    .replace(/\b(\d{1,2})\.(\d{2})(?=am\b|pm\b| ?o'?clock\b)/g, "$1:$2")
+    .replace(/\bat (\d{1,2})\.(\d{2})\b/g, "at $1:$2")
+    .replace(/\s+/g, " ");
+
+  // Ordinal words only count as days after "the" or next to a month, e.g. "the twenty first", "first of May"
+  const ordinalWord = `((?:twenty|thirty)[ -])?(${Object.keys(ORDINALS).join("|")})`;
+  const ordinalValue = (tens: string | undefined, word: string) =>
+    (tens ? TENS[tens.trim().replace("-", "")] : 0) + ORDINALS[word];
+  normalized = normalized
+    .replace(
+      new RegExp(`\\b(the|${MONTH_PATTERN}) ${ordinalWord}\\b`, "g"),
+      (_match, prefix: string, _month, tens: string | undefined, word: string) =>
+        `${prefix} ${ordinalValue(tens, word)}th`
+    )
+    .replace(
+      new RegExp(`\\b${ordinalWord} (of )?${MONTH_PATTERN}\\b`, "g"),
+      (_match, tens: string | undefined, word: string, of: string | undefined, month: string) =>
+        `${ordinalValue(tens, word)}th ${of ?? ""}${month}`
+    );
+
+  normalized = normalized
+    .replace(
+      /\b(twenty|thirty|forty|fifty)[ -](one|two|three|four|five|six|seven|eight|nine)\b/g,
+      (_match, tens: string, unit: string) => String(TENS[tens] + UNITS[unit])
+    )
+    .replace(
+      new RegExp(`\\b(${[...Object.keys(UNITS), ...Object.keys(TENS)].join("|")})\\b`, "g"),
+      (word) => String(UNITS[word] ?? TENS[word])
+    )
+    .replace(/\ba couple(?: of)?\b/g, "2")
+    .replace(/\bhalf past (\d{1,2})\b/g, "$1:30")
+    .replace(/\bquarter past (\d{1,2})\b/g, "$1:15")
+    .replace(/\bquarter to (\d{1,2})\b/g, (_match, hour: string) => {
+      const previous = parseInt(hour, 10) - 1;
+      return `${previous === 0 ? 12 : previous}:45`;
+    })
+    // Again for hours that were spelled out, e.g. "three pm"
+    .replace(/(\d)\s+(am|pm)\b/g, "$1$2");
+
+  return normalized;
+}
+
+const TIME_PATTERN = "(\\d{1,2})(?::(\\d{2}))?(am|pm)?(?: ?o'?clock)?";
+
+function parseTime(
+  hour: string,
+  minute: string | undefined,
+  meridiem: string | undefined
+): TimeOfDay | null {
+  const value: TimeOfDay = {
+    hour: parseInt(hour, 10),
+    minute: minute ? parseInt(minute, 10) : 0,
+    meridiem: meridiem as TimeOfDay["meridiem"],
+    twentyFourHour: !meridiem && (hour.length === 2 && hour.startsWith("0")),
+  };
+  if (value.minute > 59) return null;
+  // 24:00 is midnight at the end of the day; 24:30 isn't a time
+  if (
+    meridiem
+      ? value.hour < 1 || value.hour > 12
+      : value.hour > 24 || (value.hour === 24 && value.minute > 0)
+  ) {
+    return null;
+  }
+  if (!meridiem && (value.hour === 0 || value.hour > 12)) {
+    value.twentyFourHour = true;
+  }
+  return value;
+}
+
+/**
+ * Resolve a date/time phrase; null when it contains nothing recognizable as a date or time,
+ * or a date or time that can't exist
+ */
+export function resolveDatePhrase(
+  text: string,
+  options: ResolveDateOptions
+): DateResolution | null {
+  const parsed = parsePhrase(text, options);
+  if (!parsed) {
+    return null;
+  }
+  return (!parsed.complete && resolveSpan(text, options)) || parsed.resolution;
+}
+
+/**
+ * Spans whose end names its own day, e.g. "Monday at 10am to Wednesday at 2pm" or "8am tomorrow to 10am";
+ * the end is read relative to the start
+ */
+function resolveSpan(
+  text: string,
+  options: ResolveDateOptions
+): DateResolution | null {
+  const separator = text.match(/\s+(?:to|until|till|through|thru|-)\s+/i);
+  if (!separator || separator.index === undefined) {
+    return null;
+  }
+
+  const first = parsePhrase(text.slice(0, separator.index), options);
+  if (!first?.complete) {
+    return null;
+  }
+  const start = first.resolution;
+  const second = parsePhrase(text.slice(separator.index + separator[0].length), {
+    ...options,
+    reference: start.allDay
+      ? zonedTimeToUtc(`${start.start}T00:00`, options.timeZone)
+      : new Date(start.start),
+  });
+  if (!second?.complete || second.resolution.allDay !== start.allDay) {
+    return null;
+  }
+  const end = second.resolution;
+  if (
+    start.allDay
+      ? end.end < start.start
+      : new Date(end.start).getTime() <= new Date(start.start).getTime()
+  ) {
+    return null;
+  }
+
+  return {
+    text,
+    start: start.start,
+    end: start.allDay ? end.end : end.start,
+    allDay: start.allDay,
+    timeZone: options.timeZone,
+    confidence: Math.round(start.confidence * end.confidence * 100) / 100,
+    notes: [...start.notes, ...end.notes],
+  };
+}
+
+interface ParsedPhrase {
+  resolution: DateResolution;
+  complete: boolean; // Every word was understood
+}
+
+function parsePhrase(
+  text: string,
+  options: ResolveDateOptions
+): ParsedPhrase | null {
+  const { timeZone } = options;
+  const now = options.reference ?? new Date();
+  const defaultDuration = options.defaultDurationMinutes ?? 60;
+  const parts = getZonedParts(now, timeZone);
+  const today = toDate(parts.year, parts.month, parts.day);
+
+  const notes: string[] = [];
+  let confidence = 1;
+  const assume = (note: string, factor: number) => {
+    notes.push(note);
+    confidence *= factor;
+  };
+
+  let remaining = normalize(text);
+  const take = (
+    pattern: string,
+    handler: (match: string[]) => boolean | void
+  ): boolean => {
+    const match = remaining.match(new RegExp(pattern));
+    if (!match || handler(match) === false) {
+      return false;
+    }
+    remaining = remaining.replace(match[0], " ");
+    return true;
+  };
+
+  let date: string | undefined;
+  let explicitDate = false;
+  let range: DateRange | undefined;
+  let weekday: { day: number; modifier?: WeekdayModifier } | undefined;
+  let lastWeekday: number | undefined; // "Monday to Wednesday"
+  let instant: Date | undefined;
+  let startTime: TimeOfDay | undefined;
+  let endTime: TimeOfDay | undefined;
+  let period: DayPeriod | undefined;
+  let duration: number | undefined;
+  let allDay = false;
+  // Set for dates and times that can't exist ("February 30", "25:00"); the phrase then resolves to nothing
+  let impossible = false;
+
+  const setDate = (value: string) => {
+    date = value;
+    explicitDate = true;
+  };
+
+  // ISO dates, optionally with a time and an offset: "2026-10-21", "2026-10-21t14:00", "2026-10-21t18:00:00z"
+  take(
+    "\\b(\\d{4})-(\\d{2})-(\\d{2})(?:t(\\d{2}):(\\d{2})(?::(\\d{2}))?(z|[+-]\\d{2}(?::?\\d{2})?)?)?\\b",
+    (match) => {
+      const [, year, month, day, hour, minute, second, offset] = match;
+      const offsetMatch = offset?.match(/^([+-])(\d{2}):?(\d{2})?$/);
+      if (
+        +month < 1 ||
+        +month > 12 ||
+        +day < 1 ||
+        +day > daysInMonth(+year, +month) ||
+        (hour && (+hour > 23 || +minute > 59 || +(second ?? 0) > 59)) ||
+        (offsetMatch && (+offsetMatch[2] > 14 || +(offsetMatch[3] ?? 0) > 59))
+      ) {
+        impossible = true;
+        return false;
+      }
+      // An explicit offset names the instant; the zone only changes how it's written
+      if (offset) {
+        const offsetMinutes = offsetMatch
+          ? (offsetMatch[1] === "-" ? -1 : 1) *
+            (+offsetMatch[2] * 60 + +(offsetMatch[3] ?? 0))
+          : 0;
+        instant = new Date(
+          Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second ?? 0)) -
+            offsetMinutes * 60 * 1000
+        );
+        return;
+      }
+      setDate(`${year}-${month}-${day}`);
+      if (hour) {
+        startTime = {
+          hour: parseInt(hour, 10),
+          minute: parseInt(minute, 10),
+          twentyFourHour: true,
+        };
+      }
+    }
+  );
+
+  // Relative offsets: "in 20 minutes", "in 2 weeks", "3 days from now"
+  const unitPattern = "(minute|min|hour|hr|day|week|month|year)s?";
+  const amountPattern = "(\\d+(?:\\.\\d+)?|an?|half an?)";
+  const applyOffset = (amount: number, unit: string, base: string) => {
+    switch (unit) {
+      case "minute":
+      case "min":
+        instant = new Date(now.getTime() + amount * 60 * 1000);
+        break;
+      case "hour":
+      case "hr":
+        instant = new Date(now.getTime() + amount * 60 * 60 * 1000);
+        break;
+      default:
+        setDate(shiftDate(base, amount, unit));
+        break;
+    }
+  };
+  // "A week from Friday": the day comes later, so the offset waits for it
+  let dayOffset: { amount: number; unit: string } | undefined;
+  take(`\\bin ${amountPattern} ${unitPattern}(?: and a half)?\\b`, (match) => {
+    const amount = parseNumber(match[1]) + (match[0].endsWith("and a half") ? 0.5 : 0);
+    applyOffset(amount, match[2], today);
+  }) ||
+    take(
+      `\\b${amountPattern} ${unitPattern} (?:from (now|today|tomorrow)|later)\\b`,
+      (match) => {
+        const base = match[3] === "tomorrow" ? addDaysToDate(today, 1) : today;
+        applyOffset(parseNumber(match[1]), match[2], base);
+      }
+    ) ||
+    take("\\bin a few (days|weeks)\\b", (match) => {
+      assume(`"A few ${match[1]}" taken as 3`, 0.7);
+      applyOffset(3, match[1].slice(0, -1), today);
+    }) ||
+    take(
+      `\\b${amountPattern} (day|week|month|year)s? (?:from|after)(?= )`,
+      (match) => {
+        dayOffset = { amount: parseNumber(match[1]), unit: match[2] };
+      }
+    );
+
+  // Named days
+  take("\\b(?:the )?day after tomorrow\\b", () =>
+    setDate(addDaysToDate(today, 2))
+  ) ||
+    take("\\b(?:the )?day before yesterday\\b", () =>
+      setDate(addDaysToDate(today, -2))
+    ) ||
+    take("\\btomorrow\\b", () => setDate(addDaysToDate(today, 1))) ||
+    take("\\byesterday\\b", () => setDate(addDaysToDate(today, -1))) ||
+    take("\\btoday\\b", () => setDate(today));
+
+  take("\\btonight\\b", () => {
+    if (!date) setDate(today);
+    period = PERIODS.evening;
+  });
+
+  // "end of the week/month"
+  take("\\b(?:the )?end of (?:the |this )?(week|month)\\b", (match) => {
+    if (match[1] === "week") {
+      const friday = addDaysToDate(today, (5 - parts.weekday + 7) % 7);
+      setDate(friday);
+      assume(`End of the week taken as Friday, ${formatDay(friday)}`, 0.9);
+    } else {
+      setDate(
+        toDate(parts.year, parts.month, daysInMonth(parts.year, parts.month))
+      );
+    }
+  });
+
+  // Weeks, weekends and months as ranges
+  const mondayOffset = (parts.weekday + 6) % 7; // Days since Monday
+  const thisMonday = addDaysToDate(today, -mondayOffset);
+  // "The 3rd of next month" is left to the day of month below
+  take(
+    "(?<!\\d(?:st|nd|rd|th) of )\\b(this|next|last|the) (week|weekend|month)\\b",
+    (match) => {
+      const [, modifier, unit] = match;
+      const shift = modifier === "next" ? 1 : modifier === "last" ? -1 : 0;
+      if (unit === "week") {
+        const monday = addDaysToDate(thisMonday, shift * 7);
+        range = {
+          start: shift === 0 ? today : monday,
+          lastDay: addDaysToDate(monday, 6),
+          monday,
+        };
+      } else if (unit === "weekend") {
+        // On a weekend "this weekend" is the current one
+        const saturday =
+          parts.weekday === 0
+            ? addDaysToDate(today, -1)
+            : addDaysToDate(today, 6 - parts.weekday);
+        const start = addDaysToDate(saturday, shift * 7);
+        range = { start, lastDay: addDaysToDate(start, 1) };
+      } else {
+        const first = addMonths(toDate(parts.year, parts.month, 1), shift);
+        const [year, month] = first.split("-").map(Number);
+        range = {
+          start: shift === 0 ? today : first,
+          lastDay: toDate(year, month, daysInMonth(year, month)),
+        };
+      }
+    }
+  );
+
+  // Month and day: "October 21", "21st of October", "Oct 21 2027"
+  const resolveMonthDay = (
+    monthName: string,
+    dayValue: string,
+    yearValue?: string
+  ): boolean | void => {
+    const month = MONTHS.indexOf(monthName.slice(0, 3)) + 1;
+    const day = parseInt(dayValue, 10);
+    let year = yearValue ? parseInt(yearValue, 10) : parts.year;
+    if (day < 1 || day > daysInMonth(year, month)) {
+      impossible = true;
+      return false;
+    }
+    let value = toDate(year, month, day);
+    if (!yearValue && value < today) {
+      year += 1;
+      value = toDate(year, month, day);
+      assume(`${formatDay(value)} is next year; that date has passed this year`, 0.9);
+    }
+    setDate(value);
+  };
+  take(
+    `\\b${MONTH_PATTERN} (\\d{1,2})(?:st|nd|rd|th)?(?: (\\d{4}))?\\b`,
+    (match) => resolveMonthDay(match[1], match[2], match[3])
+  ) ||
+    take(
+      `\\b(\\d{1,2})(?:st|nd|rd|th)? (?:of )?${MONTH_PATTERN}(?: (\\d{4}))?\\b`,
+      (match) => resolveMonthDay(match[2], match[1], match[3])
+    );
+
+  // Numeric dates: "10/21", "21/10/2026"; month first unless that can't be right
+  take("\\b(\\d{1,2})/(\\d{1,2})(?:/(\\d{2}|\\d{4}))?\\b", (match) => {
+    let first = parseInt(match[1], 10);
+    let second = parseInt(match[2], 10);
+    if (first > 12 && second <= 12) {
+      [first, second] = [second, first];
+    } else if (first <= 12 && second <= 12 && first !== second) {
+      assume(
+        `${match[1]}/${match[2]} read as month/day; it could also be day/month`,
+        0.6
+      );
+    }
+    if (first > 12 || first < 1) {
+      impossible = true;
+      return false;
+    }
+    const year = match[3]
+      ? match[3].length === 2
+        ? 2000 + parseInt(match[3], 10)
+        : parseInt(match[3], 10)
+      : undefined;
+    return resolveMonthDay(MONTHS[first - 1], String(second), year?.toString());
+  });
+
+  // Day of month: "the 21st", "the 3rd of next month"
+  take(
+    "\\b(?:the )?(\\d{1,2})(?:st|nd|rd|th)(?: of (this|next) month)?\\b",
+    (match) => {
+      const day = parseInt(match[1], 10);
+      if (day < 1 || day > 31) {
+        impossible = true;
+        return false;
+      }
+
+      let month = toDate(parts.year, parts.month, 1);
+      const passed = !match[2] && day < parts.day;
+      if (match[2] === "next" || passed) {
+        month = addMonths(month, 1);
+      }
+      // Skip months too short for the day, e.g. the 31st in November
+      for (let i = 0; i < 12; i++) {
+        const [year, monthNumber] = month.split("-").map(Number);
+        if (day <= daysInMonth(year, monthNumber)) {
+          setDate(toDate(year, monthNumber, day));
+          if (i > 0) {
+            assume(`${formatDay(date!)} is the next month with a ${ordinal(day)}`, 0.8);
+          } else if (passed) {
+            assume(
+              `${formatDay(date!)} is next month; the ${ordinal(day)} has passed this month`,
+              0.9
+            );
+          }
+          return;
+        }
+        month = addMonths(month, 1);
+      }
+      return false;
+    }
+  );
+
+  // Whole months: "in March", "next month" is handled above
+  take(`\\b(?:in|during|by|this|next) ${MONTH_PATTERN}\\b`, (match) => {
+    const month = MONTHS.indexOf(match[1].slice(0, 3)) + 1;
+    let year = parts.year;
+    if (month < parts.month) year += 1;
+    const first = toDate(year, month, 1);
+    range = {
+      start: first < today ? today : first,
+      lastDay: toDate(year, month, daysInMonth(year, month)),
+    };
+  });
+
+  const toWeekday = (name: string) =>
+    WEEKDAY_NAMES.findIndex((day) => day.startsWith(name.slice(0, 3)));
+
+  // Weekday ranges: "Mon-Wed", "next Monday to Wednesday", "Tuesday through Thursday"
+  take(
+    `\\b(?:(this|next|last|coming) )?${WEEKDAY_PATTERN} ?(?:-|to|through|thru|until|till) ?${WEEKDAY_PATTERN}\\b`,
+    (match) => {
+      const day = toWeekday(match[2]);
+      const last = toWeekday(match[3]);
+      if (day === last) return false;
+      const modifier =
+        match[1] === "coming" ? "this" : (match[1] as WeekdayModifier | undefined);
+      weekday = { day, modifier };
+      lastWeekday = last;
+    }
+  ) ||
+    // Weekdays: "Tuesday", "next Tuesday", "Tuesday after next"
+    take(
+      `\\b(?:(this|next|last|coming) )?${WEEKDAY_PATTERN}( after next)?\\b`,
+      (match) => {
+        const day = toWeekday(match[2]);
+        const modifier = match[3]
+          ? "after next"
+          : match[1] === "coming"
+          ? "this"
+          : (match[1] as WeekdayModifier | undefined);
+        weekday = { day, modifier };
+      }
+    );
+
+  // Time ranges: "from 3 to 4", "3-4pm", "between 2 and 4", "10am until noon"
+  const rangeTime = "(?:(\\d{1,2})(?::(\\d{2}))?(am|pm)?|(noon|midday|midnight))";
+  const parseRangeTime = (
+    match: string[],
+    offset: number
+  ): TimeOfDay | null => {
+    if (match[offset + 4]) {
+      return match[offset + 4] === "midnight"
+        ? { hour: 24, minute: 0, twentyFourHour: true }
+        : { hour: 12, minute: 0, meridiem: "pm" };
+    }
+    return parseTime(match[offset + 1], match[offset + 2], match[offset + 3]);
+  };
+  take(
+    `\\b(from|between|at)? ?${rangeTime} ?(?:-|to|until|till|and) ?${rangeTime}(?=\\s|$)`,
+    (match) => {
+      // "and" only means a range after "between"
+      if (match[0].includes(" and ") && match[1] !== "between") return false;
+      const start = parseRangeTime(match, 1);
+      const end = parseRangeTime(match, 5);
+      if (!start || !end) {
+        impossible = true;
+        return false;
+      }
+      startTime = start;
+      endTime = end;
+    }
+  );
+
+  // Single times: "at 3", "3pm", "15:00", "noon"
+  if (!startTime) {
+    take("\\b(?:at )?(noon|midday|midnight)\\b", (match) => {
+      startTime =
+        match[1] === "midnight"
+          ? { hour: 24, minute: 0, twentyFourHour: true }
+          : { hour: 12, minute: 0, meridiem: "pm" };
+    }) ||
+      take(`\\b(at|around|by|from) ${TIME_PATTERN}(?=\\s|$)`, (match) => {
+        const time = parseTime(match[2], match[3], match[4]);
+        if (!time) {
+          impossible = true;
+          return false;
+        }
+        startTime = time;
+      }) ||
+      take(
+        "\\b(\\d{1,2})(?::(\\d{2})(am|pm)?|(am|pm)|(?::(\\d{2}))? ?o'?clock)(?=\\s|$)",
+        (match) => {
+          const time = parseTime(match[1], match[2] ?? match[6], match[3] ?? match[4]);
+          if (!time) {
+            impossible = true;
+            return false;
+          }
+          startTime = time;
+        }
+      );
+  }
+
+  // "until 5" with no start
+  if (!startTime) {
+    take(`\\b(?:until|till) ${TIME_PATTERN}(?=\\s|$)`, (match) => {
+      const time = parseTime(match[1], match[2], match[3]);
+      if (!time) {
+        impossible = true;
+        return false;
+      }
+      endTime = time;
+    });
+  }
+
+  // Parts of the day: "tomorrow morning", "in the afternoon"
+  take(
+    "\\b(?:(this) |in the |at )?(morning|afternoon|evening|night|lunchtime|lunch)\\b",
+    (match) => {
+      period = PERIODS[match[2] === "lunchtime" ? "lunch" : match[2]];
+      if (match[1] === "this" && !date) setDate(today);
+    }
+  );
+
+  // Durations: "for 2 hours", "for an hour and a half", "for 45 minutes"
+  take(
+    `\\bfor ${amountPattern} (minute|min|hour|hr)s?( and a half)?\\b`,
+    (match) => {
+      const amount = parseNumber(match[1]) + (match[3] ? 0.5 : 0);
+      duration = Math.round(
+        match[2].startsWith("h") ? amount * 60 : amount
+      );
+    }
+  );
+
+  take("\\b(?:all[ -]day|(?:the )?(?:whole|full|entire) day)\\b", () => {
+    allDay = true;
+  });
+
+  const ignored = remaining
+    .split(" ")
+    .filter((word) => word && !FILLERS.has(word));
+  const hasTime = !!startTime || !!endTime || !!period;
+
+  if (impossible) {
+    return null;
+  }
+
+  if (!date && !range && !weekday && !instant && !hasTime && !allDay) {
+    return null;
+  }
+
+  if (ignored.length > 0) {
+    assume(`Ignored "${ignored.join(" ")}"`, 0.8);
+  }
+
+  const result = (
+    start: string,
+    end: string,
+    isAllDay: boolean
+  ): ParsedPhrase => ({
+    resolution: {
+      text,
+      start,
+      end,
+      allDay: isAllDay,
+      timeZone,
+      confidence: Math.round(confidence * 100) / 100,
+      notes,
+    },
+    complete: ignored.length === 0,
+  });
+
+  // Relative instants and ones with an explicit offset ignore any other date
+  if (instant) {
+    const end = new Date(instant.getTime() + (duration ?? defaultDuration) * 60 * 1000);
+    return result(toZonedIso(instant, timeZone), toZonedIso(end, timeZone), false);
+  }
+
+  if (weekday) {
+    date = resolveWeekday(weekday.day, weekday.modifier);
+    explicitDate = true;
+  }
+
+  if (dayOffset && (date || !range)) {
+    date = shiftDate(date ?? today, dayOffset.amount, dayOffset.unit);
+    explicitDate = true;
+  }
+
+  if (weekday && lastWeekday !== undefined) {
+    const lastDay = addDaysToDate(date!, (lastWeekday - weekday.day + 7) % 7);
+    if (!hasTime || allDay) {
+      return result(date!, lastDay, true);
+    }
+    // A time on several days is most likely a recurring event, which one start can't express
+    assume(
+      `${formatDay(date!)} to ${formatDay(lastDay)} is several days; took only the first. Book the others separately or as a recurring event`,
+      0.5
+    );
+  }
+
+  function resolveWeekday(day: number, modifier?: WeekdayModifier): string {
+    const name = WEEKDAY_NAMES[day][0].toUpperCase() + WEEKDAY_NAMES[day].slice(1);
+
+    // "Tuesday next week" picks the day inside the week
+    if (range?.monday) {
+      return addDaysToDate(range.monday, (day + 6) % 7);
+    }
+
+    const daysUntil = (day - parts.weekday + 7) % 7;
+    switch (modifier) {
+      case "this":
+        return addDaysToDate(today, daysUntil);
+      case "last":
+        return addDaysToDate(today, -((parts.weekday - day + 7) % 7 || 7));
+      case "after next":
+        return addDaysToDate(today, (daysUntil || 7) + 7);
+      case "next": {
+        const coming = daysUntil || 7;
+        // The coming one is still this week, so "next" most likely means the week after
+        if (coming <= 6 - mondayOffset) {
+          const value = addDaysToDate(today, coming + 7);
+          assume(
+            `"Next ${name}" taken as ${formatDay(value)}; this coming ${name} is ${formatDay(
+              addDaysToDate(today, coming)
+            )}`,
+            0.7
+          );
+          return value;
+        }
+        return addDaysToDate(today, coming);
+      }
+      default: {
+        if (daysUntil === 0) {
+          const value = addDaysToDate(today, 7);
+          assume(
+            `Today is ${name}; took next week's, ${formatDay(value)}. Say "today" if you meant today`,
+            0.8
+          );
+          return value;
+        }
+        return addDaysToDate(today, daysUntil);
+      }
+    }
+  }
+
+  // A range without a day or time is the answer itself
+  if (!date && range && !hasTime) {
+    return result(range.start, range.lastDay, true);
+  }
+  if (!date && range) {
+    date = range.start;
+    assume(`No day given; took the first day, ${formatDay(date)}`, 0.6);
+  }
+
+  if (!hasTime || allDay) {
+    const day = date ?? today;
+    return result(day, day, true);
+  }
+
+  let day = date ?? today;
+
+  // Hours on a 24-hour clock, filling in am/pm when nobody said it
+  const toHour = (time: TimeOfDay, after?: number): number => {
+    if (time.meridiem) {
+      return (time.hour % 12) + (time.meridiem === "pm" ? 12 : 0);
+    }
+    if (time.twentyFourHour) {
+      return time.hour;
+    }
+    if (after !== undefined) {
+      // End times take whichever reading comes first after the start
+      const morning = time.hour % 12;
+      return morning > after ? morning : morning + 12 > after ? morning + 12 : morning;
+    }
+    if (period) {
+      return period.start >= 12 && time.hour < 12 ? time.hour + 12 : time.hour;
+    }
+    return time.hour;
+  };
+
+  let startHour: number;
+  let startMinute = 0;
+  let endHour: number | undefined;
+  let endMinute = 0;
+
+  if (startTime) {
+    const inferred =
+      !startTime.meridiem && !startTime.twentyFourHour && !period;
+    if (inferred && endTime?.meridiem) {
+      // "3-4pm": the end's am/pm carries over when it fits
+      const endValue = toHour(endTime);
+      startHour =
+        startTime.hour % 12 + 12 <= endValue && endValue >= 12
+          ? (startTime.hour % 12) + 12
+          : startTime.hour % 12;
+    } else if (inferred) {
+      // Business hours: 7-11 in the morning, 12-6 in the afternoon
+      startHour =
+        startTime.hour >= 7 && startTime.hour <= 11
+          ? startTime.hour
+          : startTime.hour === 12
+          ? 12
+          : startTime.hour + 12;
+
+      // Today's time already passed, but the other half of the day hasn't
+      const alternative = startHour >= 12 ? startHour - 12 : startHour + 12;
+      const passed = (hour: number) =>
+        hour * 60 + startTime!.minute < parts.hour * 60 + parts.minute;
+      if (day === today && passed(startHour) && !passed(alternative) && alternative >= 12) {
+        startHour = alternative;
+      }
+      assume(
+        `Assumed ${formatHour(startHour, startTime.minute)}; say am or pm to be sure`,
+        0.8
+      );
+    } else {
+      startHour = toHour(startTime);
+    }
+    startMinute = startTime.minute;
+
+    if (endTime) {
+      endHour = toHour(endTime, startHour);
+      endMinute = endTime.minute;
+    }
+  } else if (endTime) {
+    // "until 5": from now
+    startHour = parts.hour;
+    startMinute = parts.minute;
+    endHour = toHour(endTime, startHour);
+    endMinute = endTime.minute;
+    assume("No start time given; starting now", 0.7);
+  } else {
+    startHour = period!.start;
+    if (duration === undefined) {
+      endHour = period!.end;
+    }
+    assume(
+      `${period!.name[0].toUpperCase() + period!.name.slice(1)} taken as ${formatHour(
+        period!.start,
+        0
+      )} to ${formatHour(period!.end, 0)}`,
+      0.8
+    );
+  }
+
+  // No date and the time has passed today: the next one is tomorrow
+  if (
+    !explicitDate &&
+    startHour * 60 + startMinute < parts.hour * 60 + parts.minute &&
+    !(endTime && !startTime)
+  ) {
+    day = addDaysToDate(day, 1);
+    assume(`That time has passed today; took tomorrow, ${formatDay(day)}`, 0.9);
+  } else if (
+    explicitDate &&
+    day === today &&
+    startHour * 60 + startMinute < parts.hour * 60 + parts.minute
+  ) {
+    assume("That time has already passed today", 0.8);
+  }
+
+  const toWallTime = (base: string, hour: number, minute: number) =>
+    `${addDaysToDate(base, Math.floor(hour / 24))}T${pad(hour % 24)}:${pad(minute)}`;
+  const wallTime = (base: string, hour: number, minute: number) =>
+    zonedTimeToUtc(toWallTime(base, hour, minute), timeZone);
+
+  // Around DST changes a wall time can be skipped (clocks go forward) or happen twice (clocks go back)
+  const checkWallTime = (
+    instant: Date,
+    base: string,
+    hour: number,
+    minute: number
+  ) => {
+    const wanted = toWallTime(base, hour, minute);
+    const label = `${formatHour(hour, minute)} on ${formatDay(wanted.slice(0, 10))}`;
+    const actual = getZonedParts(instant, timeZone);
+    if (formatZonedTime(instant, timeZone).slice(0, 16) !== wanted) {
+      assume(
+        `${label} doesn't exist in ${timeZone} because the clocks go forward; took ${formatHour(
+          actual.hour,
+          actual.minute
+        )}`,
+        0.6
+      );
+      return;
+    }
+
+    const oneDay = 24 * 60 * 60 * 1000;
+    const shift =
+      getTimeZoneOffset(new Date(instant.getTime() - oneDay), timeZone) -
+      getTimeZoneOffset(new Date(instant.getTime() + oneDay), timeZone);
+    const repeat = new Date(instant.getTime() + shift * 60 * 1000);
+    if (
+      shift > 0 &&
+      formatZonedTime(repeat, timeZone).slice(0, 16) === wanted
+    ) {
+      assume(
+        `${label} happens twice in ${timeZone} because the clocks go back; took the first (UTC${toZonedIso(
+          instant,
+          timeZone
+        ).slice(-6)})`,
+        0.6
+      );
+    }
+  };
+
+  const start = wallTime(day, startHour, startMinute);
+  checkWallTime(start, day, startHour, startMinute);
+
+  let end: Date;
+  if (endHour !== undefined) {
+    // "11pm to 1am" ends the next day
+    const endDay =
+      wallTime(day, endHour, endMinute) <= start ? addDaysToDate(day, 1) : day;
+    end = wallTime(endDay, endHour, endMinute);
+    checkWallTime(end, endDay, endHour, endMinute);
+  } else {
+    end = new Date(start.getTime() + (duration ?? defaultDuration) * 60 * 1000);
+  }
+
+  if (startHour >= 24) {
+    assume(`Midnight taken as the end of ${formatDay(day)}`, 0.9);
+  }
+
+  return result(toZonedIso(start, timeZone), toZonedIso(end, timeZone), false);
+}
@@ -0,0 +1,33 @@
+/**
+ * Google Calendar's event color palette, keyed by the colorId the API stores
+ * cssName is used for the iCalendar COLOR property (RFC 7986 wants a CSS color name)
+ */
+export const EVENT_COLORS: Record<
+  string,
+  { name: string; hex: string; cssName: string }
+> = {
+  "1": { name: "Lavender", hex: "#7986cb", cssName: "slateblue" },
+  "2": { name: "Sage", hex: "#33b679", cssName: "mediumseagreen" },
+  "3": { name: "Grape", hex: "#8e24aa", cssName: "darkorchid" },
+  "4": { name: "Flamingo", hex: "#e67c73", cssName: "salmon" },
+  "5": { name: "Banana", hex: "#f6bf26", cssName: "gold" },
+  "6": { name: "Tangerine", hex: "#f4511e", cssName: "orangered" },
+  "7": { name: "Peacock", hex: "#039be5", cssName: "deepskyblue" },
+  "8": { name: "Graphite", hex: "#616161", cssName: "dimgray" },
+  "9": { name: "Blueberry", hex: "#3f51b5", cssName: "royalblue" },
+  "10": { name: "Basil", hex: "#0b8043", cssName: "seagreen" },
+  "11": { name: "Tomato", hex: "#d50000", cssName: "red" },
+};
+
+export const EVENT_COLOR_IDS = Object.keys(EVENT_COLORS) as [
+  string,
+  ...string[]
+];
+
+/**
+ * Find the colorId for an iCalendar COLOR value
+ */
+export function getColorIdForCssName(cssName: string): string | undefined {
+  const name = cssName.toLowerCase();
+  return EVENT_COLOR_IDS.find((id) => EVENT_COLORS[id].cssName === name);
+}
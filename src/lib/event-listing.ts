@@ -0,0 +1,75 @@
+import type { CalendarEvent, CalendarProvider } from "./calendar-provider";
+import { describeRecurrenceLines } from "./rrule";
+import { getLastDay, isAllDay } from "./all-day";
+
+/**
+ * Events as /api/calendar/list returns them; .ics export and the feed use the same shape
+ */
+
+export type ListedEvent = CalendarEvent & {
+  allDay: boolean;
+  recurrenceDescription?: string;
+};
+
+/**
+ * All-day events report their last day inclusive, e.g. Mon-Wed ends on Wed
+ */
+export function toListedEvent(
+  event: CalendarEvent,
+  recurrence = event.recurrence
+): ListedEvent {
+  return {
+    ...event,
+    end: isAllDay(event) ? getLastDay(event) : event.end,
+    allDay: isAllDay(event),
+    recurrenceDescription: describeRecurrenceLines(recurrence, event.timeZone),
+  };
+}
+
+/**
+ * Format events for clients; instances describe their series' rule
+ * knownSeries holds rules already at hand (e.g. mirrored, null when the series has none);
+ * other series are looked up on the provider
+ */
+export async function formatListedEvents(
+  calendar: CalendarProvider,
+  events: CalendarEvent[],
+  calendarId?: string,
+  knownSeries: Record<string, string[] | null> = {}
+): Promise<ListedEvent[]> {
+  const seriesRecurrence = new Map<string, string[] | undefined>(
+    Object.entries(knownSeries).map(([seriesId, recurrence]) => [
+      seriesId,
+      recurrence ?? undefined,
+    ])
+  );
+
+  // Instances don't carry their series' rule, so look each other series up once
+  const seriesIds = Array.from(
+    new Set(
+      events
+        .map((event) => event.recurringEventId)
+        .filter((id): id is string => !!id && !seriesRecurrence.has(id))
+    )
+  );
+  await Promise.all(
+    seriesIds.map(async (seriesId) => {
+      try {
+        const series = await calendar.getEvent(seriesId, calendarId);
+        seriesRecurrence.set(seriesId, series.recurrence);
+      } catch (err) {
+        console.error("Failed to load recurring series:", err);
+      }
+    })
+  );
+
+  return events.map((event) =>
+    toListedEvent(
+      event,
+      event.recurrence ||
+        (event.recurringEventId
+          ? seriesRecurrence.get(event.recurringEventId)
+          : undefined)
+    )
+  );
+}
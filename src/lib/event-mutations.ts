@@ -0,0 +1,559 @@
+import { z } from "zod";
+import {
+  resolveCalendarId,
+  resolveTimeZone,
+  type CalendarEvent,
+  type CalendarEventInput,
+  type CalendarEventPatch,
+  type CalendarProvider,
+} from "./calendar-provider";
+import {
+  buildRecurrence,
+  describeRecurrenceLines,
+  recurrenceSchema,
+} from "./rrule";
+import {
+  deleteEventWithScope,
+  updateEventWithScope,
+} from "./recurrence-scope";
+import { remindersSchema, toEventReminders } from "./reminders";
+import { EVENT_COLOR_IDS } from "./event-colors";
+import { findConflicts, type EventConflict } from "./calendar-conflicts";
+import { isValidTimeZone, resolveDateTime } from "./timezone";
+import {
+  getLastDay,
+  isAllDay,
+  moveAllDayRange,
+  toAllDayRange,
+  toLocalDate,
+} from "./all-day";
+import { createUndoSnapshot, type UndoSnapshot } from "./undo";
+import {
+  previewCreate,
+  previewDelete,
+  previewUpdate,
+  type MutationPreview,
+} from "./mutation-preview";
+import {
+  DEFAULT_MEETING_MINUTES,
+  getSchedulingPreferences,
+  getSchedulingWarnings,
+} from "./scheduling-preferences";
+
+/**
+ * Create/update/delete as the API routes take them, shared by the single-event routes and /api/calendar/batch
+ * Validation and conflict checks live here; logging and HTTP responses stay in the routes
+ */
+
+const timeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, { message: "Unknown time zone" });
+
+export const createEventSchema = z.object({
+  calendarId: z.string().optional(),
+  title: z.string().min(1),
+  start: z.string(), // ISO 8601, local time like "2026-10-20T14:00", or a date when allDay
+  end: z.string().optional(), // Defaults to the user's meeting length; for all-day events the last day, inclusive
+  allDay: z.boolean().optional(),
+  timeZone: timeZoneSchema.optional(), // Zone for local times, defaults to the user's timezone
+  location: z.string().optional(),
+  attendees: z.array(z.string().email()).optional(),
+  description: z.string().optional(), // Notes shown with the event
+  colorId: z.enum(EVENT_COLOR_IDS).optional(), // Google event color, "1"-"11"
+  visibility: z.enum(["default", "public", "private"]).optional(),
+  transparency: z.enum(["busy", "free"]).optional(), // Free events don't block time
+  reminders: remindersSchema.optional(), // e.g. popup 30 minutes before
+  addVideoCall: z.boolean().optional(), // Attach a Google Meet link
+  recurrence: recurrenceSchema.optional(),
+  allowConflicts: z.boolean().optional(), // Book even if it overlaps other events
+});
+
+export const updateEventSchema = z.object({
+  eventId: z.string().min(1),
+  calendarId: z.string().optional(),
+  title: z.string().min(1).optional(),
+  start: z.string().optional(), // ISO 8601, local time like "2026-10-20T14:00", or a date when all-day
+  end: z.string().optional(), // For all-day events the last day, inclusive
+  allDay: z.boolean().optional(), // Switch between all-day and timed
+  timeZone: timeZoneSchema.optional(), // Zone for local times; also moves the event to this zone
+  location: z.string().optional(),
+  attendees: z.array(z.string().email()).optional(),
+  description: z.string().optional(), // Notes shown with the event
+  colorId: z.enum(EVENT_COLOR_IDS).optional(), // Google event color, "1"-"11"
+  visibility: z.enum(["default", "public", "private"]).optional(),
+  transparency: z.enum(["busy", "free"]).optional(), // Free events don't block time
+  reminders: remindersSchema.optional(), // e.g. popup 30 minutes before
+  addVideoCall: z.boolean().optional(), // true adds a Google Meet link, false removes it
+  recurrence: recurrenceSchema.optional(),
+  scope: z.enum(["this", "following", "all"]).optional(), // For occurrences of a recurring event
+  allowConflicts: z.boolean().optional(), // Move even if it overlaps other events
+});
+
+export const deleteEventSchema = z.object({
+  eventId: z.string().min(1),
+  calendarId: z.string().optional(),
+  scope: z.enum(["this", "following", "all"]).optional(), // For occurrences of a recurring event
+});
+
+export type CreateEventRequest = z.infer<typeof createEventSchema>;
+export type UpdateEventRequest = z.infer<typeof updateEventSchema>;
+export type DeleteEventRequest = z.infer<typeof deleteEventSchema>;
+
+/**
+ * An applied mutation: details is what gets logged, snapshot is what undo needs
+ */
+export interface AppliedMutation {
+  conflicted: false;
+  dryRun?: false;
+  event: CalendarEvent;
+  conflicts: EventConflict[];
+  warnings?: string[]; // Ways the booking goes against the user's scheduling preferences
+  details: Record<string, unknown>;
+  snapshot: UndoSnapshot;
+}
+
+/**
+ * A dry run: what the mutation would do, with nothing applied
+ */
+export interface PreviewedMutation {
+  conflicted: false;
+  dryRun: true;
+  preview: MutationPreview;
+}
+
+// Creates and moves can be blocked by overlapping events
+export type MutationResult =
+  | { conflicted: true; conflicts: EventConflict[] }
+  | PreviewedMutation
+  | AppliedMutation;
+
+export interface MutationOptions {
+  dryRun?: boolean; // Preview the change without applying it
+}
+
+/**
+ * Errors caused by the request rather than the calendar backend
+ */
+export function isBadRequestError(message: string): boolean {
+  return (
+    message.startsWith("Invalid date-time") ||
+    message === "start and end times are required to make an all-day event timed"
+  );
+}
+
+/**
+ * Event fields as the create/update routes return them
+ * All-day events report their last day inclusive
+ */
+export function formatEventResult(event: CalendarEvent) {
+  return {
+    id: event.id,
+    calendarId: event.calendarId,
+    title: event.title,
+    start: event.start,
+    end: isAllDay(event) ? getLastDay(event) : event.end,
+    allDay: isAllDay(event),
+    timeZone: event.timeZone,
+    description: event.description,
+    colorId: event.colorId,
+    visibility: event.visibility,
+    transparency: event.transparency,
+    reminders: event.reminders,
+    conference: event.conference,
+    recurrence: describeRecurrenceLines(event.recurrence, event.timeZone),
+  };
+}
+
+export async function createCalendarEvent(
+  calendar: CalendarProvider,
+  userId: string,
+  validated: CreateEventRequest,
+  options: MutationOptions = {}
+): Promise<MutationResult> {
+  const calendarId = await resolveCalendarId(userId, validated.calendarId);
+
+  // Local wall-clock times are resolved in the event's timezone, DST included
+  const timeZone = await resolveTimeZone(userId, validated.timeZone);
+  const allDay = !!validated.allDay;
+  const preferences = await getSchedulingPreferences(userId);
+  let start: string;
+  let end: string;
+
+  if (allDay) {
+    ({ start, end } = toAllDayRange(
+      toLocalDate(validated.start, timeZone),
+      toLocalDate(validated.end ?? validated.start, timeZone)
+    ));
+  } else {
+    start = resolveDateTime(validated.start, timeZone);
+    // Without an end the event gets the user's usual meeting length
+    end =
+      validated.end !== undefined
+        ? resolveDateTime(validated.end, timeZone)
+        : new Date(
+            new Date(start).getTime() +
+              (preferences.defaultDurationMinutes ?? DEFAULT_MEETING_MINUTES) *
+                60 *
+                1000
+          ).toISOString();
+  }
+
+  if (!allDay && new Date(end) <= new Date(start)) {
+    throw new Error("Invalid date-time: end must be after start");
+  }
+
+  // Refuse to double-book unless the caller explicitly allows it
+  // All-day and free events are informational, so they never conflict;
+  // allowed conflicts are only looked up for the preview
+  const conflicts =
+    allDay ||
+    validated.transparency === "free" ||
+    (validated.allowConflicts && !options.dryRun)
+      ? []
+      : await findConflicts(calendar, {
+          start,
+          end,
+          calendarId,
+        });
+
+  if (conflicts.length > 0 && !validated.allowConflicts) {
+    return { conflicted: true, conflicts };
+  }
+
+  const warnings =
+    allDay || validated.transparency === "free"
+      ? []
+      : await getSchedulingWarnings(calendar, preferences, {
+          start,
+          end,
+          timeZone,
+          calendarId,
+        });
+
+  const event: CalendarEventInput = {
+    title: validated.title,
+    start,
+    end,
+    timeZone: allDay ? undefined : timeZone,
+  };
+
+  if (validated.location) {
+    event.location = validated.location;
+  }
+
+  if (validated.attendees && validated.attendees.length > 0) {
+    event.attendees = validated.attendees;
+  }
+
+  if (validated.description) {
+    event.description = validated.description;
+  }
+
+  if (validated.colorId) {
+    event.colorId = validated.colorId;
+  }
+
+  if (validated.visibility) {
+    event.visibility = validated.visibility;
+  }
+
+  if (validated.transparency) {
+    event.transparency = validated.transparency;
+  }
+
+  if (validated.addVideoCall) {
+    event.addVideoCall = true;
+  }
+
+  if (validated.reminders) {
+    event.reminders = toEventReminders(validated.reminders);
+  }
+
+  if (validated.recurrence) {
+    event.recurrence = buildRecurrence(validated.recurrence, {
+      allDay,
+      timeZone,
+    });
+  }
+
+  if (options.dryRun) {
+    return {
+      conflicted: false,
+      dryRun: true,
+      preview: { ...previewCreate(event, conflicts, timeZone), warnings },
+    };
+  }
+
+  const created = await calendar.createEvent(event, calendarId);
+  const snapshot = createUndoSnapshot();
+  snapshot.created.push(created);
+
+  return {
+    conflicted: false,
+    event: created,
+    conflicts,
+    warnings,
+    snapshot,
+    details: {
+      calendarId: created.calendarId,
+      title: validated.title,
+      start,
+      end,
+      allDay,
+      timeZone,
+      location: validated.location,
+      attendees: validated.attendees,
+      description: validated.description,
+      colorId: validated.colorId,
+      visibility: validated.visibility,
+      transparency: validated.transparency,
+      reminders: event.reminders,
+      addVideoCall: validated.addVideoCall,
+      recurrence: event.recurrence,
+    },
+  };
+}
+
+export async function updateCalendarEvent(
+  calendar: CalendarProvider,
+  userId: string,
+  validated: UpdateEventRequest,
+  options: MutationOptions = {}
+): Promise<MutationResult> {
+  const calendarId = await resolveCalendarId(userId, validated.calendarId);
+
+  // Local wall-clock times are resolved in the given zone or the user's timezone
+  const timeZone = await resolveTimeZone(userId, validated.timeZone);
+
+  let start: string | undefined;
+  let end: string | undefined;
+  let allDay: boolean | undefined;
+  let conflicts: EventConflict[] = [];
+  let warnings: string[] = [];
+
+  if (
+    validated.start !== undefined ||
+    validated.end !== undefined ||
+    validated.allDay !== undefined
+  ) {
+    const existing = await calendar.getEvent(validated.eventId, calendarId);
+    const wasAllDay = isAllDay(existing);
+    allDay = validated.allDay ?? wasAllDay;
+
+    if (allDay) {
+      const startDate = toLocalDate(validated.start ?? existing.start, timeZone);
+
+      // Moving only the start of an all-day event keeps its length
+      ({ start, end } =
+        validated.end !== undefined
+          ? toAllDayRange(startDate, toLocalDate(validated.end, timeZone))
+          : wasAllDay
+          ? moveAllDayRange(existing, startDate)
+          : toAllDayRange(startDate, startDate));
+    } else {
+      if (
+        wasAllDay &&
+        (validated.start === undefined || validated.end === undefined)
+      ) {
+        throw new Error(
+          "start and end times are required to make an all-day event timed"
+        );
+      }
+
+      if (validated.start !== undefined) {
+        start = resolveDateTime(validated.start, timeZone);
+      }
+      if (validated.end !== undefined) {
+        end = resolveDateTime(validated.end, timeZone);
+      }
+      if (new Date(end ?? existing.end) <= new Date(start ?? existing.start)) {
+        throw new Error("Invalid date-time: end must be after start");
+      }
+
+      // Only a time change can introduce a new overlap, and free events never do;
+      // allowed conflicts are only looked up for the preview
+      const isFree =
+        (validated.transparency ?? existing.transparency) === "free";
+      if (!isFree && !(validated.allowConflicts && !options.dryRun)) {
+        conflicts = await findConflicts(calendar, {
+          start: start ?? existing.start,
+          end: end ?? existing.end,
+          calendarId,
+          excludeEventId: validated.eventId,
+        });
+      }
+
+      if (conflicts.length > 0 && !validated.allowConflicts) {
+        return { conflicted: true, conflicts };
+      }
+
+      if (!isFree) {
+        warnings = await getSchedulingWarnings(
+          calendar,
+          await getSchedulingPreferences(userId),
+          {
+            start: start ?? existing.start,
+            end: end ?? existing.end,
+            timeZone,
+            calendarId,
+            excludeEventId: validated.eventId,
+          }
+        );
+      }
+    }
+  }
+
+  const changes: CalendarEventPatch = {};
+
+  if (validated.title !== undefined) {
+    changes.title = validated.title;
+  }
+
+  if (start !== undefined) {
+    changes.start = start;
+  }
+
+  if (end !== undefined) {
+    changes.end = end;
+  }
+
+  if (validated.timeZone !== undefined) {
+    changes.timeZone = validated.timeZone;
+  }
+
+  if (validated.location !== undefined) {
+    changes.location = validated.location;
+  }
+
+  if (validated.attendees !== undefined) {
+    changes.attendees = validated.attendees;
+  }
+
+  if (validated.description !== undefined) {
+    changes.description = validated.description;
+  }
+
+  if (validated.colorId !== undefined) {
+    changes.colorId = validated.colorId;
+  }
+
+  if (validated.visibility !== undefined) {
+    changes.visibility = validated.visibility;
+  }
+
+  if (validated.transparency !== undefined) {
+    changes.transparency = validated.transparency;
+  }
+
+  if (validated.addVideoCall !== undefined) {
+    changes.addVideoCall = validated.addVideoCall;
+  }
+
+  if (validated.reminders !== undefined) {
+    changes.reminders = toEventReminders(validated.reminders);
+  }
+
+  if (validated.recurrence !== undefined) {
+    // UNTIL has to match the event's date or date-time type,
+    // and local times in the rule are in the event's timezone
+    const existing = await calendar.getEvent(validated.eventId, calendarId);
+    changes.recurrence = buildRecurrence(validated.recurrence, {
+      allDay: allDay ?? isAllDay(existing),
+      timeZone: validated.timeZone ?? existing.timeZone ?? timeZone,
+    });
+  }
+
+  if (options.dryRun) {
+    const existing = await calendar.getEvent(validated.eventId, calendarId);
+    return {
+      conflicted: false,
+      dryRun: true,
+      preview: {
+        ...previewUpdate(
+          existing,
+          changes,
+          conflicts,
+          timeZone,
+          validated.scope
+        ),
+        warnings,
+      },
+    };
+  }
+
+  const snapshot = createUndoSnapshot();
+  const updated = await updateEventWithScope(
+    calendar,
+    validated.eventId,
+    changes,
+    { scope: validated.scope, calendarId, snapshot }
+  );
+
+  return {
+    conflicted: false,
+    event: updated,
+    conflicts,
+    warnings,
+    snapshot,
+    details: {
+      calendarId: updated.calendarId,
+      scope: validated.scope,
+      changes: {
+        title: validated.title,
+        start,
+        end,
+        allDay: validated.allDay,
+        timeZone: validated.timeZone,
+        location: validated.location,
+        attendees: validated.attendees,
+        description: validated.description,
+        colorId: validated.colorId,
+        visibility: validated.visibility,
+        transparency: validated.transparency,
+        reminders: validated.reminders,
+        addVideoCall: validated.addVideoCall,
+        recurrence: validated.recurrence,
+      },
+    },
+  };
+}
+
+export async function deleteCalendarEvent(
+  calendar: CalendarProvider,
+  userId: string,
+  validated: DeleteEventRequest,
+  options: MutationOptions = {}
+): Promise<AppliedMutation | PreviewedMutation> {
+  const calendarId = await resolveCalendarId(userId, validated.calendarId);
+
+  if (options.dryRun) {
+    const event = await calendar.getEvent(validated.eventId, calendarId);
+    const timeZone = await resolveTimeZone(userId);
+    return {
+      conflicted: false,
+      dryRun: true,
+      preview: previewDelete(event, timeZone, validated.scope),
+    };
+  }
+
+  const snapshot = createUndoSnapshot();
+  const deleted = await deleteEventWithScope(calendar, validated.eventId, {
+    scope: validated.scope,
+    calendarId,
+    snapshot,
+  });
+
+  return {
+    conflicted: false,
+    event: deleted,
+    conflicts: [],
+    snapshot,
+    details: {
+      calendarId: deleted.calendarId,
+      eventId: validated.eventId,
+      title: deleted.title,
+      start: deleted.start,
+      scope: validated.scope,
+    },
+  };
+}
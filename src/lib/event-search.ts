@@ -0,0 +1,192 @@
+/**
+ * Fuzzy event search used by the providers that can't search server-side and by find_events ranking
+ * Every search word has to match somewhere; typos of a letter or two still count
+ */
+
+export interface EventSearchFilters {
+  query?: string; // Title, description, location, attendees
+  attendee?: string; // Attendee or organizer name or email
+  location?: string;
+}
+
+interface SearchableEvent {
+  title: string;
+  description?: string;
+  location?: string;
+  attendees?: { email: string; displayName?: string }[];
+  organizer?: { email: string; displayName?: string };
+}
+
+// How much a match in each field counts towards the query score
+const FIELD_WEIGHTS = {
+  title: 3,
+  attendees: 2,
+  location: 2,
+  description: 1,
+};
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents: "café" matches "cafe"
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Edit distance, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well one search word matches a list of words, from 0 to 1
+ */
+export function matchWord(word: string, words: string[]): number {
+  let best = 0;
+  for (const candidate of words) {
+    if (candidate === word) return 1;
+    if (candidate.startsWith(word)) {
+      best = Math.max(best, 0.8);
+    } else if (word.length >= 3 && candidate.includes(word)) {
+      best = Math.max(best, 0.6);
+    } else if (word.length >= 4) {
+      const allowed = word.length >= 7 ? 2 : 1;
+      if (editDistance(word, candidate, allowed) <= allowed) {
+        best = Math.max(best, 0.5);
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Score of the search words against weighted fields; 0 unless every word matches
+ */
+function scoreFields(
+  search: string,
+  fields: { words: string[]; weight: number }[]
+): number {
+  let score = 0;
+  for (const word of tokenize(search)) {
+    const best = Math.max(
+      ...fields.map((field) => matchWord(word, field.words) * field.weight)
+    );
+    if (best === 0) return 0;
+    score += best;
+  }
+  return score;
+}
+
+function getPeopleWords(event: SearchableEvent): string[] {
+  const people = [
+    ...(event.attendees || []),
+    ...(event.organizer ? [event.organizer] : []),
+  ];
+  return people.flatMap((person) =>
+    tokenize(`${person.displayName || ""} ${person.email}`)
+  );
+}
+
+/**
+ * Relevance of an event for the filters; 0 means it doesn't match
+ * Events match everything when no filters are given
+ */
+export function scoreEvent(
+  event: SearchableEvent,
+  filters: EventSearchFilters
+): number {
+  let score = 1;
+
+  if (filters.query?.trim()) {
+    const queryScore = scoreFields(filters.query, [
+      { words: tokenize(event.title), weight: FIELD_WEIGHTS.title },
+      { words: getPeopleWords(event), weight: FIELD_WEIGHTS.attendees },
+      { words: tokenize(event.location || ""), weight: FIELD_WEIGHTS.location },
+      {
+        words: tokenize(event.description || ""),
+        weight: FIELD_WEIGHTS.description,
+      },
+    ]);
+    if (queryScore === 0) return 0;
+    score += queryScore;
+  }
+
+  if (filters.attendee?.trim()) {
+    const attendeeScore = scoreFields(filters.attendee, [
+      { words: getPeopleWords(event), weight: 1 },
+    ]);
+    if (attendeeScore === 0) return 0;
+    score += attendeeScore;
+  }
+
+  if (filters.location?.trim()) {
+    const locationScore = scoreFields(filters.location, [
+      { words: tokenize(event.location || ""), weight: 1 },
+    ]);
+    if (locationScore === 0) return 0;
+    score += locationScore;
+  }
+
+  return score;
+}
+
+export function hasSearchFilters(filters: EventSearchFilters): boolean {
+  return !!(
+    filters.query?.trim() ||
+    filters.attendee?.trim() ||
+    filters.location?.trim()
+  );
+}
+
+/**
+ * Matching events, best match first (ties keep their order, which is by start time)
+ */
+export function rankEvents<T extends SearchableEvent>(
+  events: T[],
+  filters: EventSearchFilters
+): T[] {
+  return events
+    .map((event, index) => ({ event, index, score: scoreEvent(event, filters) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ event }) => event);
+}
+
+/**
+ * Page through an already filtered list; page tokens are offsets
+ */
+export function paginateEvents<T>(
+  events: T[],
+  options: { maxResults?: number; pageToken?: string }
+): { events: T[]; nextPageToken?: string } {
+  const offset = Math.max(parseInt(options.pageToken || "0", 10) || 0, 0);
+  if (!options.maxResults) {
+    return { events: events.slice(offset) };
+  }
+
+  const end = offset + options.maxResults;
+  return {
+    events: events.slice(offset, end),
+    nextPageToken: end < events.length ? String(end) : undefined,
+  };
+}
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import type { Doc } from "convex/_generated/dataModel";
+import { EVENT_COLOR_IDS } from "./event-colors";
+import { remindersSchema } from "./reminders";
+import { formatZonedTime, isValidTimeZone, resolveDateTime } from "./timezone";
+import { createEventSchema, type CreateEventRequest } from "./event-mutations";
+
+/**
+ * Event templates: the fields of events created over and over ("standup", "1:1 with Sam")
+ * Expanding a template gives a normal create request, so creates from templates
+ * get the same conflict checks, previews and undo as any other create
+ */
+
+export type EventTemplate = Doc<"eventTemplates">;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?$/;
+
+export const eventTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(60), // What the user calls it, e.g. "standup"
+  title: z.string().min(1), // Title of the events it creates
+  durationMinutes: z.number().int().min(5).max(24 * 60),
+  startTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:mm")
+    .optional(), // Usual local start, used when only a date is given
+  calendarId: z.string().optional(),
+  location: z.string().optional(),
+  attendees: z.array(z.string().email()).optional(),
+  description: z.string().optional(),
+  colorId: z.enum(EVENT_COLOR_IDS).optional(),
+  visibility: z.enum(["default", "public", "private"]).optional(),
+  transparency: z.enum(["busy", "free"]).optional(),
+  reminders: remindersSchema.optional(),
+  addVideoCall: z.boolean().optional(),
+});
+
+export type EventTemplateInput = z.infer<typeof eventTemplateSchema>;
+
+export const expandTemplateSchema = z.object({
+  template: z.string().min(1), // Template name or id
+  start: z.string(), // Local time, ISO 8601, or a date to use the template's start time
+  end: z.string().optional(), // Defaults to start plus the template's duration
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Unknown time zone" })
+    .optional(),
+  // Per-event changes to the template
+  title: z.string().min(1).optional(),
+  calendarId: z.string().optional(),
+  location: z.string().optional(),
+  description: z.string().optional(),
+  attendees: z.array(z.string().email()).optional(), // Invited on top of the template's
+});
+
+export type ExpandTemplateRequest = z.infer<typeof expandTemplateSchema>;
+
+/**
+ * Template as the templates routes return it
+ */
+export function formatTemplate(template: EventTemplate) {
+  return {
+    id: template._id,
+    name: template.name,
+    title: template.title,
+    durationMinutes: template.durationMinutes,
+    startTime: template.startTime,
+    calendarId: template.calendarId,
+    location: template.location,
+    attendees: template.attendees,
+    description: template.description,
+    colorId: template.colorId,
+    visibility: template.visibility,
+    transparency: template.transparency,
+    reminders: template.reminders,
+    addVideoCall: template.addVideoCall,
+  };
+}
+
+/**
+ * Lowercased words of a name, without "my", "usual" and the like
+ */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}:]+/gu, " ")
+    .replace(/\b(my|our|the|usual|regular)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Whether another template already uses this name
+ */
+export function hasTemplateNamed(
+  templates: EventTemplate[],
+  name: string,
+  exceptId?: string
+): boolean {
+  const wanted = name.trim().toLowerCase();
+  return templates.some(
+    (template) =>
+      template._id !== exceptId && template.name.trim().toLowerCase() === wanted
+  );
+}
+
+/**
+ * Find the template meant by an id or a spoken name ("my usual standup")
+ * Exact names win, then a name contained in what was said (or containing it);
+ * undefined when nothing or more than one template matches, so the user can pick
+ */
+export function findTemplate(
+  templates: EventTemplate[],
+  query: string
+): EventTemplate | undefined {
+  const byId = templates.find((template) => template._id === query);
+  if (byId) {
+    return byId;
+  }
+
+  const wanted = normalizeName(query);
+  if (!wanted) {
+    return undefined;
+  }
+
+  const exact = templates.find(
+    (template) => normalizeName(template.name) === wanted
+  );
+  if (exact) {
+    return exact;
+  }
+
+  const matches = templates.filter((template) => {
+    const name = normalizeName(template.name);
+    return name && (wanted.includes(name) || name.includes(wanted));
+  });
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Create request for an event from a template
+ * A date-only start uses the template's usual start time; the end follows from its duration
+ */
+export function expandTemplate(
+  template: EventTemplate,
+  request: ExpandTemplateRequest,
+  timeZone: string
+): CreateEventRequest {
+  let start = request.start;
+  if (DATE_ONLY.test(start)) {
+    if (!template.startTime) {
+      throw new Error(
+        `Invalid date-time: "${template.name}" has no usual start time, so start needs a time`
+      );
+    }
+    start = `${start}T${template.startTime}`;
+  }
+
+  let end = request.end;
+  if (end === undefined) {
+    const endTime = new Date(
+      new Date(resolveDateTime(start, timeZone)).getTime() +
+        template.durationMinutes * 60 * 1000
+    );
+    // Keep local starts local, so the request reads the way it was given
+    end = LOCAL_DATE_TIME.test(start)
+      ? formatZonedTime(endTime, timeZone)
+      : endTime.toISOString();
+  }
+
+  const attendees = [
+    ...(template.attendees ?? []),
+    ...(request.attendees ?? []),
+  ].filter((email, index, all) => all.indexOf(email) === index);
+
+  return createEventSchema.parse({
+    calendarId: request.calendarId ?? template.calendarId,
+    title: request.title ?? template.title,
+    start,
+    end,
+    timeZone: request.timeZone,
+    location: request.location ?? template.location,
+    attendees: attendees.length > 0 ? attendees : undefined,
+    description: request.description ?? template.description,
+    colorId: template.colorId,
+    visibility: template.visibility,
+    transparency: template.transparency,
+    reminders: template.reminders,
+    addVideoCall: template.addVideoCall,
+  });
+}
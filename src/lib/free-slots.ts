@@ -0,0 +1,202 @@
+import type { BusyInterval } from "./calendar-provider";
+import { mergeBusyIntervals } from "./busy-intervals";
+import {
+  addDaysToDate,
+  getZonedDate,
+  getZonedParts,
+  zonedTimeToUtc,
+} from "./timezone";
+
+/**
+ * Finds and ranks free meeting slots from a list of busy intervals
+ */
+
+export interface WorkingHours {
+  start: string; // "09:00"
+  end: string; // "17:00"
+  days?: number[]; // 0 = Sunday, defaults to Monday-Friday
+}
+
+export interface DailyWorkingHours {
+  day: number; // 0 = Sunday
+  start: string; // "09:00"
+  end: string; // "17:00"
+}
+
+export interface FindFreeSlotsOptions {
+  windowStart: string; // ISO 8601
+  windowEnd: string; // ISO 8601
+  durationMinutes: number;
+  busy: BusyInterval[];
+  timeZone?: string; // IANA zone used for working hours, defaults to UTC
+  workingHours?: WorkingHours | DailyWorkingHours[]; // Same hours on several days, or hours per weekday
+  minGapMinutes?: number; // Buffer to keep before and after busy blocks
+  maxResults?: number;
+}
+
+export interface FreeSlot {
+  start: string;
+  end: string;
+  score: number; // 0-1, higher is better
+}
+
+const MINUTE = 60 * 1000;
+const SLOT_STEP_MINUTES = 15;
+const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+/**
+ * Working-hours windows (in epoch ms) that fall inside the search window
+ */
+function getAllowedRanges(options: FindFreeSlotsOptions): Range[] {
+  const windowStart = new Date(options.windowStart).getTime();
+  const windowEnd = new Date(options.windowEnd).getTime();
+
+  if (!options.workingHours) {
+    return [{ start: windowStart, end: windowEnd }];
+  }
+
+  const timeZone = options.timeZone || "UTC";
+  const hours = options.workingHours;
+  const dailyHours = Array.isArray(hours)
+    ? hours
+    : (hours.days ?? DEFAULT_WORKING_DAYS).map((day) => ({
+        day,
+        start: hours.start,
+        end: hours.end,
+      }));
+  const ranges: Range[] = [];
+
+  const lastDate = getZonedDate(new Date(windowEnd), timeZone);
+  for (
+    let date = getZonedDate(new Date(windowStart), timeZone);
+    date <= lastDate;
+    date = addDaysToDate(date, 1)
+  ) {
+    const weekday = getZonedParts(
+      zonedTimeToUtc(`${date}T12:00`, timeZone),
+      timeZone
+    ).weekday;
+
+    const todaysHours = dailyHours.filter((entry) => entry.day === weekday);
+    for (const { start, end } of todaysHours) {
+      const dayStart = zonedTimeToUtc(`${date}T${start}`, timeZone).getTime();
+      const dayEnd = zonedTimeToUtc(`${date}T${end}`, timeZone).getTime();
+
+      const rangeStart = Math.max(dayStart, windowStart);
+      const rangeEnd = Math.min(dayEnd, windowEnd);
+      if (rangeEnd > rangeStart) {
+        ranges.push({ start: rangeStart, end: rangeEnd });
+      }
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Subtract busy blocks from allowed ranges
+ */
+function subtractBusy(ranges: Range[], busy: Range[]): Range[] {
+  const free: Range[] = [];
+
+  for (const range of ranges) {
+    let cursor = range.start;
+    for (const block of busy) {
+      if (block.end <= cursor || block.start >= range.end) continue;
+      if (block.start > cursor) {
+        free.push({ start: cursor, end: block.start });
+      }
+      cursor = Math.max(cursor, block.end);
+    }
+    if (cursor < range.end) {
+      free.push({ start: cursor, end: range.end });
+    }
+  }
+
+  return free;
+}
+
+/**
+ * Score a candidate: sooner is better, round start times (on the local clock) are better,
+ * and slots with breathing room around them beat ones squeezed between meetings
+ */
+function scoreSlot(
+  slot: Range,
+  freeRange: Range,
+  windowStart: number,
+  windowEnd: number,
+  timeZone: string
+): number {
+  const soonness = 1 - (slot.start - windowStart) / (windowEnd - windowStart);
+
+  // Zones like Asia/Kolkata are off the hour from UTC
+  const minutes = getZonedParts(new Date(slot.start), timeZone).minute;
+  const alignment = minutes === 0 ? 1 : minutes === 30 ? 0.6 : 0.2;
+
+  const roomBefore = (slot.start - freeRange.start) / MINUTE;
+  const roomAfter = (freeRange.end - slot.end) / MINUTE;
+  const breathingRoom = Math.min(Math.min(roomBefore, roomAfter), 60) / 60;
+
+  return 0.5 * soonness + 0.25 * alignment + 0.25 * breathingRoom;
+}
+
+export function findFreeSlots(options: FindFreeSlotsOptions): FreeSlot[] {
+  const windowStart = new Date(options.windowStart).getTime();
+  const windowEnd = new Date(options.windowEnd).getTime();
+  const duration = options.durationMinutes * MINUTE;
+  const gap = (options.minGapMinutes || 0) * MINUTE;
+  const maxResults = options.maxResults || 5;
+
+  // Pad busy blocks by the minimum gap so slots never touch a meeting
+  const busy = mergeBusyIntervals(options.busy).map((interval) => ({
+    start: new Date(interval.start).getTime() - gap,
+    end: new Date(interval.end).getTime() + gap,
+  }));
+
+  const freeRanges = subtractBusy(getAllowedRanges(options), busy);
+
+  const candidates: (Range & { score: number })[] = [];
+  const step = SLOT_STEP_MINUTES * MINUTE;
+
+  for (const range of freeRanges) {
+    // Start on the first quarter hour inside the free range
+    let start = Math.ceil(range.start / step) * step;
+    while (start + duration <= range.end) {
+      const slot = { start, end: start + duration };
+      candidates.push({
+        ...slot,
+        score: scoreSlot(
+          slot,
+          range,
+          windowStart,
+          windowEnd,
+          options.timeZone || "UTC"
+        ),
+      });
+      start += step;
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.start - b.start);
+
+  // Skip candidates overlapping an already chosen slot so the options are distinct
+  const chosen: (Range & { score: number })[] = [];
+  for (const candidate of candidates) {
+    if (chosen.length >= maxResults) break;
+    if (chosen.some((c) => candidate.start < c.end && candidate.end > c.start)) {
+      continue;
+    }
+    chosen.push(candidate);
+  }
+
+  return chosen.map((slot) => ({
+    start: new Date(slot.start).toISOString(),
+    end: new Date(slot.end).toISOString(),
+    score: Math.round(slot.score * 100) / 100,
+  }));
+}
@@ -0,0 +1,558 @@
+import { randomUUID } from "crypto";
+import { google, calendar_v3 } from "googleapis";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import type {
+  AttendeeResponseStatus,
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarEventPatch,
+  CalendarProvider,
+  EventVisibility,
+} from "./calendar-provider";
+import { mergeBusyIntervals } from "./busy-intervals";
+import { scoreEvent } from "./event-search";
+import { markMirrorStale } from "./calendar-mirror";
+import { DEFAULT_RETRY_BUDGET_MS, withGoogleRetry } from "./google-retry";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Helper function to delete invalid tokens
+ */
+async function deleteInvalidTokens(userId: string) {
+  await client.mutation(api.tokens.deleteUserTokens, {
+    clerkUserId: userId,
+  });
+}
+
+/**
+ * Get Google Calendar client with refreshed tokens
+ * Handles invalid_grant errors by deleting tokens and throwing a specific error
+ */
+export async function getCalendarClient(userId: string) {
+  // Get tokens from Convex
+  const tokens = await client.query(api.tokens.getUserTokens, {
+    clerkUserId: userId,
+  });
+
+  if (!tokens) {
+    throw new Error("Google Calendar not connected");
+  }
+
+  const oauth2Client = new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    process.env.GOOGLE_OAUTH_REDIRECT
+  );
+
+  // Check if token needs refresh
+  const now = Date.now();
+  if (tokens.expiryTimestamp - now < 5 * 60 * 1000) {
+    // Refresh token
+    oauth2Client.setCredentials({
+      refresh_token: tokens.refreshToken,
+    });
+
+    try {
+      const { credentials } = await oauth2Client.refreshAccessToken();
+
+      if (!credentials.access_token) {
+        // No access token returned, delete invalid tokens
+        await deleteInvalidTokens(userId);
+        throw new Error("TOKEN_INVALID");
+      }
+
+      // Update tokens in Convex
+      await client.mutation(api.tokens.upsertUserTokens, {
+        clerkUserId: userId,
+        accessToken: credentials.access_token,
+        refreshToken: credentials.refresh_token || tokens.refreshToken,
+        expiryTimestamp: credentials.expiry_date || Date.now() + 3600 * 1000,
+      });
+
+      oauth2Client.setCredentials({
+        access_token: credentials.access_token,
+        refresh_token: credentials.refresh_token || tokens.refreshToken,
+      });
+    } catch (error: any) {
+      // Check if it's an invalid_grant error
+      if (
+        error?.message?.includes("invalid_grant") ||
+        error?.code === 400 ||
+        error?.response?.data?.error === "invalid_grant"
+      ) {
+        // Token is invalid, delete it
+        await deleteInvalidTokens(userId);
+        throw new Error("TOKEN_INVALID");
+      }
+      throw error;
+    }
+  } else {
+    oauth2Client.setCredentials({
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken,
+    });
+  }
+
+  return google.calendar({ version: "v3", auth: oauth2Client });
+}
+
+/**
+ * Map a Google Calendar event to the app's event shape
+ */
+function fromGoogleEvent(
+  event: calendar_v3.Schema$Event,
+  calendarId: string
+): CalendarEvent {
+  return {
+    id: event.id || "",
+    calendarId,
+    title: event.summary || "Untitled Event",
+    start: event.start?.dateTime || event.start?.date || "",
+    end: event.end?.dateTime || event.end?.date || "",
+    timeZone: event.start?.timeZone || undefined,
+    location: event.location || undefined,
+    attendees: (event.attendees || []).map((attendee) => ({
+      email: attendee.email || "",
+      displayName: attendee.displayName || undefined,
+      responseStatus:
+        (attendee.responseStatus as AttendeeResponseStatus) || "needsAction",
+      optional: attendee.optional || undefined,
+      organizer: attendee.organizer || undefined,
+      self: attendee.self || undefined,
+      comment: attendee.comment || undefined,
+    })),
+    organizer: event.organizer?.email
+      ? {
+          email: event.organizer.email,
+          displayName: event.organizer.displayName || undefined,
+          self: event.organizer.self || undefined,
+        }
+      : undefined,
+    description: event.description || undefined,
+    colorId: event.colorId || undefined,
+    visibility: (event.visibility as EventVisibility) || undefined,
+    transparency: event.transparency === "transparent" ? "free" : "busy",
+    reminders: event.reminders
+      ? {
+          useDefault: !!event.reminders.useDefault,
+          overrides: (event.reminders.overrides || []).map((reminder) => ({
+            method: reminder.method === "email" ? "email" : "popup",
+            minutes: reminder.minutes || 0,
+          })),
+        }
+      : undefined,
+    conference: event.conferenceData?.conferenceId
+      ? {
+          id: event.conferenceData.conferenceId,
+          joinUrl:
+            event.conferenceData.entryPoints?.find(
+              (entryPoint) => entryPoint.entryPointType === "video"
+            )?.uri ||
+            event.hangoutLink ||
+            undefined,
+        }
+      : event.conferenceData?.createRequest
+      ? {
+          id: event.conferenceData.createRequest.requestId || "",
+          pending:
+            event.conferenceData.createRequest.status?.statusCode === "pending",
+        }
+      : undefined,
+    recurrence: event.recurrence || undefined,
+    recurringEventId: event.recurringEventId || undefined,
+    originalStart:
+      event.originalStartTime?.dateTime ||
+      event.originalStartTime?.date ||
+      undefined,
+  };
+}
+
+/**
+ * Apply app-level fields onto a Google Calendar request body
+ */
+function applyToGoogleEvent(
+  event: calendar_v3.Schema$Event,
+  input: CalendarEventPatch
+) {
+  if (input.title !== undefined) {
+    event.summary = input.title;
+  }
+
+  // Keep the event's zone unless a new one is given; Google expands recurrences in it
+  const timeZone = input.timeZone || event.start?.timeZone || "UTC";
+
+  // Date-only values are all-day events, which Google stores in the date field
+  if (input.start !== undefined) {
+    event.start = DATE_ONLY.test(input.start)
+      ? { date: input.start }
+      : { dateTime: input.start, timeZone };
+  } else if (input.timeZone !== undefined && event.start?.dateTime) {
+    event.start = { ...event.start, timeZone };
+  }
+
+  if (input.end !== undefined) {
+    event.end = DATE_ONLY.test(input.end)
+      ? { date: input.end }
+      : { dateTime: input.end, timeZone };
+  } else if (input.timeZone !== undefined && event.end?.dateTime) {
+    event.end = { ...event.end, timeZone };
+  }
+
+  if (input.location !== undefined) {
+    event.location = input.location;
+  }
+
+  // Keep existing attendees as they are so their responses aren't reset
+  if (input.attendees !== undefined) {
+    const existing = event.attendees || [];
+    event.attendees = input.attendees.map(
+      (email) =>
+        existing.find(
+          (attendee) => attendee.email?.toLowerCase() === email.toLowerCase()
+        ) || { email }
+    );
+  }
+
+  if (input.description !== undefined) {
+    event.description = input.description;
+  }
+
+  // An empty colorId goes back to the calendar's color
+  if (input.colorId !== undefined) {
+    event.colorId = input.colorId || null;
+  }
+
+  if (input.visibility !== undefined) {
+    event.visibility = input.visibility;
+  }
+
+  if (input.transparency !== undefined) {
+    event.transparency =
+      input.transparency === "free" ? "transparent" : "opaque";
+  }
+
+  if (input.reminders !== undefined) {
+    event.reminders = {
+      useDefault: input.reminders.useDefault,
+      overrides: input.reminders.useDefault ? [] : input.reminders.overrides,
+    };
+  }
+
+  // Requires conferenceDataVersion: 1 on the insert/update call
+  if (input.addVideoCall === true && !event.conferenceData) {
+    event.conferenceData = {
+      createRequest: {
+        requestId: randomUUID(),
+        conferenceSolutionKey: { type: "hangoutsMeet" },
+      },
+    };
+  } else if (input.addVideoCall === false) {
+    delete event.conferenceData;
+  }
+
+  if (input.recurrence !== undefined) {
+    event.recurrence = input.recurrence;
+  }
+
+  return event;
+}
+
+/**
+ * Google Calendar backed provider
+ * Event operations default to the user's primary calendar
+ * Retries share one deadline, retryBudgetMs from when the provider is created
+ */
+export async function createGoogleCalendarProvider(
+  userId: string,
+  options: { retryBudgetMs?: number } = {}
+): Promise<CalendarProvider> {
+  const calendar = await getCalendarClient(userId);
+  const deadline =
+    Date.now() + (options.retryBudgetMs ?? DEFAULT_RETRY_BUDGET_MS);
+  const retry = <T>(
+    call: (attempt: number) => Promise<T>,
+    retryOptions: { retryServerErrors?: boolean } = {}
+  ) => withGoogleRetry(call, { ...retryOptions, deadline });
+
+  return {
+    async listCalendars() {
+      try {
+        const response = await retry(() =>
+          calendar.calendarList.list({
+            minAccessRole: "reader",
+          })
+        );
+
+        return (response.data.items || []).map((entry) => ({
+          id: entry.id || "",
+          name: entry.summaryOverride || entry.summary || entry.id || "",
+          primary: !!entry.primary,
+          color: entry.backgroundColor || undefined,
+          readOnly: entry.accessRole === "reader",
+        }));
+      } catch (error: any) {
+        // Connections made before the calendar list scope was requested can only see primary
+        if (error?.code === 403) {
+          return [{ id: "primary", name: "Primary", primary: true }];
+        }
+        throw error;
+      }
+    },
+
+    async listEvents({ timeMin, timeMax, maxResults, calendarId = "primary" }) {
+      const response = await retry(() =>
+        calendar.events.list({
+          calendarId,
+          timeMin,
+          timeMax,
+          maxResults,
+          singleEvents: true,
+          orderBy: "startTime",
+        })
+      );
+
+      return (response.data.items || []).map((event) =>
+        fromGoogleEvent(event, calendarId)
+      );
+    },
+
+    async searchEvents({
+      timeMin,
+      timeMax,
+      maxResults,
+      calendarId = "primary",
+      pageToken,
+      query,
+      attendee,
+      location,
+    }) {
+      // q matches summary, description, location and attendee names/emails,
+      // so the attendee and location terms narrow it down there too
+      const q = [query, attendee, location].filter(Boolean).join(" ");
+      const response = await retry(() =>
+        calendar.events.list({
+          calendarId,
+          timeMin,
+          timeMax,
+          maxResults,
+          pageToken,
+          q: q || undefined,
+          singleEvents: true,
+          orderBy: "startTime",
+        })
+      );
+
+      // Then keep only events where they match the right field
+      const events = (response.data.items || [])
+        .map((event) => fromGoogleEvent(event, calendarId))
+        .filter((event) => scoreEvent(event, { attendee, location }) > 0);
+
+      return {
+        events,
+        nextPageToken: response.data.nextPageToken || undefined,
+      };
+    },
+
+    async getEvent(eventId, calendarId = "primary") {
+      const response = await retry(() =>
+        calendar.events.get({
+          calendarId,
+          eventId,
+        })
+      );
+
+      return fromGoogleEvent(response.data, calendarId);
+    },
+
+    async createEvent(input: CalendarEventInput, calendarId = "primary") {
+      // Not retried on server errors, which may have created the event anyway
+      const response = await retry(
+        () =>
+          calendar.events.insert({
+            calendarId,
+            conferenceDataVersion: 1,
+            requestBody: applyToGoogleEvent({}, input),
+          }),
+        { retryServerErrors: false }
+      );
+      await markMirrorStale(userId);
+
+      return fromGoogleEvent(response.data, calendarId);
+    },
+
+    async updateEvent(eventId, patch, calendarId = "primary") {
+      // First, get the existing event so untouched fields are preserved
+      const existingEvent = await retry(() =>
+        calendar.events.get({
+          calendarId,
+          eventId,
+        })
+      );
+
+      const response = await retry(() =>
+        calendar.events.update({
+          calendarId,
+          eventId,
+          conferenceDataVersion: 1,
+          requestBody: applyToGoogleEvent({ ...existingEvent.data }, patch),
+        })
+      );
+      await markMirrorStale(userId);
+
+      return fromGoogleEvent(response.data, calendarId);
+    },
+
+    async deleteEvent(eventId, calendarId = "primary") {
+      await retry(async (attempt) => {
+        try {
+          await calendar.events.delete({
+            calendarId,
+            eventId,
+          });
+        } catch (error: any) {
+          // On a retry, a gone event means an earlier attempt deleted it before failing to answer
+          if (attempt > 0 && (error?.code === 404 || error?.code === 410)) {
+            return;
+          }
+          throw error;
+        }
+      });
+      await markMirrorStale(userId);
+    },
+
+    async respondToEvent(eventId, { status, comment }, calendarId = "primary") {
+      const existingEvent = await retry(() =>
+        calendar.events.get({
+          calendarId,
+          eventId,
+        })
+      );
+
+      const attendees = existingEvent.data.attendees || [];
+      if (!attendees.some((attendee) => attendee.self)) {
+        throw new Error("You are not invited to this event");
+      }
+
+      // Only our own entry changes; sendUpdates lets the organizer know
+      // Not retried on server errors, so the organizer isn't notified twice
+      const response = await retry(
+        () =>
+          calendar.events.patch({
+            calendarId,
+            eventId,
+            sendUpdates: "all",
+            requestBody: {
+              attendees: attendees.map((attendee) =>
+                attendee.self
+                  ? { ...attendee, responseStatus: status, comment }
+                  : attendee
+              ),
+            },
+          }),
+        { retryServerErrors: false }
+      );
+      await markMirrorStale(userId);
+
+      return fromGoogleEvent(response.data, calendarId);
+    },
+
+    async syncEvents({
+      calendarId = "primary",
+      syncToken,
+      timeMin,
+      timeMax,
+      pageToken,
+    }) {
+      let response;
+      try {
+        // Google rejects timeMin/timeMax together with a sync token, and only sends
+        // deletions (as cancelled events) on incremental syncs; without timeMax
+        // singleEvents would expand endless recurring events for years
+        response = await retry(() =>
+          calendar.events.list({
+            calendarId,
+            syncToken,
+            timeMin: syncToken ? undefined : timeMin,
+            timeMax: syncToken ? undefined : timeMax,
+            pageToken,
+            singleEvents: true,
+            showDeleted: !!syncToken,
+            maxResults: 2500,
+          })
+        );
+      } catch (error: any) {
+        if (error?.code === 410) {
+          throw new Error("SYNC_TOKEN_EXPIRED");
+        }
+        throw error;
+      }
+
+      const items = response.data.items || [];
+      return {
+        events: items
+          .filter((event) => event.status !== "cancelled")
+          .map((event) => fromGoogleEvent(event, calendarId)),
+        deletedIds: items
+          .filter((event) => event.status === "cancelled")
+          .map((event) => event.id || ""),
+        nextPageToken: response.data.nextPageToken || undefined,
+        nextSyncToken: response.data.nextSyncToken || undefined,
+      };
+    },
+
+    async watchEvents({ calendarId = "primary", channelId, token, address }) {
+      const response = await retry(() =>
+        calendar.events.watch({
+          calendarId,
+          requestBody: {
+            id: channelId,
+            type: "web_hook",
+            address,
+            token,
+          },
+        })
+      );
+
+      return {
+        channelId,
+        resourceId: response.data.resourceId || "",
+        // Google picks the lifetime, about a week; assume a day if it doesn't say
+        expiration: response.data.expiration
+          ? Number(response.data.expiration)
+          : Date.now() + 24 * 60 * 60 * 1000,
+      };
+    },
+
+    async stopWatch({ channelId, resourceId }) {
+      await retry(() =>
+        calendar.channels.stop({
+          requestBody: { id: channelId, resourceId },
+        })
+      );
+    },
+
+    async queryFreeBusy({ timeMin, timeMax, calendarIds = ["primary"] }) {
+      const response = await retry(() =>
+        calendar.freebusy.query({
+          requestBody: {
+            timeMin,
+            timeMax,
+            items: calendarIds.map((id) => ({ id })),
+          },
+        })
+      );
+
+      const busy = calendarIds.flatMap(
+        (id) => response.data.calendars?.[id]?.busy || []
+      );
+      return mergeBusyIntervals(
+        busy.map((interval) => ({
+          start: interval.start || "",
+          end: interval.end || "",
+        }))
+      );
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Retries for Google API calls that hit rate limits or transient server errors
+ * Backoff is exponential with full jitter and bounded by a deadline, so voice requests stay responsive
+ * The deadline covers a whole request, however many calls it makes
+ */
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// How long a request may spend retrying in total
+export const DEFAULT_RETRY_BUDGET_MS = 10000;
+// Work nobody is waiting on, like mirror syncs, can afford to wait out a rate limit
+export const BACKGROUND_RETRY_BUDGET_MS = 5 * 60 * 1000;
+
+// Google's per-minute rate limits; daily quotas won't recover within a retry
+const RATE_LIMIT_REASONS = ["rateLimitExceeded", "userRateLimitExceeded"];
+const QUOTA_REASONS = ["quotaExceeded", "dailyLimitExceeded"];
+
+// Retry-After hint when Google doesn't send one
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+const QUOTA_RETRY_AFTER_SECONDS = 3600;
+
+/**
+ * Google asked us to slow down; retryAfterSeconds is when to try again
+ */
+export class GoogleRateLimitError extends Error {
+  readonly code = "rate_limited";
+
+  constructor(readonly retryAfterSeconds: number) {
+    super(
+      `Google Calendar is rate limiting requests. Try again in ${retryAfterSeconds} seconds.`
+    );
+    this.name = "GoogleRateLimitError";
+  }
+}
+
+type ErrorKind = "rate_limited" | "quota_exceeded" | "transient" | "fatal";
+
+function getStatus(error: any): number | undefined {
+  const status =
+    error?.response?.status ??
+    error?.status ??
+    (typeof error?.code === "number" ? error.code : undefined);
+  return typeof status === "number" ? status : undefined;
+}
+
+function getReason(error: any): string | undefined {
+  return (
+    error?.errors?.[0]?.reason ??
+    error?.response?.data?.error?.errors?.[0]?.reason
+  );
+}
+
+/**
+ * Retry-After header in seconds, if Google sent one
+ */
+function getRetryAfterSeconds(error: any): number | undefined {
+  const headers = error?.response?.headers;
+  const value =
+    typeof headers?.get === "function"
+      ? headers.get("retry-after")
+      : headers?.["retry-after"];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(Math.ceil(seconds), 1);
+
+  // HTTP dates are allowed too
+  const date = new Date(value).getTime();
+  return isNaN(date)
+    ? undefined
+    : Math.max(Math.ceil((date - Date.now()) / 1000), 1);
+}
+
+function classifyError(error: any): ErrorKind {
+  const status = getStatus(error);
+  const reason = getReason(error);
+
+  if (status === 429 || (status === 403 && RATE_LIMIT_REASONS.includes(reason || ""))) {
+    return "rate_limited";
+  }
+  if (status === 403 && QUOTA_REASONS.includes(reason || "")) {
+    return "quota_exceeded";
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    ["ECONNRESET", "ETIMEDOUT", "EAI_AGAIN"].includes(error?.code)
+  ) {
+    return "transient";
+  }
+  return "fatal";
+}
+
+/**
+ * Run a Google API call, retrying rate limits and server errors until the deadline (a timestamp)
+ * Rate limits that outlast it become a GoogleRateLimitError; other errors are rethrown as is
+ * Pass retryServerErrors: false for calls that aren't safe to repeat (a 5xx may still have applied)
+ * The call gets the attempt number, so it can tell a retry from the first try
+ */
+export async function withGoogleRetry<T>(
+  call: (attempt: number) => Promise<T>,
+  options: { deadline?: number; retryServerErrors?: boolean } = {}
+): Promise<T> {
+  const deadline = options.deadline ?? Date.now() + DEFAULT_RETRY_BUDGET_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call(attempt);
+    } catch (error) {
+      const kind = classifyError(error);
+
+      if (kind === "quota_exceeded") {
+        throw new GoogleRateLimitError(
+          getRetryAfterSeconds(error) ?? QUOTA_RETRY_AFTER_SECONDS
+        );
+      }
+      if (
+        kind === "fatal" ||
+        (kind === "transient" && options.retryServerErrors === false)
+      ) {
+        throw error;
+      }
+
+      const retryAfter = getRetryAfterSeconds(error);
+      const backoff = Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+      const delay = retryAfter !== undefined ? retryAfter * 1000 : backoff;
+
+      if (Date.now() + delay > deadline) {
+        if (kind === "rate_limited") {
+          throw new GoogleRateLimitError(
+            retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS
+          );
+        }
+        throw error;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * 429 response for routes, with a Retry-After header and the hint in the body
+ */
+export function rateLimitedResponse(error: GoogleRateLimitError) {
+  return NextResponse.json(
+    {
+      error: error.message,
+      code: error.code,
+      retryAfter: error.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { "Retry-After": String(error.retryAfterSeconds) },
+    }
+  );
+}
@@ -0,0 +1,681 @@
+import type {
+  AttendeeResponseStatus,
+  CalendarEvent,
+  CalendarEventPatch,
+  EventAttendee,
+  EventReminder,
+  EventReminders,
+  EventVisibility,
+} from "./calendar-provider";
+import { EVENT_COLORS, getColorIdForCssName } from "./event-colors";
+import { formatZonedTime, zonedTimeToUtc } from "./timezone";
+
+/**
+ * Minimal iCalendar (RFC 5545) reader/writer
+ * Keeps unknown properties intact so events can be round-tripped without data loss
+ */
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const RECURRENCE_PROPERTIES = ["RRULE", "EXDATE", "RDATE"];
+
+/**
+ * Split on a delimiter, ignoring delimiters inside double quotes
+ */
+function splitOutsideQuotes(input: string, delimiter: string): string[] {
+  const result: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (const char of input) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    }
+    if (char === delimiter && !inQuotes) {
+      result.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  result.push(current);
+
+  return result;
+}
+
+/**
+ * Parse a single content line, e.g. "DTSTART;TZID=Europe/Berlin:20261020T140000"
+ */
+export function parseContentLine(line: string): ICalProperty {
+  let colonIndex = -1;
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+
+  if (colonIndex === -1) {
+    throw new Error(`Invalid iCalendar line: ${line}`);
+  }
+
+  const [name, ...rawParams] = splitOutsideQuotes(
+    line.slice(0, colonIndex),
+    ";"
+  );
+  const params: Record<string, string> = {};
+  for (const rawParam of rawParams) {
+    const equalsIndex = rawParam.indexOf("=");
+    if (equalsIndex === -1) continue;
+    params[rawParam.slice(0, equalsIndex).toUpperCase()] = rawParam
+      .slice(equalsIndex + 1)
+      .replace(/^"(.*)"$/, "$1");
+  }
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(colonIndex + 1),
+  };
+}
+
+/**
+ * Serialize a property back to a content line (unfolded)
+ */
+export function formatContentLine(property: ICalProperty): string {
+  const params = Object.entries(property.params)
+    .map(([key, value]) =>
+      /[;:,]/.test(value) ? `;${key}="${value}"` : `;${key}=${value}`
+    )
+    .join("");
+  return `${property.name}${params}:${property.value}`;
+}
+
+/**
+ * Parse iCalendar text into its top-level components (usually one VCALENDAR)
+ */
+export function parseICalendar(text: string): ICalComponent[] {
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+
+    if (property.name === "BEGIN") {
+      const component: ICalComponent = {
+        name: property.value.toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.components.push(component);
+      } else {
+        roots.push(component);
+      }
+      stack.push(component);
+    } else if (property.name === "END") {
+      stack.pop();
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Fold a content line at 75 octets as required by RFC 5545
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentLength = 0;
+
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentLength + charLength > limit) {
+      chunks.push(current);
+      current = "";
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+/**
+ * Serialize a component (and its children) to iCalendar text
+ */
+export function serializeICalendar(component: ICalComponent): string {
+  const lines: string[] = [];
+
+  const write = (current: ICalComponent) => {
+    lines.push(`BEGIN:${current.name}`);
+    for (const property of current.properties) {
+      lines.push(foldLine(formatContentLine(property)));
+    }
+    for (const child of current.components) {
+      write(child);
+    }
+    lines.push(`END:${current.name}`);
+  };
+
+  write(component);
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function getProperty(
+  component: ICalComponent,
+  name: string
+): ICalProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+export function getProperties(
+  component: ICalComponent,
+  name: string
+): ICalProperty[] {
+  return component.properties.filter((property) => property.name === name);
+}
+
+export function removeProperty(component: ICalComponent, name: string) {
+  component.properties = component.properties.filter(
+    (property) => property.name !== name
+  );
+}
+
+/**
+ * Replace all properties with this name by a single new one
+ */
+export function setProperty(
+  component: ICalComponent,
+  name: string,
+  value: string,
+  params: Record<string, string> = {}
+) {
+  removeProperty(component, name);
+  component.properties.push({ name, params, value });
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/**
+ * Format an ISO 8601 instant as an iCalendar UTC date-time (20261020T140000Z)
+ */
+export function formatICalDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Format a YYYY-MM-DD date as an iCalendar DATE value (20261020)
+ */
+export function formatICalDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+/**
+ * Read a DTSTART/DTEND style property
+ * Returns an ISO instant, or YYYY-MM-DD for all-day (DATE) values
+ */
+export function parseICalDateTime(property: ICalProperty): string {
+  const value = property.value.trim();
+
+  const dateMatch = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateMatch) {
+    const [, year, month, day] = dateMatch;
+    return `${year}-${month}-${day}`;
+  }
+
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/
+  );
+  if (!match) {
+    throw new Error(`Invalid iCalendar date-time: ${value}`);
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallTime = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+
+  // Floating times (no Z, no TZID) are treated as UTC
+  const timeZone = property.params.TZID;
+  if (utc || !timeZone) {
+    return new Date(`${wallTime}Z`).toISOString();
+  }
+
+  return zonedTimeToUtc(wallTime, timeZone).toISOString();
+}
+
+/**
+ * Parse an iCalendar DURATION (e.g. PT1H30M, P1D, P2W) into milliseconds
+ */
+export function parseICalDuration(value: string): number {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) {
+    throw new Error(`Invalid iCalendar duration: ${value}`);
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const toNumber = (part?: string) => (part ? parseInt(part, 10) : 0);
+  const ms =
+    (((toNumber(weeks) * 7 + toNumber(days)) * 24 + toNumber(hours)) * 60 +
+      toNumber(minutes)) *
+      60000 +
+    toNumber(seconds) * 1000;
+
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * Add milliseconds to a start/end value, keeping date-only values date-only
+ */
+export function addToDateOrDateTime(value: string, ms: number): string {
+  if (DATE_ONLY.test(value)) {
+    return new Date(new Date(`${value}T00:00:00Z`).getTime() + ms)
+      .toISOString()
+      .slice(0, 10);
+  }
+  return new Date(new Date(value).getTime() + ms).toISOString();
+}
+
+/**
+ * Write a start/end value as DATE, local DATE-TIME with TZID, or UTC DATE-TIME
+ */
+function setDateProperty(
+  vevent: ICalComponent,
+  name: string,
+  value: string,
+  timeZone?: string
+) {
+  if (DATE_ONLY.test(value)) {
+    setProperty(vevent, name, formatICalDate(value), { VALUE: "DATE" });
+  } else if (timeZone && timeZone !== "UTC") {
+    const wallTime = formatZonedTime(new Date(value), timeZone);
+    setProperty(vevent, name, wallTime.replace(/[-:]/g, ""), {
+      TZID: timeZone,
+    });
+  } else {
+    setProperty(vevent, name, formatICalDateTime(value));
+  }
+}
+
+const PARTSTAT_TO_RESPONSE: Record<string, AttendeeResponseStatus> = {
+  "NEEDS-ACTION": "needsAction",
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  TENTATIVE: "tentative",
+};
+
+function getEmail(property: ICalProperty): string {
+  return property.value.replace(/^mailto:/i, "");
+}
+
+/**
+ * Map an ATTENDEE property; the comment uses Google's X-RESPONSE-COMMENT parameter
+ */
+function toEventAttendee(
+  attendee: ICalProperty,
+  organizerEmail?: string
+): EventAttendee {
+  const email = getEmail(attendee);
+  return {
+    email,
+    displayName: attendee.params.CN || undefined,
+    responseStatus:
+      PARTSTAT_TO_RESPONSE[(attendee.params.PARTSTAT || "").toUpperCase()] ||
+      "needsAction",
+    optional: attendee.params.ROLE === "OPT-PARTICIPANT" || undefined,
+    organizer: email.toLowerCase() === organizerEmail?.toLowerCase() || undefined,
+    comment: attendee.params["X-RESPONSE-COMMENT"] || undefined,
+  };
+}
+
+/**
+ * Set the PARTSTAT of one attendee; returns false when they aren't on the event
+ */
+export function setAttendeeResponse(
+  vevent: ICalComponent,
+  email: string,
+  { status, comment }: { status: AttendeeResponseStatus; comment?: string }
+): boolean {
+  const attendee = getProperties(vevent, "ATTENDEE").find(
+    (property) => getEmail(property).toLowerCase() === email.toLowerCase()
+  );
+  if (!attendee) {
+    return false;
+  }
+
+  const partstat = Object.keys(PARTSTAT_TO_RESPONSE).find(
+    (key) => PARTSTAT_TO_RESPONSE[key] === status
+  );
+  attendee.params.PARTSTAT = partstat || "NEEDS-ACTION";
+  delete attendee.params.RSVP;
+
+  // Parameter values can't contain quotes or line breaks
+  if (comment) {
+    attendee.params["X-RESPONSE-COMMENT"] = comment
+      .replace(/"/g, "'")
+      .replace(/\r?\n/g, " ");
+  } else {
+    delete attendee.params["X-RESPONSE-COMMENT"];
+  }
+  return true;
+}
+
+/**
+ * Format minutes before the start as a negative DURATION, e.g. -PT30M
+ */
+function formatReminderTrigger(minutes: number): string {
+  if (minutes === 0) return "PT0S";
+  const days = Math.floor(minutes / 1440);
+  const rest = minutes % 1440;
+  const hours = Math.floor(rest / 60);
+  const mins = rest % 60;
+  const time = `${hours ? `${hours}H` : ""}${mins ? `${mins}M` : ""}`;
+  return `-P${days ? `${days}D` : ""}${time ? `T${time}` : ""}`;
+}
+
+/**
+ * Read VALARMs as reminders; events without alarms use the calendar's defaults
+ */
+function getVEventReminders(vevent: ICalComponent): EventReminders {
+  const overrides: EventReminder[] = [];
+
+  for (const alarm of vevent.components) {
+    if (alarm.name !== "VALARM") continue;
+    const trigger = getProperty(alarm, "TRIGGER");
+    const action = getProperty(alarm, "ACTION");
+
+    // Only alarms relative to the start map to reminders
+    if (
+      !trigger ||
+      trigger.params.VALUE === "DATE-TIME" ||
+      trigger.params.RELATED === "END"
+    ) {
+      continue;
+    }
+
+    try {
+      const ms = parseICalDuration(trigger.value);
+      overrides.push({
+        method: action?.value.toUpperCase() === "EMAIL" ? "email" : "popup",
+        minutes: Math.max(0, Math.round(-ms / 60000)),
+      });
+    } catch {
+      // Ignore alarms with triggers we can't read
+    }
+  }
+
+  return { useDefault: overrides.length === 0, overrides };
+}
+
+function createVAlarm(reminder: EventReminder, title: string): ICalComponent {
+  const properties: ICalProperty[] = [
+    {
+      name: "ACTION",
+      params: {},
+      value: reminder.method === "email" ? "EMAIL" : "DISPLAY",
+    },
+    { name: "TRIGGER", params: {}, value: formatReminderTrigger(reminder.minutes) },
+    { name: "DESCRIPTION", params: {}, value: title },
+  ];
+  if (reminder.method === "email") {
+    properties.push({ name: "SUMMARY", params: {}, value: title });
+  }
+  return { name: "VALARM", properties, components: [] };
+}
+
+/**
+ * Find the VEVENT components inside parsed iCalendar data
+ */
+export function findVEvents(components: ICalComponent[]): ICalComponent[] {
+  const events: ICalComponent[] = [];
+  for (const component of components) {
+    if (component.name === "VEVENT") {
+      events.push(component);
+    }
+    events.push(...findVEvents(component.components));
+  }
+  return events;
+}
+
+/**
+ * Map a VEVENT to the app's event shape
+ */
+export function veventToCalendarEvent(
+  vevent: ICalComponent,
+  id: string
+): CalendarEvent {
+  const dtstart = getProperty(vevent, "DTSTART");
+  if (!dtstart) {
+    throw new Error("VEVENT is missing DTSTART");
+  }
+
+  const start = parseICalDateTime(dtstart);
+  const dtend = getProperty(vevent, "DTEND");
+  const duration = getProperty(vevent, "DURATION");
+
+  let end: string;
+  if (dtend) {
+    end = parseICalDateTime(dtend);
+  } else if (duration) {
+    end = addToDateOrDateTime(start, parseICalDuration(duration.value));
+  } else {
+    // RFC 5545: all-day events default to one day, timed events to zero length
+    end = DATE_ONLY.test(start) ? addToDateOrDateTime(start, 86400000) : start;
+  }
+
+  const summary = getProperty(vevent, "SUMMARY");
+  const location = getProperty(vevent, "LOCATION");
+  const description = getProperty(vevent, "DESCRIPTION");
+  // RFC 7986 CONFERENCE, as written by clients that add video calls
+  const conference = getProperty(vevent, "CONFERENCE");
+  const color = getProperty(vevent, "COLOR");
+  const eventClass = getProperty(vevent, "CLASS")?.value.toLowerCase();
+  const transp = getProperty(vevent, "TRANSP");
+  const organizer = getProperty(vevent, "ORGANIZER");
+  const organizerEmail = organizer ? getEmail(organizer) : undefined;
+  const recurrence = vevent.properties
+    .filter((property) => RECURRENCE_PROPERTIES.includes(property.name))
+    .map(formatContentLine);
+
+  return {
+    id,
+    title: summary ? unescapeText(summary.value) : "Untitled Event",
+    start,
+    end,
+    timeZone:
+      dtstart.params.TZID || (dtstart.value.endsWith("Z") ? "UTC" : undefined),
+    location: location ? unescapeText(location.value) : undefined,
+    attendees: getProperties(vevent, "ATTENDEE").map((attendee) =>
+      toEventAttendee(attendee, organizerEmail)
+    ),
+    organizer:
+      organizer && organizerEmail
+        ? {
+            email: organizerEmail,
+            displayName: organizer.params.CN || undefined,
+          }
+        : undefined,
+    description: description ? unescapeText(description.value) : undefined,
+    colorId: color ? getColorIdForCssName(color.value) : undefined,
+    visibility:
+      eventClass === "public" ||
+      eventClass === "private" ||
+      eventClass === "confidential"
+        ? (eventClass as EventVisibility)
+        : "default",
+    transparency: transp?.value.toUpperCase() === "TRANSPARENT" ? "free" : "busy",
+    reminders: getVEventReminders(vevent),
+    conference: conference
+      ? { id: conference.value, joinUrl: conference.value }
+      : undefined,
+    recurrence: recurrence.length > 0 ? recurrence : undefined,
+  };
+}
+
+/**
+ * Apply app-level fields onto a VEVENT, leaving other properties untouched
+ */
+export function applyToVEvent(vevent: ICalComponent, patch: CalendarEventPatch) {
+  if (patch.title !== undefined) {
+    setProperty(vevent, "SUMMARY", escapeText(patch.title));
+  }
+
+  // Keep the event's zone unless a new one is given
+  const dtstart = getProperty(vevent, "DTSTART");
+  const dtend = getProperty(vevent, "DTEND");
+  const timeZone = patch.timeZone ?? dtstart?.params.TZID;
+
+  if (patch.start !== undefined) {
+    setDateProperty(vevent, "DTSTART", patch.start, timeZone);
+  } else if (patch.timeZone !== undefined && dtstart) {
+    setDateProperty(vevent, "DTSTART", parseICalDateTime(dtstart), timeZone);
+  }
+
+  if (patch.end !== undefined) {
+    removeProperty(vevent, "DURATION");
+    setDateProperty(vevent, "DTEND", patch.end, timeZone);
+  } else if (patch.timeZone !== undefined && dtend) {
+    setDateProperty(vevent, "DTEND", parseICalDateTime(dtend), timeZone);
+  }
+
+  if (patch.location !== undefined) {
+    setProperty(vevent, "LOCATION", escapeText(patch.location));
+  }
+
+  // Keep existing attendees as they are so their responses aren't reset
+  if (patch.attendees !== undefined) {
+    const existing = getProperties(vevent, "ATTENDEE");
+    removeProperty(vevent, "ATTENDEE");
+    for (const email of patch.attendees) {
+      vevent.properties.push(
+        existing.find(
+          (attendee) => getEmail(attendee).toLowerCase() === email.toLowerCase()
+        ) || {
+          name: "ATTENDEE",
+          params: { RSVP: "TRUE" },
+          value: `mailto:${email}`,
+        }
+      );
+    }
+  }
+
+  if (patch.description !== undefined) {
+    setProperty(vevent, "DESCRIPTION", escapeText(patch.description));
+  }
+
+  if (patch.colorId !== undefined) {
+    const color = EVENT_COLORS[patch.colorId];
+    if (color) {
+      setProperty(vevent, "COLOR", color.cssName);
+    } else {
+      removeProperty(vevent, "COLOR");
+    }
+  }
+
+  // CLASS is PUBLIC by default, so "default" just drops it
+  if (patch.visibility !== undefined) {
+    if (patch.visibility === "default") {
+      removeProperty(vevent, "CLASS");
+    } else {
+      setProperty(vevent, "CLASS", patch.visibility.toUpperCase());
+    }
+  }
+
+  if (patch.transparency !== undefined) {
+    setProperty(
+      vevent,
+      "TRANSP",
+      patch.transparency === "free" ? "TRANSPARENT" : "OPAQUE"
+    );
+  }
+
+  if (patch.reminders !== undefined) {
+    vevent.components = vevent.components.filter(
+      (component) => component.name !== "VALARM"
+    );
+    if (!patch.reminders.useDefault) {
+      const title = getProperty(vevent, "SUMMARY")?.value || "Reminder";
+      for (const reminder of patch.reminders.overrides) {
+        vevent.components.push(createVAlarm(reminder, title));
+      }
+    }
+  }
+
+  if (patch.recurrence !== undefined) {
+    for (const name of RECURRENCE_PROPERTIES) {
+      removeProperty(vevent, name);
+    }
+    for (const line of patch.recurrence) {
+      vevent.properties.push(parseContentLine(line));
+    }
+  }
+
+  setProperty(vevent, "DTSTAMP", formatICalDateTime(new Date().toISOString()));
+  return vevent;
+}
+
+/**
+ * Wrap VEVENTs in a VCALENDAR with this app as the producer
+ */
+export function createVCalendar(vevents: ICalComponent[]): ICalComponent {
+  return {
+    name: "VCALENDAR",
+    properties: [
+      { name: "VERSION", params: {}, value: "2.0" },
+      { name: "PRODID", params: {}, value: "-//Speech-to-Schedule//EN" },
+    ],
+    components: vevents,
+  };
+}
+
+/**
+ * Create a new VEVENT with the given UID
+ */
+export function createVEvent(uid: string): ICalComponent {
+  return {
+    name: "VEVENT",
+    properties: [{ name: "UID", params: {}, value: uid }],
+    components: [],
+  };
+}
@@ -0,0 +1,592 @@
+import { z } from "zod";
+import {
+  resolveCalendarId,
+  type CalendarEvent,
+  type CalendarProvider,
+} from "./calendar-provider";
+import {
+  applyToVEvent,
+  createVCalendar,
+  createVEvent,
+  findVEvents,
+  formatContentLine,
+  formatICalDateTime,
+  getProperties,
+  getProperty,
+  parseICalendar,
+  parseICalDateTime,
+  serializeICalendar,
+  setAttendeeResponse,
+  setProperty,
+  veventToCalendarEvent,
+  type ICalComponent,
+  type ICalProperty,
+} from "./ical";
+import {
+  expandRecurrence,
+  findUnsupportedRecurrence,
+  parseRecurrence,
+} from "./rrule";
+import { isValidTimeZone } from "./timezone";
+import { isAllDay, toAllDayRange } from "./all-day";
+import {
+  formatListedEvents,
+  toListedEvent,
+  type ListedEvent,
+} from "./event-listing";
+import { createEventSchema, type CreateEventRequest } from "./event-mutations";
+import { runBatch } from "./batch-mutations";
+import type { UndoSnapshot } from "./undo";
+
+/**
+ * .ics export, import and subscription feeds, all on the list route's event shape
+ */
+
+export const MAX_EXPORT_EVENTS = 2500;
+export const MAX_IMPORT_EVENTS = 500;
+
+// Common Outlook/Exchange zone names; other TZIDs fall back to their VTIMEZONE
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  "Eastern Standard Time": "America/New_York",
+  "Central Standard Time": "America/Chicago",
+  "Mountain Standard Time": "America/Denver",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "GMT Standard Time": "Europe/London",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Romance Standard Time": "Europe/Paris",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "Central European Standard Time": "Europe/Warsaw",
+  "E. Europe Standard Time": "Europe/Chisinau",
+  "India Standard Time": "Asia/Kolkata",
+  "China Standard Time": "Asia/Shanghai",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+};
+
+const PRODUCT_UID_SUFFIX = "@speech-to-schedule";
+
+/**
+ * Fetch every event in a range (up to MAX_EXPORT_EVENTS) in the list route's shape
+ */
+export async function fetchListedEvents(
+  calendar: CalendarProvider,
+  options: { timeMin: string; timeMax: string; calendarId?: string }
+): Promise<ListedEvent[]> {
+  const events: CalendarEvent[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const page = await calendar.searchEvents({
+      ...options,
+      maxResults: 250,
+      pageToken,
+    });
+    events.push(...page.events);
+    pageToken = page.nextPageToken;
+  } while (pageToken && events.length < MAX_EXPORT_EVENTS);
+
+  return formatListedEvents(
+    calendar,
+    events.slice(0, MAX_EXPORT_EVENTS),
+    options.calendarId
+  );
+}
+
+/**
+ * Serialize listed events as a VCALENDAR
+ * Occurrences of recurring events are written as separate events, times in UTC
+ */
+export function toICalendar(
+  events: ListedEvent[],
+  options: { name?: string } = {}
+): string {
+  const vevents = events.map((event) => {
+    const vevent = createVEvent(`${event.id}${PRODUCT_UID_SUFFIX}`);
+    const { start, end } = event.allDay
+      ? toAllDayRange(event.start, event.end)
+      : event;
+
+    applyToVEvent(vevent, {
+      title: event.title,
+      start,
+      end,
+      location: event.location,
+      description: event.description,
+      attendees: event.attendees.map((attendee) => attendee.email),
+      colorId: event.colorId,
+      visibility: event.visibility,
+      transparency: event.transparency,
+    });
+
+    for (const attendee of event.attendees) {
+      setAttendeeResponse(vevent, attendee.email, {
+        status: attendee.responseStatus,
+      });
+      const property = getProperties(vevent, "ATTENDEE").find(
+        (candidate) =>
+          candidate.value.toLowerCase() === `mailto:${attendee.email}`.toLowerCase()
+      );
+      if (property && attendee.displayName) {
+        property.params.CN = attendee.displayName.replace(/"/g, "'");
+      }
+      if (property && attendee.optional) {
+        property.params.ROLE = "OPT-PARTICIPANT";
+      }
+    }
+
+    if (event.organizer) {
+      vevent.properties.push({
+        name: "ORGANIZER",
+        params: event.organizer.displayName
+          ? { CN: event.organizer.displayName.replace(/"/g, "'") }
+          : {},
+        value: `mailto:${event.organizer.email}`,
+      });
+    }
+
+    if (event.conference?.joinUrl) {
+      vevent.properties.push({
+        name: "CONFERENCE",
+        params: { VALUE: "URI" },
+        value: event.conference.joinUrl,
+      });
+    }
+
+    return vevent;
+  });
+
+  const vcalendar = createVCalendar(vevents);
+  if (options.name) {
+    setProperty(vcalendar, "X-WR-CALNAME", options.name);
+  }
+  return serializeICalendar(vcalendar);
+}
+
+/**
+ * UTC offset like +0100 or -053000 in milliseconds
+ */
+function parseUtcOffset(value: string): number {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) {
+    throw new Error(`Invalid UTC offset: ${value}`);
+  }
+  const [, sign, hours, minutes, seconds] = match;
+  const ms =
+    (parseInt(hours, 10) * 3600 +
+      parseInt(minutes, 10) * 60 +
+      parseInt(seconds || "0", 10)) *
+    1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * UTC offset at a wall-clock time from a VTIMEZONE's STANDARD/DAYLIGHT observances
+ * Wall times are passed as if they were UTC; returns null for unusable definitions
+ */
+function createOffsetResolver(
+  vtimezone: ICalComponent
+): ((wallTime: number) => number) | null {
+  try {
+    const observances = vtimezone.components
+      .filter(
+        (component) =>
+          component.name === "STANDARD" || component.name === "DAYLIGHT"
+      )
+      .map((component) => {
+        const dtstart = getProperty(component, "DTSTART");
+        const offsetTo = getProperty(component, "TZOFFSETTO");
+        const offsetFrom = getProperty(component, "TZOFFSETFROM");
+        if (!dtstart || !offsetTo) {
+          throw new Error("Incomplete observance");
+        }
+        return {
+          // Observance starts are local times; read them without a zone
+          start: parseICalDateTime({ ...dtstart, params: {} }),
+          offsetTo: parseUtcOffset(offsetTo.value),
+          offsetFrom: offsetFrom ? parseUtcOffset(offsetFrom.value) : undefined,
+          rule: parseRecurrence(
+            getProperties(component, "RRULE").map(formatContentLine)
+          ),
+          rdates: getProperties(component, "RDATE").flatMap((rdate) =>
+            rdate.value
+              .split(",")
+              .map((value) =>
+                parseICalDateTime({ ...rdate, params: {}, value })
+              )
+          ),
+        };
+      });
+
+    if (observances.length === 0) {
+      return null;
+    }
+
+    return (wallTime) => {
+      let latest: { onset: number; offset: number } | undefined;
+      for (const observance of observances) {
+        const onsets = [observance.start, ...observance.rdates];
+        if (observance.rule) {
+          onsets.push(
+            ...expandRecurrence(observance.rule, observance.start, {
+              rangeStart: new Date(wallTime - 366 * 86400000).toISOString(),
+              rangeEnd: new Date(wallTime + 1).toISOString(),
+            })
+          );
+        }
+        for (const onset of onsets) {
+          const time = new Date(onset).getTime();
+          if (time <= wallTime && (!latest || time > latest.onset)) {
+            latest = { onset: time, offset: observance.offsetTo };
+          }
+        }
+      }
+
+      // Before the first observance the zone used the first one's "from" offset
+      const first = observances[0];
+      return latest?.offset ?? first.offsetFrom ?? first.offsetTo;
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * IANA zone for a TZID: valid names as is, then X-LIC-LOCATION, Windows names,
+ * and IANA names embedded in prefixed TZIDs like "/mozilla.org/20050126_1/America/New_York"
+ */
+function resolveIanaZone(
+  tzid: string,
+  vtimezone?: ICalComponent
+): string | undefined {
+  const location = vtimezone
+    ? getProperty(vtimezone, "X-LIC-LOCATION")?.value
+    : undefined;
+  const embedded = tzid.match(
+    /([A-Za-z]+\/[A-Za-z_-]+(?:\/[A-Za-z_-]+)?)$/
+  )?.[1];
+
+  return [tzid, location, WINDOWS_TIME_ZONES[tzid], embedded].find(
+    (candidate): candidate is string =>
+      !!candidate && isValidTimeZone(candidate)
+  );
+}
+
+/**
+ * Rewrite TZID parameters so the rest of the parser only sees IANA zones:
+ * known zones are renamed, others are converted to UTC with their VTIMEZONE
+ */
+function normalizeTimeZones(components: ICalComponent[], vevents: ICalComponent[]) {
+  const vtimezones = new Map<string, ICalComponent>();
+  const collect = (list: ICalComponent[]) => {
+    for (const component of list) {
+      if (component.name === "VTIMEZONE") {
+        const tzid = getProperty(component, "TZID")?.value;
+        if (tzid) vtimezones.set(tzid, component);
+      }
+      collect(component.components);
+    }
+  };
+  collect(components);
+
+  const resolvers = new Map<string, ((wallTime: number) => number) | null>();
+
+  const toUtc = (property: ICalProperty, tzid: string) => {
+    if (!resolvers.has(tzid)) {
+      const vtimezone = vtimezones.get(tzid);
+      resolvers.set(tzid, vtimezone ? createOffsetResolver(vtimezone) : null);
+    }
+    const resolve = resolvers.get(tzid);
+
+    property.value = property.value
+      .split(",")
+      .map((value) => {
+        const match = value.match(
+          /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/
+        );
+        if (!match || !resolve) return value; // Dates and UTC times need nothing
+        const [, year, month, day, hour, minute, second] = match;
+        const wallTime = Date.UTC(
+          Number(year),
+          Number(month) - 1,
+          Number(day),
+          Number(hour),
+          Number(minute),
+          Number(second)
+        );
+        return formatICalDateTime(
+          new Date(wallTime - resolve(wallTime)).toISOString()
+        );
+      })
+      .join(",");
+
+    // Without a definition the time stays floating, which is read as UTC
+    delete property.params.TZID;
+  };
+
+  for (const vevent of vevents) {
+    for (const property of vevent.properties) {
+      const tzid = property.params.TZID;
+      if (!tzid) continue;
+
+      const zone = resolveIanaZone(tzid, vtimezones.get(tzid));
+      if (zone) {
+        property.params.TZID = zone;
+      } else {
+        toUtc(property, tzid);
+      }
+    }
+  }
+}
+
+export interface ParsedICalEvent {
+  uid?: string;
+  event?: ListedEvent;
+  error?: string;
+}
+
+/**
+ * Parse .ics text into listed events
+ * Modified occurrences (RECURRENCE-ID) become separate events and are excluded from their series;
+ * cancelled events and occurrences are dropped
+ */
+export function parseICalendarEvents(text: string): ParsedICalEvent[] {
+  const components = parseICalendar(text);
+  const vevents = findVEvents(components);
+  normalizeTimeZones(components, vevents);
+
+  const isCancelled = (vevent: ICalComponent) =>
+    getProperty(vevent, "STATUS")?.value.toUpperCase() === "CANCELLED";
+  const getUid = (vevent: ICalComponent) => getProperty(vevent, "UID")?.value;
+
+  const masters = new Map<string, ICalComponent>();
+  for (const vevent of vevents) {
+    const uid = getUid(vevent);
+    if (uid && !getProperty(vevent, "RECURRENCE-ID")) {
+      masters.set(uid, vevent);
+    }
+  }
+
+  const parsed: ParsedICalEvent[] = [];
+  const standalone: ICalComponent[] = [];
+
+  for (const vevent of vevents) {
+    const recurrenceId = getProperty(vevent, "RECURRENCE-ID");
+    const master = recurrenceId ? masters.get(getUid(vevent) || "") : undefined;
+
+    if (recurrenceId && master) {
+      master.properties.push({ ...recurrenceId, name: "EXDATE" });
+    }
+    if (!isCancelled(vevent)) {
+      standalone.push(vevent);
+    }
+  }
+
+  standalone.forEach((vevent, index) => {
+    const uid = getUid(vevent);
+    try {
+      parsed.push({
+        uid,
+        event: toListedEvent(veventToCalendarEvent(vevent, uid || `import-${index}`)),
+      });
+    } catch (error) {
+      parsed.push({
+        uid,
+        error: error instanceof Error ? error.message : "Invalid event",
+      });
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Create request for an imported event; imports never stop for conflicts
+ * Throws for recurrence rules that would be imported as a different schedule
+ */
+function toCreateRequest(
+  event: ListedEvent,
+  calendarId?: string
+): CreateEventRequest {
+  const unsupported = event.recurrence
+    ? findUnsupportedRecurrence(event.recurrence)
+    : [];
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Recurrence rule uses ${unsupported.join(", ")}, which can't be imported without changing when the event repeats`
+    );
+  }
+
+  const recurrence = event.recurrence ? parseRecurrence(event.recurrence) : null;
+
+  return createEventSchema.parse({
+    calendarId,
+    title: event.title,
+    start: event.start,
+    end: event.end,
+    allDay: event.allDay || undefined,
+    timeZone:
+      event.timeZone && isValidTimeZone(event.timeZone)
+        ? event.timeZone
+        : undefined,
+    location: event.location || undefined,
+    attendees: event.attendees
+      .map((attendee) => attendee.email)
+      .filter((email) => z.string().email().safeParse(email).success),
+    description: event.description || undefined,
+    colorId: event.colorId,
+    visibility:
+      event.visibility === "confidential" ? "private" : event.visibility,
+    transparency: event.transparency,
+    recurrence: recurrence || undefined,
+    allowConflicts: true,
+  });
+}
+
+/**
+ * Events count as the same when title and start match
+ */
+function getDuplicateKey(event: { title: string; start: string }): string {
+  const start = isAllDay(event)
+    ? event.start
+    : String(new Date(event.start).getTime());
+  return `${event.title.trim().toLowerCase()}|${start}`;
+}
+
+/**
+ * Duplicate keys of the events already in the calendar around the given ones
+ * Each stretch of nearby events is read in full, however many events it holds,
+ * without loading the empty time between stretches
+ */
+async function loadExistingKeys(
+  calendar: CalendarProvider,
+  events: { start: string }[],
+  calendarId?: string
+): Promise<Set<string>> {
+  const day = 24 * 60 * 60 * 1000;
+  const toTime = (value: string) =>
+    new Date(isAllDay({ start: value }) ? `${value}T00:00:00Z` : value).getTime();
+
+  // A day either side covers timezone differences
+  const windows: { start: number; end: number }[] = [];
+  for (const time of events.map((event) => toTime(event.start)).sort((a, b) => a - b)) {
+    const last = windows[windows.length - 1];
+    if (last && time - day <= last.end) {
+      last.end = time + 2 * day;
+    } else {
+      windows.push({ start: time - day, end: time + 2 * day });
+    }
+  }
+
+  const keys = new Set<string>();
+  for (const window of windows) {
+    let pageToken: string | undefined;
+    do {
+      const page = await calendar.searchEvents({
+        timeMin: new Date(window.start).toISOString(),
+        timeMax: new Date(window.end).toISOString(),
+        calendarId,
+        maxResults: 250,
+        pageToken,
+      });
+      for (const event of page.events) {
+        keys.add(getDuplicateKey(event));
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  return keys;
+}
+
+export interface ImportItemResult {
+  index: number;
+  uid?: string;
+  title?: string;
+  start?: string;
+  status: "created" | "duplicate" | "failed";
+  eventId?: string;
+  error?: string;
+}
+
+/**
+ * Import .ics text into a calendar, skipping events that already exist (same title and start)
+ * Returns a result per event and a snapshot of the created ones, for undo
+ */
+export async function importICalendar(
+  calendar: CalendarProvider,
+  userId: string,
+  text: string,
+  options: { calendarId?: string } = {}
+): Promise<{ results: ImportItemResult[]; snapshot: UndoSnapshot }> {
+  const parsed = parseICalendarEvents(text);
+  if (parsed.length === 0) {
+    throw new Error("No events found in the file");
+  }
+  if (parsed.length > MAX_IMPORT_EVENTS) {
+    throw new Error(
+      `Too many events in the file; import at most ${MAX_IMPORT_EVENTS} at a time`
+    );
+  }
+
+  const results: ImportItemResult[] = parsed.map(({ uid, event, error }, index) => ({
+    index,
+    uid,
+    title: event?.title,
+    start: event?.start,
+    status: error ? "failed" : "created",
+    error,
+  }));
+
+  // Load what's already in the calendar around the imported events
+  const events = parsed.flatMap(({ event }) => (event ? [event] : []));
+  const existingKeys = await loadExistingKeys(
+    calendar,
+    events,
+    await resolveCalendarId(userId, options.calendarId)
+  );
+
+  const operations: { index: number; params: CreateEventRequest }[] = [];
+  parsed.forEach(({ event }, index) => {
+    if (!event) return;
+
+    const key = getDuplicateKey(event);
+    if (existingKeys.has(key)) {
+      results[index].status = "duplicate";
+      return;
+    }
+    existingKeys.add(key); // The same event twice in one file is a duplicate too
+
+    try {
+      operations.push({
+        index,
+        params: toCreateRequest(event, options.calendarId),
+      });
+    } catch (error) {
+      results[index].status = "failed";
+      results[index].error =
+        error instanceof z.ZodError
+          ? error.errors.map((issue) => issue.message).join("; ")
+          : error instanceof Error
+          ? error.message
+          : "Invalid event";
+    }
+  });
+
+  const batch = await runBatch(
+    calendar,
+    userId,
+    operations.map(({ params }) => ({ type: "create" as const, params }))
+  );
+
+  batch.results.forEach((result, position) => {
+    const item = results[operations[position].index];
+    if (result.status === "applied") {
+      item.eventId = result.event?.id;
+    } else {
+      item.status = "failed";
+      item.error = result.error;
+    }
+  });
+
+  return { results, snapshot: batch.snapshot };
+}
@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import { IDEMPOTENCY_KEY_HEADER } from "./voice-session-bridge";
+
+/**
+ * Idempotency-Key support for the mutation routes
+ * Retried requests (e.g. a function call the voice agent re-issues) replay the first response
+ */
+
+// Long enough to cover any retry, short enough to keep the table small
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a response is the final answer for its request
+ * Server errors, expired connections, rate limits and conflicts (overlapping events, a confirmation
+ * token another attempt is holding) can succeed when retried, so those aren't stored
+ */
+function isFinalResponse(status: number): boolean {
+  return status < 500 && status !== 401 && status !== 409 && status !== 429;
+}
+
+/**
+ * Run a route handler at most once per Idempotency-Key
+ * Without the header the handler just runs
+ */
+export async function withIdempotency(
+  request: Request,
+  userId: string,
+  route: string,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (!key) {
+    return handler();
+  }
+
+  if (key.length > 255) {
+    return NextResponse.json(
+      { error: "Idempotency-Key must be at most 255 characters" },
+      { status: 400 }
+    );
+  }
+
+  const requestHash = createHash("sha256")
+    .update(await request.clone().text())
+    .digest("hex");
+
+  const claim = await client.mutation(api.idempotency.claimIdempotencyKey, {
+    clerkUserId: userId,
+    key,
+    route,
+    requestHash,
+    ttlMs: IDEMPOTENCY_TTL_MS,
+  });
+
+  if (claim.status === "completed") {
+    return NextResponse.json(claim.response, {
+      status: claim.statusCode,
+      headers: { "Idempotent-Replayed": "true" },
+    });
+  }
+
+  if (claim.status === "in_progress") {
+    return NextResponse.json(
+      { error: "A request with this Idempotency-Key is still in progress" },
+      { status: 409 }
+    );
+  }
+
+  if (claim.status === "mismatch") {
+    return NextResponse.json(
+      { error: "This Idempotency-Key was already used for a different request" },
+      { status: 422 }
+    );
+  }
+
+  const release = () =>
+    client.mutation(api.idempotency.releaseIdempotencyKey, {
+      clerkUserId: userId,
+      key,
+    });
+
+  let response: Response;
+  try {
+    response = await handler();
+  } catch (error) {
+    await release();
+    throw error;
+  }
+
+  if (isFinalResponse(response.status)) {
+    await client.mutation(api.idempotency.completeIdempotencyKey, {
+      clerkUserId: userId,
+      key,
+      response: await response.clone().json(),
+      statusCode: response.status,
+    });
+  } else {
+    await release();
+  }
+
+  return response;
+}
@@ -0,0 +1,365 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMemoryCalendarProvider,
+  resetMemoryCalendar,
+} from "./memory-calendar-provider";
+import {
+  createCalendarEvent,
+  createEventSchema,
+  deleteCalendarEvent,
+  deleteEventSchema,
+  updateCalendarEvent,
+  updateEventSchema,
+  type AppliedMutation,
+  type MutationResult,
+} from "./event-mutations";
+import { runBatch } from "./batch-mutations";
+import { revertSnapshot } from "./undo";
+
+// No saved preferences: UTC, primary calendar, hour-long meetings
+vi.mock("@/lib/convex", () => ({
+  client: { query: vi.fn(async () => null), mutation: vi.fn() },
+  getServerSecret: () => "test-secret",
+}));
+
+const USER_ID = "user_test";
+
+const calendar = createMemoryCalendarProvider(USER_ID);
+
+function create(params: Record<string, unknown>) {
+  return createCalendarEvent(
+    calendar,
+    USER_ID,
+    createEventSchema.parse({ timeZone: "UTC", ...params })
+  );
+}
+
+function update(params: Record<string, unknown>) {
+  return updateCalendarEvent(
+    calendar,
+    USER_ID,
+    updateEventSchema.parse(params)
+  );
+}
+
+function applied(result: MutationResult): AppliedMutation {
+  if (result.conflicted || result.dryRun) {
+    throw new Error("Expected the mutation to be applied");
+  }
+  return result;
+}
+
+async function listDay(day = "2026-10-20") {
+  return calendar.listEvents({
+    timeMin: `${day}T00:00:00Z`,
+    timeMax: `${day}T23:59:59Z`,
+  });
+}
+
+beforeEach(() => {
+  resetMemoryCalendar(USER_ID);
+});
+
+describe("memory calendar provider", () => {
+  describe("create", () => {
+    it("resolves local times in the event's zone", async () => {
+      const { event } = applied(
+        await create({
+          title: "Standup",
+          start: "2026-10-20T09:00",
+          end: "2026-10-20T09:15",
+          timeZone: "Europe/Berlin",
+        })
+      );
+
+      expect(event.start).toBe("2026-10-20T07:00:00.000Z");
+      expect(event.end).toBe("2026-10-20T07:15:00.000Z");
+      expect(await calendar.getEvent(event.id)).toMatchObject({
+        title: "Standup",
+        timeZone: "Europe/Berlin",
+      });
+    });
+
+    it("gives events without an end the default meeting length", async () => {
+      const { event } = applied(
+        await create({ title: "Review", start: "2026-10-20T14:00:00Z" })
+      );
+
+      expect(event.end).toBe("2026-10-20T15:00:00.000Z");
+    });
+
+    it("records the created event for undo", async () => {
+      const { event, snapshot } = applied(
+        await create({ title: "Review", start: "2026-10-20T14:00:00Z" })
+      );
+
+      expect(snapshot.created.map((created) => created.id)).toEqual([event.id]);
+    });
+
+    it("previews a dry run without creating anything", async () => {
+      const result = await createCalendarEvent(
+        calendar,
+        USER_ID,
+        createEventSchema.parse({
+          title: "Review",
+          start: "2026-10-20T14:00:00Z",
+        }),
+        { dryRun: true }
+      );
+
+      expect(!result.conflicted && result.dryRun).toBe(true);
+      expect(await listDay()).toEqual([]);
+    });
+
+    it("refuses a timed event given only a date", async () => {
+      await expect(
+        create({ title: "Review", start: "2026-10-20" })
+      ).rejects.toThrow("has no time");
+    });
+  });
+
+  describe("conflicts", () => {
+    beforeEach(async () => {
+      await create({
+        title: "Planning",
+        start: "2026-10-20T14:00:00Z",
+        end: "2026-10-20T15:00:00Z",
+      });
+    });
+
+    it("refuses to double-book", async () => {
+      const result = await create({
+        title: "Review",
+        start: "2026-10-20T14:30:00Z",
+        end: "2026-10-20T15:30:00Z",
+      });
+
+      expect(result.conflicted).toBe(true);
+      if (result.conflicted) {
+        expect(result.conflicts.map((conflict) => conflict.title)).toEqual([
+          "Planning",
+        ]);
+      }
+      expect(await listDay()).toHaveLength(1);
+    });
+
+    it("books over a conflict when allowed", async () => {
+      const result = await create({
+        title: "Review",
+        start: "2026-10-20T14:30:00Z",
+        allowConflicts: true,
+      });
+
+      expect(result.conflicted).toBe(false);
+      expect(await listDay()).toHaveLength(2);
+    });
+
+    it("lets free events overlap", async () => {
+      const result = await create({
+        title: "Focus time",
+        start: "2026-10-20T14:00:00Z",
+        transparency: "free",
+      });
+
+      expect(result.conflicted).toBe(false);
+    });
+
+    it("refuses to move an event onto another", async () => {
+      const { event } = applied(
+        await create({ title: "Review", start: "2026-10-20T16:00:00Z" })
+      );
+
+      const result = await update({
+        eventId: event.id,
+        start: "2026-10-20T14:00:00Z",
+        end: "2026-10-20T14:30:00Z",
+      });
+
+      expect(result.conflicted).toBe(true);
+      expect((await calendar.getEvent(event.id)).start).toBe(event.start);
+    });
+  });
+
+  describe("update", () => {
+    it("changes only the given fields", async () => {
+      const { event } = applied(
+        await create({
+          title: "Review",
+          start: "2026-10-20T14:00:00Z",
+          location: "Room 1",
+        })
+      );
+
+      const updated = applied(
+        await update({ eventId: event.id, title: "Design review" })
+      );
+
+      expect(updated.event).toMatchObject({
+        title: "Design review",
+        location: "Room 1",
+        start: event.start,
+        end: event.end,
+      });
+    });
+
+    it("undoes back to the previous state", async () => {
+      const { event } = applied(
+        await create({ title: "Review", start: "2026-10-20T14:00:00Z" })
+      );
+      const { snapshot } = applied(
+        await update({
+          eventId: event.id,
+          title: "Moved review",
+          start: "2026-10-20T16:00:00Z",
+          end: "2026-10-20T17:00:00Z",
+        })
+      );
+
+      await revertSnapshot(calendar, snapshot);
+
+      expect(await calendar.getEvent(event.id)).toMatchObject({
+        title: "Review",
+        start: event.start,
+        end: event.end,
+      });
+    });
+
+    it("refuses an empty title", () => {
+      expect(
+        updateEventSchema.safeParse({ eventId: "event", title: "" }).success
+      ).toBe(false);
+    });
+
+    it("fails for an unknown event", async () => {
+      await expect(update({ eventId: "missing", title: "x" })).rejects.toThrow(
+        "Event not found"
+      );
+    });
+  });
+
+  describe("delete", () => {
+    it("removes the event and undoes by recreating it", async () => {
+      const { event } = applied(
+        await create({
+          title: "Review",
+          start: "2026-10-20T14:00:00Z",
+          location: "Room 1",
+        })
+      );
+
+      const { snapshot } = await deleteCalendarEvent(
+        calendar,
+        USER_ID,
+        deleteEventSchema.parse({ eventId: event.id })
+      ).then(applied);
+
+      expect(await listDay()).toEqual([]);
+      await expect(calendar.getEvent(event.id)).rejects.toThrow(
+        "Event not found"
+      );
+
+      await revertSnapshot(calendar, snapshot);
+
+      const [restored] = await listDay();
+      expect(restored).toMatchObject({
+        title: "Review",
+        start: event.start,
+        end: event.end,
+        location: "Room 1",
+      });
+    });
+
+    it("cancels one occurrence of a recurring event", async () => {
+      const { event } = applied(
+        await create({
+          title: "Standup",
+          start: "2026-10-19T09:00:00Z",
+          end: "2026-10-19T09:15:00Z",
+          recurrence: { freq: "DAILY", count: 5 },
+        })
+      );
+      const [occurrence] = await listDay();
+      expect(occurrence.recurringEventId).toBe(event.id);
+
+      await deleteCalendarEvent(
+        calendar,
+        USER_ID,
+        deleteEventSchema.parse({ eventId: occurrence.id, scope: "this" })
+      );
+
+      expect(await listDay()).toEqual([]);
+      expect(await listDay("2026-10-21")).toHaveLength(1);
+    });
+  });
+
+  describe("batch", () => {
+    it("rolls back applied operations when one fails", async () => {
+      const { event } = applied(
+        await create({ title: "Planning", start: "2026-10-20T10:00:00Z" })
+      );
+
+      const { results, snapshot } = await runBatch(
+        calendar,
+        USER_ID,
+        [
+          {
+            type: "create",
+            params: createEventSchema.parse({
+              title: "Review",
+              start: "2026-10-20T14:00:00Z",
+            }),
+          },
+          {
+            type: "update",
+            params: updateEventSchema.parse({
+              eventId: event.id,
+              title: "Renamed planning",
+            }),
+          },
+          {
+            type: "delete",
+            params: deleteEventSchema.parse({ eventId: "missing" }),
+          },
+        ],
+        { rollback: true }
+      );
+
+      expect(results.map((result) => result.status)).toEqual([
+        "rolledBack",
+        "rolledBack",
+        "failed",
+      ]);
+      expect(snapshot.created).toEqual([]);
+      expect(snapshot.updated).toEqual([]);
+      expect((await listDay()).map((listed) => listed.title)).toEqual([
+        "Planning",
+      ]);
+    });
+
+    it("keeps applied operations without rollback, and undoes them together", async () => {
+      const { results, snapshot } = await runBatch(calendar, USER_ID, [
+        {
+          type: "create",
+          params: createEventSchema.parse({
+            title: "Review",
+            start: "2026-10-20T14:00:00Z",
+          }),
+        },
+        {
+          type: "delete",
+          params: deleteEventSchema.parse({ eventId: "missing" }),
+        },
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        "applied",
+        "failed",
+      ]);
+      expect(await listDay()).toHaveLength(1);
+
+      await revertSnapshot(calendar, snapshot);
+
+      expect(await listDay()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,409 @@
+import { randomUUID } from "crypto";
+import type {
+  CalendarEvent,
+  CalendarEventPatch,
+  CalendarInfo,
+  CalendarProvider,
+  EventAttendee,
+} from "./calendar-provider";
+import { mergeBusyIntervals } from "./busy-intervals";
+import { paginateEvents, scoreEvent } from "./event-search";
+import { addToDateOrDateTime } from "./ical";
+import {
+  expandRecurrence,
+  formatInstanceId,
+  parseInstanceId,
+  parseRecurrence,
+} from "./rrule";
+
+/**
+ * In-memory calendar backend for tests and local development without Google
+ * Enabled with CALENDAR_PROVIDER=memory. Data lives for the lifetime of the server process.
+ */
+
+interface MemoryUserCalendar {
+  events: Map<string, CalendarEvent>;
+  // Edited (event) or cancelled (null) occurrences of recurring series, keyed by instance ID
+  overrides: Map<string, CalendarEvent | null>;
+}
+
+type MemoryCalendarStore = Map<string, MemoryUserCalendar>;
+
+// Every user gets the same fixed set of calendars
+const MEMORY_CALENDARS: CalendarInfo[] = [
+  { id: "primary", name: "Personal", primary: true, color: "#4285f4" },
+  { id: "team", name: "Team", primary: false, color: "#0b8043" },
+  { id: "family", name: "Family", primary: false, color: "#f4511e" },
+];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Route handlers are bundled separately, so keep the store on globalThis
+// to share it between /api/calendar/* routes within one process
+const globalForMemoryCalendar = globalThis as typeof globalThis & {
+  __memoryCalendarStore?: MemoryCalendarStore;
+};
+
+function getStore(): MemoryCalendarStore {
+  if (!globalForMemoryCalendar.__memoryCalendarStore) {
+    globalForMemoryCalendar.__memoryCalendarStore = new Map();
+  }
+  return globalForMemoryCalendar.__memoryCalendarStore;
+}
+
+function getUserCalendar(userId: string): MemoryUserCalendar {
+  const store = getStore();
+  let calendar = store.get(userId);
+  if (!calendar) {
+    calendar = { events: new Map(), overrides: new Map() };
+    store.set(userId, calendar);
+  }
+  return calendar;
+}
+
+/**
+ * Clear all in-memory events (for a single user, or everyone)
+ */
+export function resetMemoryCalendar(userId?: string) {
+  if (userId) {
+    getStore().delete(userId);
+  } else {
+    getStore().clear();
+  }
+}
+
+function assertCalendarExists(calendarId: string) {
+  if (!MEMORY_CALENDARS.some((calendar) => calendar.id === calendarId)) {
+    throw new Error("Calendar not found");
+  }
+}
+
+function toTime(value: string) {
+  return new Date(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value).getTime();
+}
+
+function overlaps(event: CalendarEvent, timeMin: string, timeMax: string) {
+  const start = toTime(event.start);
+  const end = toTime(event.end);
+  return start < new Date(timeMax).getTime() && end > new Date(timeMin).getTime();
+}
+
+function byStartTime(a: CalendarEvent, b: CalendarEvent) {
+  return toTime(a.start) - toTime(b.start);
+}
+
+/**
+ * Fake Google Meet conference with a code like "abc-defg-hij"
+ */
+function createFakeConference() {
+  const letters = randomUUID()
+    .replace(/-/g, "")
+    .slice(0, 10)
+    .replace(/./g, (hex) => String.fromCharCode(97 + (parseInt(hex, 16) % 26)));
+  const id = `${letters.slice(0, 3)}-${letters.slice(3, 7)}-${letters.slice(7)}`;
+  return { id, joinUrl: `https://meet.google.com/${id}` };
+}
+
+/**
+ * Attendees for a list of emails, keeping existing attendees' responses
+ */
+function toAttendees(
+  emails: string[],
+  existing: EventAttendee[] = []
+): EventAttendee[] {
+  return emails.map(
+    (email) =>
+      existing.find(
+        (attendee) => attendee.email.toLowerCase() === email.toLowerCase()
+      ) || { email, responseStatus: "needsAction" }
+  );
+}
+
+function applyPatch(event: CalendarEvent, patch: CalendarEventPatch) {
+  const updated: CalendarEvent = { ...event };
+
+  if (patch.title !== undefined) updated.title = patch.title;
+  if (patch.start !== undefined) updated.start = patch.start;
+  if (patch.end !== undefined) updated.end = patch.end;
+  if (patch.timeZone !== undefined) updated.timeZone = patch.timeZone;
+  if (patch.location !== undefined) updated.location = patch.location;
+  if (patch.attendees !== undefined) {
+    updated.attendees = toAttendees(patch.attendees, event.attendees);
+  }
+  if (patch.description !== undefined) {
+    updated.description = patch.description;
+  }
+  if (patch.colorId !== undefined) updated.colorId = patch.colorId || undefined;
+  if (patch.visibility !== undefined) updated.visibility = patch.visibility;
+  if (patch.transparency !== undefined) {
+    updated.transparency = patch.transparency;
+  }
+  if (patch.reminders !== undefined) updated.reminders = patch.reminders;
+  if (patch.addVideoCall === true && !updated.conference) {
+    updated.conference = createFakeConference();
+  } else if (patch.addVideoCall === false) {
+    updated.conference = undefined;
+  }
+  if (patch.recurrence !== undefined) updated.recurrence = patch.recurrence;
+
+  return updated;
+}
+
+/**
+ * Build the occurrence of a series starting at originalStart
+ */
+function createInstance(series: CalendarEvent, originalStart: string) {
+  const duration = toTime(series.end) - toTime(series.start);
+  return {
+    ...series,
+    id: formatInstanceId(series.id, originalStart),
+    start: originalStart,
+    end: addToDateOrDateTime(originalStart, duration),
+    recurrence: undefined,
+    recurringEventId: series.id,
+    originalStart,
+  };
+}
+
+/**
+ * Expand a stored event into the events visible in [timeMin, timeMax)
+ */
+function expandEvent(
+  userCalendar: MemoryUserCalendar,
+  event: CalendarEvent,
+  timeMin: string,
+  timeMax: string
+): CalendarEvent[] {
+  const rule = event.recurrence ? parseRecurrence(event.recurrence) : null;
+  if (!rule) {
+    return overlaps(event, timeMin, timeMax) ? [event] : [];
+  }
+
+  const duration = toTime(event.end) - toTime(event.start);
+  const occurrences = expandRecurrence(rule, event.start, {
+    rangeStart: new Date(new Date(timeMin).getTime() - duration).toISOString(),
+    rangeEnd: timeMax,
+    timeZone: event.timeZone,
+  });
+
+  const instances = new Map<string, CalendarEvent>();
+  for (const occurrence of occurrences) {
+    const instance = createInstance(event, occurrence);
+    const override = userCalendar.overrides.get(instance.id);
+    if (override === null) continue;
+    instances.set(instance.id, override || instance);
+  }
+
+  // Edited occurrences may have moved into the range from outside it
+  userCalendar.overrides.forEach((override, id) => {
+    if (override && override.recurringEventId === event.id) {
+      instances.set(id, override);
+    }
+  });
+
+  return Array.from(instances.values()).filter((instance) =>
+    overlaps(instance, timeMin, timeMax)
+  );
+}
+
+function getExistingEvent(
+  userId: string,
+  eventId: string,
+  calendarId: string
+): CalendarEvent {
+  const userCalendar = getUserCalendar(userId);
+  const event = userCalendar.events.get(eventId);
+  if (event) {
+    if (event.calendarId !== calendarId) {
+      throw new Error("Event not found");
+    }
+    return event;
+  }
+
+  // Fall back to an occurrence of a recurring series
+  const instance = parseInstanceId(eventId);
+  const series = instance && userCalendar.events.get(instance.seriesId);
+  const rule = series?.recurrence ? parseRecurrence(series.recurrence) : null;
+  if (!instance || !series || !rule || series.calendarId !== calendarId) {
+    throw new Error("Event not found");
+  }
+
+  const override = userCalendar.overrides.get(eventId);
+  if (override) {
+    return override;
+  }
+
+  const [occurrence] = expandRecurrence(rule, series.start, {
+    rangeStart: instance.originalStart,
+    rangeEnd: new Date(toTime(instance.originalStart) + 1000).toISOString(),
+    max: 1,
+    timeZone: series.timeZone,
+  });
+  if (override === null || !occurrence) {
+    throw new Error("Event not found");
+  }
+
+  return createInstance(series, occurrence);
+}
+
+export function createMemoryCalendarProvider(userId: string): CalendarProvider {
+  const getEventsIn = (calendarIds: string[], timeMin: string, timeMax: string) => {
+    const userCalendar = getUserCalendar(userId);
+    return Array.from(userCalendar.events.values())
+      .filter((event) => calendarIds.includes(event.calendarId || "primary"))
+      .flatMap((event) => expandEvent(userCalendar, event, timeMin, timeMax));
+  };
+
+  return {
+    async listCalendars() {
+      return MEMORY_CALENDARS.map((calendar) => ({ ...calendar }));
+    },
+
+    async listEvents({ timeMin, timeMax, maxResults, calendarId = "primary" }) {
+      assertCalendarExists(calendarId);
+      const events = getEventsIn([calendarId], timeMin, timeMax).sort(
+        byStartTime
+      );
+
+      return (maxResults ? events.slice(0, maxResults) : events).map(
+        (event) => ({ ...event })
+      );
+    },
+
+    async searchEvents({
+      timeMin,
+      timeMax,
+      maxResults,
+      calendarId = "primary",
+      pageToken,
+      ...filters
+    }) {
+      assertCalendarExists(calendarId);
+      const events = getEventsIn([calendarId], timeMin, timeMax)
+        .filter((event) => scoreEvent(event, filters) > 0)
+        .sort(byStartTime)
+        .map((event) => ({ ...event }));
+
+      return paginateEvents(events, { maxResults, pageToken });
+    },
+
+    async getEvent(eventId, calendarId = "primary") {
+      return { ...getExistingEvent(userId, eventId, calendarId) };
+    },
+
+    async createEvent(input, calendarId = "primary") {
+      assertCalendarExists(calendarId);
+
+      const event: CalendarEvent = {
+        id: randomUUID().replace(/-/g, ""),
+        calendarId,
+        title: input.title,
+        start: input.start,
+        end: input.end,
+        timeZone: input.timeZone || "UTC",
+        location: input.location,
+        attendees: toAttendees(input.attendees || []),
+        description: input.description,
+        colorId: input.colorId,
+        visibility: input.visibility || "default",
+        transparency: input.transparency || "busy",
+        reminders: input.reminders || { useDefault: true, overrides: [] },
+        conference: input.addVideoCall ? createFakeConference() : undefined,
+        recurrence: input.recurrence,
+      };
+
+      getUserCalendar(userId).events.set(event.id, event);
+      return { ...event };
+    },
+
+    async updateEvent(eventId, patch, calendarId = "primary") {
+      const existing = getExistingEvent(userId, eventId, calendarId);
+      const userCalendar = getUserCalendar(userId);
+
+      if (existing.recurringEventId) {
+        if (patch.recurrence !== undefined) {
+          throw new Error("Cannot set recurrence on a single occurrence");
+        }
+        const updated = applyPatch(existing, patch);
+        userCalendar.overrides.set(eventId, updated);
+        return { ...updated };
+      }
+
+      const updated = applyPatch(existing, patch);
+      userCalendar.events.set(eventId, updated);
+
+      // Drop edits to occurrences the new rule no longer produces
+      if (patch.recurrence !== undefined || patch.start !== undefined) {
+        const rule = updated.recurrence
+          ? parseRecurrence(updated.recurrence)
+          : null;
+        Array.from(userCalendar.overrides.keys())
+          .filter((id) => id.startsWith(`${eventId}_`))
+          .forEach((id) => {
+            const originalStart = parseInstanceId(id)?.originalStart;
+            const stillScheduled =
+              rule &&
+              originalStart &&
+              expandRecurrence(rule, updated.start, {
+                rangeStart: originalStart,
+                rangeEnd: new Date(toTime(originalStart) + 1000).toISOString(),
+                max: 1,
+                timeZone: updated.timeZone,
+              }).length > 0;
+            if (!stillScheduled) userCalendar.overrides.delete(id);
+          });
+      }
+
+      return { ...updated };
+    },
+
+    async deleteEvent(eventId, calendarId = "primary") {
+      const existing = getExistingEvent(userId, eventId, calendarId);
+      const userCalendar = getUserCalendar(userId);
+
+      if (existing.recurringEventId) {
+        // Cancel just this occurrence
+        userCalendar.overrides.set(eventId, null);
+        return;
+      }
+
+      userCalendar.events.delete(eventId);
+      Array.from(userCalendar.overrides.keys())
+        .filter((id) => id.startsWith(`${eventId}_`))
+        .forEach((id) => userCalendar.overrides.delete(id));
+    },
+
+    async respondToEvent(eventId, { status, comment }, calendarId = "primary") {
+      const existing = getExistingEvent(userId, eventId, calendarId);
+      // Events here are all created by the user, so only a self attendee can respond
+      if (!existing.attendees.some((attendee) => attendee.self)) {
+        throw new Error("You are not invited to this event");
+      }
+
+      const updated: CalendarEvent = {
+        ...existing,
+        attendees: existing.attendees.map((attendee) =>
+          attendee.self
+            ? { ...attendee, responseStatus: status, comment }
+            : attendee
+        ),
+      };
+
+      const userCalendar = getUserCalendar(userId);
+      if (existing.recurringEventId) {
+        userCalendar.overrides.set(eventId, updated);
+      } else {
+        userCalendar.events.set(eventId, updated);
+      }
+      return { ...updated };
+    },
+
+    async queryFreeBusy({ timeMin, timeMax, calendarIds = ["primary"] }) {
+      return mergeBusyIntervals(
+        getEventsIn(calendarIds, timeMin, timeMax).filter(
+          (event) => event.transparency !== "free"
+        )
+      );
+    },
+  };
+}
@@ -0,0 +1,234 @@
+import type {
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarEventPatch,
+  EventReminders,
+} from "./calendar-provider";
+import type { EventConflict } from "./calendar-conflicts";
+import { getLastDay, isAllDay } from "./all-day";
+import { describeRecurrenceLines } from "./rrule";
+import { EVENT_COLORS } from "./event-colors";
+
+/**
+ * Human-readable previews of creates, updates and deletes, for dry runs
+ * The summary is one sentence the agent can read back before the change is made
+ */
+
+export interface FieldChange {
+  field: string;
+  from?: string;
+  to?: string;
+}
+
+export interface MutationPreview {
+  action: "create" | "update" | "delete";
+  summary: string;
+  changes: FieldChange[];
+  conflicts: EventConflict[];
+  warnings?: string[]; // Scheduling preferences the change goes against
+}
+
+type EventFields = Partial<CalendarEventInput> & {
+  conference?: CalendarEvent["conference"];
+};
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatDateTime(value: string, timeZone: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+function formatTime(value: string, timeZone: string): string {
+  return new Date(value).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+/**
+ * When an event happens, e.g. "Tue, Oct 20, 2:00 PM to 3:00 PM" or "Mon, Oct 19 to Wed, Oct 21, all day"
+ */
+export function describeWhen(
+  event: { start: string; end: string },
+  timeZone: string
+): string {
+  if (isAllDay(event)) {
+    const lastDay = getLastDay(event);
+    return lastDay === event.start
+      ? `${formatDate(event.start)}, all day`
+      : `${formatDate(event.start)} to ${formatDate(lastDay)}, all day`;
+  }
+
+  const start = formatDateTime(event.start, timeZone);
+  const sameDay =
+    new Date(event.start).toLocaleDateString("en-US", { timeZone }) ===
+    new Date(event.end).toLocaleDateString("en-US", { timeZone });
+  return sameDay
+    ? `${start} to ${formatTime(event.end, timeZone)}`
+    : `${start} to ${formatDateTime(event.end, timeZone)}`;
+}
+
+function describeReminders(reminders: EventReminders): string {
+  if (reminders.useDefault) return "default reminders";
+  if (reminders.overrides.length === 0) return "no reminders";
+  return reminders.overrides
+    .map((reminder) => `${reminder.method} ${reminder.minutes} minutes before`)
+    .join(", ");
+}
+
+/**
+ * Display values of the fields a preview compares, keyed by field name
+ */
+function describeFields(
+  event: EventFields,
+  timeZone: string
+): Record<string, string | undefined> {
+  return {
+    title: event.title,
+    location: event.location,
+    attendees: event.attendees?.length ? event.attendees.join(", ") : undefined,
+    description: event.description,
+    color: event.colorId ? EVENT_COLORS[event.colorId]?.name : undefined,
+    visibility: event.visibility,
+    transparency: event.transparency,
+    reminders: event.reminders ? describeReminders(event.reminders) : undefined,
+    videoCall:
+      (event.addVideoCall ?? !!event.conference) ? "video call" : undefined,
+    recurrence: describeRecurrenceLines(
+      event.recurrence,
+      event.timeZone ?? timeZone
+    ),
+  };
+}
+
+function describeScope(event: CalendarEvent, scope?: string): string {
+  if (!event.recurringEventId) return "";
+  switch (scope) {
+    case "following":
+      return ", this and all following occurrences";
+    case "all":
+      return ", every occurrence in the series";
+    default:
+      return ", just this occurrence";
+  }
+}
+
+function describeChange(change: FieldChange): string {
+  if (change.field === "when") return `move to ${change.to}`;
+  if (change.to === undefined) return `remove ${change.field}`;
+  return `${change.field} to ${change.to}`;
+}
+
+export function previewCreate(
+  input: CalendarEventInput,
+  conflicts: EventConflict[],
+  timeZone: string
+): MutationPreview {
+  const when = describeWhen(input, timeZone);
+  const changes: FieldChange[] = [{ field: "when", to: when }];
+  for (const [field, value] of Object.entries(describeFields(input, timeZone))) {
+    if (value !== undefined) {
+      changes.push({ field, to: value });
+    }
+  }
+
+  let summary = `Create "${input.title}" on ${when}`;
+  if (input.attendees?.length) {
+    summary += ` with ${input.attendees.join(", ")}`;
+  }
+  const recurrence = describeRecurrenceLines(
+    input.recurrence,
+    input.timeZone ?? timeZone
+  );
+  if (recurrence) {
+    summary += `, ${recurrence}`;
+  }
+
+  return { action: "create", summary, changes, conflicts };
+}
+
+/**
+ * Preview of a patch against the event as it is now; only fields that actually change are listed
+ */
+export function previewUpdate(
+  existing: CalendarEvent,
+  patch: CalendarEventPatch,
+  conflicts: EventConflict[],
+  timeZone: string,
+  scope?: string
+): MutationPreview {
+  const changes: FieldChange[] = [];
+
+  const from = describeWhen(existing, timeZone);
+  const to = describeWhen(
+    { start: patch.start ?? existing.start, end: patch.end ?? existing.end },
+    timeZone
+  );
+  if (from !== to) {
+    changes.push({ field: "when", from, to });
+  }
+
+  const before = describeFields(
+    {
+      ...existing,
+      attendees: existing.attendees.map((attendee) => attendee.email),
+    },
+    timeZone
+  );
+  const after = describeFields(
+    {
+      ...existing,
+      attendees: existing.attendees.map((attendee) => attendee.email),
+      ...patch,
+    },
+    timeZone
+  );
+  for (const field of Object.keys(after)) {
+    if (before[field] !== after[field]) {
+      changes.push({ field, from: before[field], to: after[field] });
+    }
+  }
+
+  const target = `"${existing.title}" on ${from}${describeScope(
+    existing,
+    scope
+  )}`;
+  const summary =
+    changes.length === 0
+      ? `No changes to ${target}`
+      : `Update ${target}: ${changes.map(describeChange).join("; ")}`;
+
+  return { action: "update", summary, changes, conflicts };
+}
+
+export function previewDelete(
+  event: CalendarEvent,
+  timeZone: string,
+  scope?: string
+): MutationPreview {
+  const when = describeWhen(event, timeZone);
+  return {
+    action: "delete",
+    summary: `Delete "${event.title}" on ${when}${describeScope(event, scope)}`,
+    changes: [
+      { field: "title", from: event.title },
+      { field: "when", from: when },
+    ],
+    conflicts: [],
+  };
+}
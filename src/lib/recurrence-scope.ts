@@ -0,0 +1,227 @@
+import type {
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarEventPatch,
+  CalendarProvider,
+} from "./calendar-provider";
+import { addToDateOrDateTime } from "./ical";
+import {
+  buildRecurrence,
+  expandRecurrence,
+  parseRecurrence,
+  type RecurrenceRule,
+} from "./rrule";
+import type { UndoSnapshot } from "./undo";
+
+/**
+ * Scoped edits for recurring events, like calendar apps offer them:
+ * "this" touches one occurrence, "following" splits the series at it, "all" changes the series
+ * Pass a snapshot to record the events each edit touches, for undo
+ */
+
+export type RecurrenceScope = "this" | "following" | "all";
+
+interface ScopeOptions {
+  scope?: RecurrenceScope;
+  calendarId?: string;
+  snapshot?: UndoSnapshot;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function toTime(value: string) {
+  return new Date(value).getTime();
+}
+
+/**
+ * Resolve an instance to its series, or null when scope only touches the event itself
+ */
+async function getSeries(
+  calendar: CalendarProvider,
+  event: CalendarEvent,
+  scope: RecurrenceScope,
+  calendarId?: string
+): Promise<CalendarEvent | null> {
+  if (!event.recurringEventId || scope === "this") {
+    return null;
+  }
+  return calendar.getEvent(event.recurringEventId, calendarId);
+}
+
+function isFirstOccurrence(series: CalendarEvent, originalStart: string) {
+  return toTime(originalStart) <= toTime(series.start);
+}
+
+/**
+ * Split a series rule at an occurrence: the part that ends just before it,
+ * and the part that continues from it
+ */
+function splitRule(
+  rule: RecurrenceRule,
+  series: CalendarEvent,
+  originalStart: string
+): { before: RecurrenceRule; after: RecurrenceRule } {
+  const allDay = DATE_ONLY.test(originalStart);
+  const splitAt = toTime(originalStart);
+  const exdates = rule.exdates || [];
+
+  const before: RecurrenceRule = {
+    ...rule,
+    count: undefined,
+    until: allDay
+      ? addToDateOrDateTime(originalStart, -86400000)
+      : new Date(splitAt - 1000).toISOString(),
+    exdates: exdates.filter((exdate) => toTime(exdate) < splitAt),
+  };
+
+  const after: RecurrenceRule = {
+    ...rule,
+    exdates: exdates.filter((exdate) => toTime(exdate) >= splitAt),
+  };
+
+  // COUNT covers the whole series, so the continuation gets what's left of it
+  if (rule.count) {
+    const elapsed = expandRecurrence(
+      { ...rule, exdates: undefined },
+      series.start,
+      { rangeEnd: originalStart, max: rule.count, timeZone: series.timeZone }
+    ).length;
+    after.count = Math.max(rule.count - elapsed, 1);
+  }
+
+  return { before, after };
+}
+
+/**
+ * Truncate a series so it ends before the given occurrence
+ * Returns the rule for the occurrences from there on
+ */
+async function truncateSeries(
+  calendar: CalendarProvider,
+  series: CalendarEvent,
+  originalStart: string,
+  calendarId?: string
+): Promise<RecurrenceRule> {
+  const rule = series.recurrence ? parseRecurrence(series.recurrence) : null;
+  if (!rule) {
+    throw new Error("Event is not part of a recurring series");
+  }
+
+  const { before, after } = splitRule(rule, series, originalStart);
+  await calendar.updateEvent(
+    series.id,
+    {
+      recurrence: buildRecurrence(before, {
+        allDay: DATE_ONLY.test(originalStart),
+        timeZone: series.timeZone,
+      }),
+    },
+    calendarId
+  );
+
+  return after;
+}
+
+/**
+ * Update an event; for occurrences of a recurring series the scope decides what changes
+ */
+export async function updateEventWithScope(
+  calendar: CalendarProvider,
+  eventId: string,
+  patch: CalendarEventPatch,
+  options: ScopeOptions = {}
+): Promise<CalendarEvent> {
+  const { scope = "this", calendarId, snapshot } = options;
+  const event = await calendar.getEvent(eventId, calendarId);
+  const series = await getSeries(calendar, event, scope, calendarId);
+
+  if (!series) {
+    if (event.recurringEventId && patch.recurrence !== undefined) {
+      throw new Error(
+        "Recurrence can only be changed for all events or this and following events"
+      );
+    }
+    snapshot?.updated.push(event);
+    return calendar.updateEvent(eventId, patch, calendarId);
+  }
+
+  snapshot?.updated.push(series);
+
+  const originalStart = event.originalStart || event.start;
+
+  if (scope === "all" || isFirstOccurrence(series, originalStart)) {
+    // Times given for one occurrence move the whole series by the same amount
+    const seriesPatch: CalendarEventPatch = { ...patch };
+    if (patch.start !== undefined || patch.end !== undefined) {
+      const start = toTime(patch.start ?? event.start);
+      const end = toTime(patch.end ?? event.end);
+      const offset = start - toTime(event.start);
+      seriesPatch.start = addToDateOrDateTime(series.start, offset);
+      seriesPatch.end = addToDateOrDateTime(seriesPatch.start, end - start);
+    }
+    return calendar.updateEvent(series.id, seriesPatch, calendarId);
+  }
+
+  // "following": end the current series here and start a new one with the changes
+  const rule = await truncateSeries(calendar, series, originalStart, calendarId);
+  const duration = toTime(series.end) - toTime(series.start);
+  const start = patch.start ?? originalStart;
+
+  const input: CalendarEventInput = {
+    title: patch.title ?? series.title,
+    start,
+    end: patch.end ?? addToDateOrDateTime(start, duration),
+    timeZone: patch.timeZone ?? series.timeZone,
+    location: patch.location ?? series.location,
+    attendees:
+      patch.attendees ?? series.attendees.map((attendee) => attendee.email),
+    description: patch.description ?? series.description,
+    colorId: patch.colorId ?? series.colorId,
+    visibility: patch.visibility ?? series.visibility,
+    transparency: patch.transparency ?? series.transparency,
+    reminders: patch.reminders ?? series.reminders,
+    // The new series gets its own video call
+    addVideoCall: patch.addVideoCall ?? !!series.conference,
+    recurrence:
+      patch.recurrence ??
+      buildRecurrence(rule, {
+        allDay: DATE_ONLY.test(start),
+        timeZone: patch.timeZone ?? series.timeZone,
+      }),
+  };
+
+  const created = await calendar.createEvent(input, calendarId);
+  snapshot?.created.push(created);
+  return created;
+}
+
+/**
+ * Delete an event; for occurrences of a recurring series the scope decides what goes
+ */
+export async function deleteEventWithScope(
+  calendar: CalendarProvider,
+  eventId: string,
+  options: ScopeOptions = {}
+): Promise<CalendarEvent> {
+  const { scope = "this", calendarId, snapshot } = options;
+  const event = await calendar.getEvent(eventId, calendarId);
+  const series = await getSeries(calendar, event, scope, calendarId);
+
+  if (!series) {
+    await calendar.deleteEvent(eventId, calendarId);
+    snapshot?.deleted.push(event);
+    return event;
+  }
+
+  const originalStart = event.originalStart || event.start;
+
+  if (scope === "all" || isFirstOccurrence(series, originalStart)) {
+    await calendar.deleteEvent(series.id, calendarId);
+    snapshot?.deleted.push(series);
+    return series;
+  }
+
+  await truncateSeries(calendar, series, originalStart, calendarId);
+  snapshot?.updated.push(series);
+  return event;
+}
@@ -0,0 +1,46 @@
+import { z } from "zod";
+import type { EventReminders } from "./calendar-provider";
+
+/**
+ * Reminder overrides shared by the routes and agent tools
+ * Limits follow Google Calendar: at most 5 overrides, up to 4 weeks before
+ */
+
+export const reminderFields = z.object({
+  useDefault: z
+    .boolean()
+    .optional()
+    .describe("Use the calendar's default reminders instead of overrides"),
+  overrides: z
+    .array(
+      z.object({
+        method: z.enum(["popup", "email"]),
+        minutes: z
+          .number()
+          .int()
+          .min(0)
+          .max(40320)
+          .describe("Minutes before the event starts"),
+      })
+    )
+    .max(5)
+    .optional(),
+});
+
+export const remindersSchema = reminderFields.refine(
+  (reminders) => !(reminders.useDefault && reminders.overrides?.length),
+  { message: "Use either default reminders or overrides, not both" }
+);
+
+/**
+ * Normalize route input: giving overrides implies not using the defaults
+ */
+export function toEventReminders(
+  input: z.infer<typeof reminderFields>
+): EventReminders {
+  const overrides = input.overrides || [];
+  return {
+    useDefault: input.useDefault ?? overrides.length === 0,
+    overrides: input.useDefault ? [] : overrides,
+  };
+}
@@ -0,0 +1,615 @@
+import { z } from "zod";
+import {
+  formatICalDate,
+  formatICalDateTime,
+  parseContentLine,
+  parseICalDateTime,
+} from "./ical";
+import {
+  formatZonedTime,
+  getZonedDate,
+  resolveDateTime,
+  zonedTimeToUtc,
+} from "./timezone";
+
+/**
+ * Recurrence rules (RFC 5545 RRULE + EXDATE) shared by the routes and agent tools
+ */
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const ORDINAL_NAMES: Record<string, string> = {
+  "1": "first",
+  "2": "second",
+  "3": "third",
+  "4": "fourth",
+  "5": "fifth",
+  "-1": "last",
+  "-2": "second to last",
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// A date, a local time or an ISO 8601 date-time; anything else would fail later with a RangeError
+const DATE_OR_DATE_TIME =
+  /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+const dateOrDateTime = z.string().regex(DATE_OR_DATE_TIME, {
+  message: "Use a date (YYYY-MM-DD), a local time or ISO 8601",
+});
+
+/**
+ * Recurrence fields; agent tools use this plain object, routes use recurrenceSchema
+ */
+export const recurrenceFields = z.object({
+  freq: z.enum(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]),
+  interval: z.number().int().min(1).optional(),
+  count: z.number().int().min(1).optional(),
+  until: dateOrDateTime
+    .optional()
+    .describe("Last possible date, YYYY-MM-DD, a local time or ISO 8601"),
+  byDay: z
+    .array(z.string().regex(/^(-?[1-5])?(MO|TU|WE|TH|FR|SA|SU)$/))
+    .optional()
+    .describe('Weekdays like ["MO","WE"]; with MONTHLY use "1MO" or "-1FR"'),
+  byMonthDay: z.array(z.number().int().min(-31).max(31)).optional(),
+  byMonth: z.array(z.number().int().min(1).max(12)).optional(),
+  exdates: z
+    .array(dateOrDateTime)
+    .optional()
+    .describe("Start times (local or ISO 8601) of occurrences to skip"),
+});
+
+export const recurrenceSchema = recurrenceFields.refine(
+  (rule) => !(rule.count && rule.until),
+  { message: "Use either count or until, not both" }
+);
+
+export type RecurrenceRule = z.infer<typeof recurrenceSchema>;
+
+/**
+ * Local times in UNTIL are wall-clock times in the event's timezone
+ */
+function formatUntil(until: string, allDay: boolean, timeZone: string): string {
+  if (DATE_ONLY.test(until)) {
+    // A date-only UNTIL includes that whole day
+    return allDay
+      ? formatICalDate(until)
+      : formatICalDateTime(resolveDateTime(`${until}T23:59:59`, timeZone));
+  }
+  const instant = resolveDateTime(until, timeZone);
+  return allDay
+    ? formatICalDate(getZonedDate(new Date(instant), timeZone))
+    : formatICalDateTime(instant);
+}
+
+/**
+ * Build the recurrence lines stored on an event, e.g.
+ * ["RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE", "EXDATE:20261020T140000Z"]
+ * Local times in until and exdates are read in timeZone (UTC by default)
+ */
+export function buildRecurrence(
+  rule: RecurrenceRule,
+  options: { allDay?: boolean; timeZone?: string } = {}
+): string[] {
+  const allDay = !!options.allDay;
+  const timeZone = options.timeZone || "UTC";
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval && rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatUntil(rule.until, allDay, timeZone)}`);
+  }
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  }
+  if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byMonth && rule.byMonth.length > 0) {
+    parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  }
+
+  const lines = [`RRULE:${parts.join(";")}`];
+
+  for (const exdate of rule.exdates || []) {
+    lines.push(
+      DATE_ONLY.test(exdate)
+        ? `EXDATE;VALUE=DATE:${formatICalDate(exdate)}`
+        : `EXDATE:${formatICalDateTime(resolveDateTime(exdate, timeZone))}`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Parse recurrence lines back into a rule (null when there is no RRULE)
+ */
+export function parseRecurrence(lines: string[]): RecurrenceRule | null {
+  let rule: RecurrenceRule | null = null;
+  const exdates: string[] = [];
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+
+    if (property.name === "RRULE") {
+      const values: Record<string, string> = {};
+      for (const part of property.value.split(";")) {
+        const [key, value] = part.split("=");
+        if (key && value) values[key.toUpperCase()] = value;
+      }
+
+      const untilValue = values.UNTIL;
+      rule = {
+        freq: (values.FREQ || "DAILY") as RecurrenceRule["freq"],
+        interval: values.INTERVAL ? parseInt(values.INTERVAL, 10) : undefined,
+        count: values.COUNT ? parseInt(values.COUNT, 10) : undefined,
+        until: untilValue
+          ? parseICalDateTime({ name: "UNTIL", params: {}, value: untilValue })
+          : undefined,
+        byDay: values.BYDAY ? values.BYDAY.split(",") : undefined,
+        byMonthDay: values.BYMONTHDAY
+          ? values.BYMONTHDAY.split(",").map((d) => parseInt(d, 10))
+          : undefined,
+        byMonth: values.BYMONTH
+          ? values.BYMONTH.split(",").map((m) => parseInt(m, 10))
+          : undefined,
+      };
+    } else if (property.name === "EXDATE") {
+      for (const value of property.value.split(",")) {
+        exdates.push(parseICalDateTime({ ...property, value }));
+      }
+    }
+  }
+
+  if (rule && exdates.length > 0) {
+    rule.exdates = exdates;
+  }
+
+  return rule;
+}
+
+// RRULE parts the rule model holds; others (BYSETPOS, BYWEEKNO, BYYEARDAY, BYHOUR, ...) are dropped
+const SUPPORTED_RRULE_PARTS = new Set([
+  "FREQ",
+  "INTERVAL",
+  "COUNT",
+  "UNTIL",
+  "BYDAY",
+  "BYMONTHDAY",
+  "BYMONTH",
+]);
+
+/**
+ * RRULE parts that parseRecurrence can't keep, so the parsed rule would repeat differently
+ * e.g. "last weekday of the month" (BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1) would become every weekday
+ */
+export function findUnsupportedRecurrence(lines: string[]): string[] {
+  const unsupported: string[] = [];
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (property.name !== "RRULE") continue;
+
+    const values: Record<string, string> = {};
+    for (const part of property.value.split(";")) {
+      const [key, value] = part.split("=");
+      if (key && value) values[key.toUpperCase()] = value;
+    }
+
+    for (const [key, value] of Object.entries(values)) {
+      if (key === "FREQ") {
+        if (!recurrenceFields.shape.freq.safeParse(value).success) {
+          unsupported.push(`FREQ=${value}`);
+        }
+      } else if (key === "WKST") {
+        // Weeks are taken to start on Monday; another start only matters when weeks are skipped
+        if (
+          value !== "MO" &&
+          values.FREQ === "WEEKLY" &&
+          parseInt(values.INTERVAL || "1", 10) > 1
+        ) {
+          unsupported.push(`WKST=${value}`);
+        }
+      } else if (!SUPPORTED_RRULE_PARTS.has(key)) {
+        unsupported.push(key);
+      }
+    }
+  }
+
+  return unsupported;
+}
+
+function joinWords(words: string[]): string {
+  if (words.length <= 1) return words.join("");
+  return `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+}
+
+function ordinalSuffix(day: number): string {
+  if (day === -1) return "last day";
+  if (day < 0) return `${-day} days before the end`;
+  const suffix =
+    day % 10 === 1 && day !== 11
+      ? "st"
+      : day % 10 === 2 && day !== 12
+      ? "nd"
+      : day % 10 === 3 && day !== 13
+      ? "rd"
+      : "th";
+  return `${day}${suffix}`;
+}
+
+function describeByDay(byDay: string): string {
+  const match = byDay.match(/^(-?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+  if (!match) return byDay;
+  const [, ordinal, code] = match;
+  const name = WEEKDAY_NAMES[WEEKDAY_CODES.indexOf(code as any)];
+  return ordinal ? `the ${ORDINAL_NAMES[ordinal] || ordinal} ${name}` : name;
+}
+
+/**
+ * Describe a rule in plain English, e.g. "Every 2 weeks on Monday and Wednesday, until October 20, 2026"
+ * An UNTIL time is shown as a date in the event's timeZone (UTC by default)
+ */
+export function describeRecurrence(
+  rule: RecurrenceRule,
+  timeZone = "UTC"
+): string {
+  const interval = rule.interval || 1;
+  const units = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" };
+  const adverbs = {
+    DAILY: "Daily",
+    WEEKLY: "Weekly",
+    MONTHLY: "Monthly",
+    YEARLY: "Yearly",
+  };
+
+  const weekdays = ["MO", "TU", "WE", "TH", "FR"];
+  let text: string;
+
+  if (
+    interval === 1 &&
+    (rule.freq === "WEEKLY" || rule.freq === "DAILY") &&
+    rule.byDay?.length === 5 &&
+    weekdays.every((day) => rule.byDay?.includes(day))
+  ) {
+    text = "Every weekday";
+  } else {
+    text =
+      interval === 1
+        ? adverbs[rule.freq]
+        : `Every ${interval} ${units[rule.freq]}s`;
+
+    if (rule.byMonth && rule.byMonth.length > 0) {
+      text += ` in ${joinWords(rule.byMonth.map((m) => MONTH_NAMES[m - 1]))}`;
+    }
+    if (rule.byDay && rule.byDay.length > 0) {
+      text += ` on ${joinWords(rule.byDay.map(describeByDay))}`;
+    }
+    if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+      const monthDays = joinWords(rule.byMonthDay.map(ordinalSuffix));
+      text += rule.byDay?.length
+        ? `, when it falls on the ${monthDays}`
+        : ` on the ${monthDays}`;
+    }
+  }
+
+  if (rule.count) {
+    text += rule.count === 1 ? ", once" : `, ${rule.count} times`;
+  }
+  if (rule.until) {
+    // A date is shown as is; an instant is shown on the day it falls in the event's zone
+    const until = DATE_ONLY.test(rule.until)
+      ? rule.until
+      : getZonedDate(new Date(resolveDateTime(rule.until, timeZone)), timeZone);
+    text += `, until ${new Date(`${until}T00:00:00Z`).toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    })}`;
+  }
+  if (rule.exdates && rule.exdates.length > 0) {
+    text += ` (${rule.exdates.length} skipped)`;
+  }
+
+  return text;
+}
+
+/**
+ * Describe raw recurrence lines, or undefined if they contain no RRULE
+ */
+export function describeRecurrenceLines(
+  lines?: string[],
+  timeZone?: string
+): string | undefined {
+  if (!lines || lines.length === 0) return undefined;
+  const rule = parseRecurrence(lines);
+  return rule ? describeRecurrence(rule, timeZone) : undefined;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Days (1-based) in a month matching BYDAY entries such as "MO", "1MO", "-1FR"
+ */
+function monthDaysForByDay(year: number, month: number, byDay: string[]) {
+  const total = daysInMonth(year, month);
+  const days: number[] = [];
+
+  for (const entry of byDay) {
+    const match = entry.match(/^(-?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+    if (!match) continue;
+    const weekday = WEEKDAY_CODES.indexOf(match[2] as any);
+    const matching: number[] = [];
+    for (let day = 1; day <= total; day++) {
+      if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) {
+        matching.push(day);
+      }
+    }
+    if (match[1]) {
+      const n = parseInt(match[1], 10);
+      const day = n > 0 ? matching[n - 1] : matching[matching.length + n];
+      if (day) days.push(day);
+    } else {
+      days.push(...matching);
+    }
+  }
+
+  return days;
+}
+
+function monthDaysForByMonthDay(year: number, month: number, byMonthDay: number[]) {
+  const total = daysInMonth(year, month);
+  return byMonthDay
+    .map((day) => (day > 0 ? day : total + day + 1))
+    .filter((day) => day >= 1 && day <= total);
+}
+
+/**
+ * Days (1-based) of a month a rule picks; BYMONTHDAY and BYDAY together
+ * pick the days matching both, e.g. Friday the 13th
+ */
+function monthDaysForRule(
+  year: number,
+  month: number,
+  rule: RecurrenceRule,
+  startDay: number
+): number[] {
+  if (rule.byMonthDay && rule.byDay) {
+    const byDay = monthDaysForByDay(year, month, rule.byDay);
+    return monthDaysForByMonthDay(year, month, rule.byMonthDay).filter((day) =>
+      byDay.includes(day)
+    );
+  }
+  if (rule.byMonthDay) {
+    return monthDaysForByMonthDay(year, month, rule.byMonthDay);
+  }
+  if (rule.byDay) {
+    return monthDaysForByDay(year, month, rule.byDay);
+  }
+  return startDay <= daysInMonth(year, month) ? [startDay] : [];
+}
+
+/**
+ * Days of a year picked by a YEARLY rule's BYDAY without BYMONTH; ordinals count
+ * within the whole year, so "1MO" is its first Monday and "-1FR" its last Friday
+ */
+function yearDaysForRule(
+  year: number,
+  byDay: string[],
+  byMonthDay?: number[]
+): Date[] {
+  const first = Date.UTC(year, 0, 1);
+  const total = (Date.UTC(year + 1, 0, 1) - first) / DAY;
+  const days: Date[] = [];
+
+  for (const entry of byDay) {
+    const match = entry.match(/^(-?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+    if (!match) continue;
+    const weekday = WEEKDAY_CODES.indexOf(match[2] as any);
+    const matching: Date[] = [];
+    for (let index = 0; index < total; index++) {
+      const day = new Date(first + index * DAY);
+      if (day.getUTCDay() === weekday) matching.push(day);
+    }
+    if (match[1]) {
+      const n = parseInt(match[1], 10);
+      const day = n > 0 ? matching[n - 1] : matching[matching.length + n];
+      if (day) days.push(day);
+    } else {
+      days.push(...matching);
+    }
+  }
+
+  // With BYMONTHDAY too, only the days matching both, e.g. every Friday the 13th
+  return byMonthDay
+    ? days.filter((day) =>
+        monthDaysForByMonthDay(year, day.getUTCMonth(), byMonthDay).includes(
+          day.getUTCDate()
+        )
+      )
+    : days;
+}
+
+/**
+ * Expand a rule into occurrence start times within [rangeStart, rangeEnd)
+ * The rule is applied to wall-clock time in timeZone (UTC by default), so
+ * a 9:00 meeting stays at 9:00 across DST changes; date-only starts produce date-only occurrences
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: string,
+  options: {
+    rangeStart?: string;
+    rangeEnd: string;
+    max?: number;
+    timeZone?: string;
+  }
+): string[] {
+  const allDay = DATE_ONLY.test(dtstart);
+  const timeZone = !allDay && options.timeZone !== "UTC" ? options.timeZone : undefined;
+
+  // Candidates are generated as wall-clock times written as if they were UTC
+  const start = allDay
+    ? new Date(`${dtstart}T00:00:00Z`)
+    : timeZone
+    ? new Date(`${formatZonedTime(new Date(dtstart), timeZone)}Z`)
+    : new Date(dtstart);
+  const toInstant = (wallTime: number) =>
+    timeZone
+      ? zonedTimeToUtc(new Date(wallTime).toISOString().slice(0, 19), timeZone).getTime()
+      : wallTime;
+
+  const timeOfDay = start.getTime() % DAY;
+  const interval = rule.interval || 1;
+  const rangeStart = options.rangeStart
+    ? new Date(options.rangeStart).getTime()
+    : -Infinity;
+  const rangeEnd = new Date(options.rangeEnd).getTime();
+  const until = rule.until
+    ? DATE_ONLY.test(rule.until)
+      ? toInstant(new Date(`${rule.until}T23:59:59Z`).getTime())
+      : new Date(resolveDateTime(rule.until, timeZone || "UTC")).getTime()
+    : Infinity;
+  const max = options.max ?? 500;
+  const exdates = new Set(
+    (rule.exdates || []).map((exdate) =>
+      DATE_ONLY.test(exdate)
+        ? toInstant(new Date(`${exdate}T00:00:00Z`).getTime() + timeOfDay)
+        : new Date(resolveDateTime(exdate, timeZone || "UTC")).getTime()
+    )
+  );
+
+  const byDayCodes = (rule.byDay || []).map((entry) =>
+    WEEKDAY_CODES.indexOf(entry.replace(/^-?\d/, "") as any)
+  );
+
+  const candidatesForPeriod = (period: number): number[] => {
+    const days: Date[] = [];
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth();
+
+    if (rule.freq === "DAILY") {
+      days.push(new Date(start.getTime() - timeOfDay + period * interval * DAY));
+    } else if (rule.freq === "WEEKLY") {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const mondayOffset = (start.getUTCDay() + 6) % 7;
+      const weekStart =
+        start.getTime() - timeOfDay - mondayOffset * DAY + period * interval * 7 * DAY;
+      const weekdays = byDayCodes.length > 0 ? byDayCodes : [start.getUTCDay()];
+      for (const weekday of weekdays) {
+        days.push(new Date(weekStart + ((weekday + 6) % 7) * DAY));
+      }
+    } else if (rule.freq === "MONTHLY") {
+      const monthIndex = month + period * interval;
+      const y = year + Math.floor(monthIndex / 12);
+      const m = ((monthIndex % 12) + 12) % 12;
+      for (const day of monthDaysForRule(y, m, rule, start.getUTCDate())) {
+        days.push(new Date(Date.UTC(y, m, day)));
+      }
+    } else {
+      const y = year + period * interval;
+      if (!rule.byMonth && rule.byDay) {
+        days.push(...yearDaysForRule(y, rule.byDay, rule.byMonthDay));
+      } else {
+        // BYMONTHDAY without BYMONTH picks its days in every month
+        const months = rule.byMonth
+          ? rule.byMonth.map((m) => m - 1)
+          : rule.byMonthDay
+          ? Array.from({ length: 12 }, (_, m) => m)
+          : [month];
+        for (const m of months) {
+          for (const day of monthDaysForRule(y, m, rule, start.getUTCDate())) {
+            days.push(new Date(Date.UTC(y, m, day)));
+          }
+        }
+      }
+    }
+
+    return days
+      .filter((day) => !rule.byMonth || rule.byMonth.includes(day.getUTCMonth() + 1))
+      .filter(
+        (day) =>
+          rule.freq !== "DAILY" ||
+          byDayCodes.length === 0 ||
+          byDayCodes.includes(day.getUTCDay())
+      )
+      .map((day) => day.getTime() + timeOfDay)
+      .sort((a, b) => a - b);
+  };
+
+  const occurrences: string[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < 10000; period++) {
+    for (const candidate of candidatesForPeriod(period)) {
+      if (candidate < start.getTime()) continue;
+      const instant = toInstant(candidate);
+      if (instant > until || instant >= rangeEnd) return occurrences;
+      generated++;
+      if (rule.count && generated > rule.count) return occurrences;
+      if (exdates.has(instant) || instant < rangeStart) continue;
+
+      const iso = new Date(instant).toISOString();
+      occurrences.push(allDay ? iso.slice(0, 10) : iso);
+      if (occurrences.length >= max) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Instance IDs follow Google's format: "<seriesId>_20261020T140000Z" (or "_20261020" for all-day)
+ */
+export function formatInstanceId(seriesId: string, originalStart: string) {
+  return `${seriesId}_${
+    DATE_ONLY.test(originalStart)
+      ? formatICalDate(originalStart)
+      : formatICalDateTime(originalStart)
+  }`;
+}
+
+export function parseInstanceId(
+  eventId: string
+): { seriesId: string; originalStart: string } | null {
+  const match = eventId.match(/^(.+)_(\d{8}(?:T\d{6}Z)?)$/);
+  if (!match) return null;
+  return {
+    seriesId: match[1],
+    originalStart: parseICalDateTime({ name: "RECURRENCE-ID", params: {}, value: match[2] }),
+  };
+}
@@ -0,0 +1,211 @@
+import { z } from "zod";
+import { client } from "@/lib/convex";
+import { api } from "convex/_generated/api";
+import type { CalendarProvider } from "./calendar-provider";
+import { formatZonedTime, getZonedParts } from "./timezone";
+
+/**
+ * Scheduling preferences: working hours, default meeting length, buffers and no-meeting days
+ * Create/update fill in defaults from them and warn (without refusing) when a booking goes against them
+ */
+
+// Length of events given without an end when the user hasn't set one
+export const DEFAULT_MEETING_MINUTES = 60;
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const clockTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: "Use 24-hour HH:mm" });
+
+const weekdaySchema = z.number().int().min(0).max(6); // 0 = Sunday
+
+export const schedulingPreferencesSchema = z.object({
+  workingHours: z
+    .array(
+      z
+        .object({
+          day: weekdaySchema,
+          start: clockTimeSchema,
+          end: clockTimeSchema,
+        })
+        .refine((hours) => hours.end > hours.start, {
+          message: "Working hours must end after they start",
+          path: ["end"],
+        })
+    )
+    .refine(
+      (hours) => new Set(hours.map((entry) => entry.day)).size === hours.length,
+      { message: "Each day can only have one set of working hours" }
+    )
+    .optional(), // Days left out aren't working days
+  defaultDurationMinutes: z.number().int().min(5).max(480).optional(),
+  bufferMinutes: z.number().int().min(0).max(120).optional(), // Free time to keep between meetings
+  noMeetingDays: z.array(weekdaySchema).optional(),
+});
+
+export type SchedulingPreferences = z.infer<typeof schedulingPreferencesSchema>;
+
+/**
+ * The user's scheduling preferences, empty until they save some
+ */
+export async function getSchedulingPreferences(
+  userId: string
+): Promise<SchedulingPreferences & { defaultCalendarId?: string }> {
+  const preferences = await client.query(api.preferences.getUserPreferences, {
+    clerkUserId: userId,
+  });
+
+  return {
+    workingHours: preferences?.workingHours,
+    defaultDurationMinutes: preferences?.defaultDurationMinutes,
+    bufferMinutes: preferences?.bufferMinutes,
+    noMeetingDays: preferences?.noMeetingDays,
+    defaultCalendarId: preferences?.defaultCalendarId,
+  };
+}
+
+/**
+ * Reasons a timed booking goes against the user's preferences (empty if it doesn't)
+ * Overlaps are left to the conflict check; this only looks for events closer than the buffer
+ */
+export async function getSchedulingWarnings(
+  calendar: CalendarProvider,
+  preferences: SchedulingPreferences,
+  options: {
+    start: string;
+    end: string;
+    timeZone: string;
+    calendarId?: string;
+    excludeEventId?: string;
+  }
+): Promise<string[]> {
+  const warnings: string[] = [];
+  const localStart = formatZonedTime(
+    new Date(options.start),
+    options.timeZone
+  );
+  const localEnd = formatZonedTime(new Date(options.end), options.timeZone);
+  const date = localStart.slice(0, 10);
+  const weekday = getZonedParts(
+    new Date(options.start),
+    options.timeZone
+  ).weekday;
+  const dayName = WEEKDAY_NAMES[weekday];
+
+  if (preferences.noMeetingDays?.includes(weekday)) {
+    warnings.push(`${dayName} is one of your no-meeting days`);
+  }
+
+  if (preferences.workingHours) {
+    const hours = preferences.workingHours.find(
+      (entry) => entry.day === weekday
+    );
+    if (!hours) {
+      warnings.push(`${dayName} isn't one of your working days`);
+    } else if (
+      localStart.slice(0, 16) < `${date}T${hours.start}` ||
+      localEnd.slice(0, 16) > `${date}T${hours.end}`
+    ) {
+      warnings.push(
+        `It's outside your working hours on ${dayName} (${hours.start}-${hours.end})`
+      );
+    }
+  }
+
+  const buffer = (preferences.bufferMinutes ?? 0) * 60 * 1000;
+  if (buffer > 0) {
+    const start = new Date(options.start).getTime();
+    const end = new Date(options.end).getTime();
+    const events = await calendar.listEvents({
+      timeMin: new Date(start - buffer).toISOString(),
+      timeMax: new Date(end + buffer).toISOString(),
+      calendarId: options.calendarId,
+      maxResults: 50,
+    });
+
+    for (const event of events) {
+      if (
+        event.id === options.excludeEventId ||
+        DATE_ONLY.test(event.start) ||
+        event.transparency === "free"
+      ) {
+        continue;
+      }
+
+      const eventStart = new Date(event.start).getTime();
+      const eventEnd = new Date(event.end).getTime();
+      const overlaps = eventStart < end && eventEnd > start;
+      const tooClose = eventStart < end + buffer && eventEnd > start - buffer;
+      if (!overlaps && tooClose) {
+        warnings.push(
+          `Less than ${preferences.bufferMinutes} minutes from "${event.title}"`
+        );
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Preferences as a few lines for the agent's instructions (empty if nothing is set)
+ */
+export function describeSchedulingPreferences(
+  preferences: SchedulingPreferences
+): string {
+  const lines: string[] = [];
+
+  if (preferences.workingHours) {
+    // Days with the same hours are listed together, e.g. "Monday, Tuesday 09:00-17:00"
+    const byHours = new Map<string, string[]>();
+    const sorted = [...preferences.workingHours].sort((a, b) => a.day - b.day);
+    for (const entry of sorted) {
+      const range = `${entry.start}-${entry.end}`;
+      byHours.set(range, [
+        ...(byHours.get(range) ?? []),
+        WEEKDAY_NAMES[entry.day],
+      ]);
+    }
+    const ranges = Array.from(
+      byHours,
+      ([range, days]) => `${days.join(", ")} ${range}`
+    );
+    lines.push(
+      `Working hours: ${ranges.length > 0 ? ranges.join("; ") : "no working days"}`
+    );
+  }
+
+  if (preferences.defaultDurationMinutes) {
+    lines.push(
+      `Default meeting length: ${preferences.defaultDurationMinutes} minutes`
+    );
+  }
+
+  if (preferences.bufferMinutes) {
+    lines.push(
+      `Keep ${preferences.bufferMinutes} minutes free between meetings`
+    );
+  }
+
+  if (preferences.noMeetingDays && preferences.noMeetingDays.length > 0) {
+    lines.push(
+      `No meetings on: ${[...preferences.noMeetingDays]
+        .sort((a, b) => a - b)
+        .map((day) => WEEKDAY_NAMES[day])
+        .join(", ")}`
+    );
+  }
+
+  return lines.join("\n");
+}
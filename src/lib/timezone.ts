@@ -0,0 +1,222 @@
+/**
+ * Timezone helpers built on Intl, so IANA zones (including DST) work without extra dependencies
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Break an instant into wall-clock parts in the given timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = part.value;
+    }
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Returns the UTC offset of a timezone at a given instant, in minutes
+ * e.g. 120 for Europe/Berlin in summer, -300 for America/New_York in winter
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+
+  // Drop milliseconds so the difference is a whole number of minutes
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function getZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDaysToDate(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Converts a wall-clock time ("2026-10-20T14:00" or "2026-10-20T14:00:00")
+ * in the given IANA timezone to the corresponding instant
+ */
+export function zonedTimeToUtc(wallTime: string, timeZone: string): Date {
+  const match = wallTime.match(
+    /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/
+  );
+  if (!match) {
+    throw new Error(`Invalid local time: ${wallTime}`);
+  }
+
+  const [, year, month, day, hour, minute, second] = match;
+  const guess = Date.UTC(
+    parseInt(year, 10),
+    parseInt(month, 10) - 1,
+    parseInt(day, 10),
+    parseInt(hour, 10),
+    parseInt(minute, 10),
+    parseInt(second || "0", 10)
+  );
+
+  // Try the offsets from either side of a possible DST transition; a reading is valid
+  // when the zone really has that offset at the resulting instant
+  const oneDay = 24 * 60 * 60 * 1000;
+  const offsetBefore = getTimeZoneOffset(new Date(guess - oneDay), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(guess + oneDay), timeZone);
+  const before = guess - offsetBefore * 60000;
+  const after = guess - offsetAfter * 60000;
+  const isValid = (instant: number, offset: number) =>
+    getTimeZoneOffset(new Date(instant), timeZone) === offset;
+
+  // A repeated time (clocks going back) takes the first occurrence;
+  // a skipped time (clocks going forward) keeps the earlier offset, so it moves forward,
+  // e.g. 02:30 on the spring-forward night in New York is 03:30 EDT
+  if (isValid(before, offsetBefore) && isValid(after, offsetAfter)) {
+    return new Date(Math.min(before, after));
+  }
+  if (isValid(after, offsetAfter)) {
+    return new Date(after);
+  }
+  return new Date(before);
+}
+
+/**
+ * Check that a string is an IANA timezone Intl understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of an instant in the given timezone, e.g. "2026-10-20T14:00:00"
+ */
+export function formatZonedTime(date: Date, timeZone: string): string {
+  const { year, month, day, hour, minute, second } = getZonedParts(
+    date,
+    timeZone
+  );
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(
+    second
+  )}`;
+}
+
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?$/;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PARTS = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/;
+
+/**
+ * Whether the date and time written at the start of a value exist on the calendar
+ * Date parsing rolls impossible values over (2026-02-30 becomes March 2), so check them first
+ */
+function isOnCalendar(value: string): boolean {
+  const match = value.match(DATE_TIME_PARTS);
+  if (!match) {
+    return true; // Not ISO-like; left to Date parsing
+  }
+
+  const [year, month, day, hour, minute, second] = match
+    .slice(1)
+    .map((part) => parseInt(part || "0", 10));
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return (
+    month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= daysInMonth &&
+    hour <= 23 &&
+    minute <= 59 &&
+    second <= 59
+  );
+}
+
+/**
+ * Resolve an event start/end to something providers accept:
+ * values with an offset are kept as they are,
+ * local wall-clock times ("2026-10-20T14:00") are interpreted in the given timezone
+ * Dates without a time are only kept for all-day events; timed events need a time
+ */
+export function resolveDateTime(
+  value: string,
+  timeZone: string,
+  options: { allDay?: boolean } = {}
+): string {
+  if (!isOnCalendar(value)) {
+    throw new Error(`Invalid date-time: ${value} is not on the calendar`);
+  }
+
+  if (DATE_ONLY.test(value)) {
+    if (!options.allDay) {
+      throw new Error(
+        `Invalid date-time: ${value} has no time; give a time or make the event all-day`
+      );
+    }
+    return value;
+  }
+
+  if (LOCAL_DATE_TIME.test(value)) {
+    return zonedTimeToUtc(value, timeZone).toISOString();
+  }
+
+  if (isNaN(new Date(value).getTime())) {
+    throw new Error(`Invalid date-time: ${value}`);
+  }
+  return value;
+}
@@ -0,0 +1,191 @@
+import type {
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarEventPatch,
+  CalendarProvider,
+} from "./calendar-provider";
+import { describeWhen } from "./mutation-preview";
+
+/**
+ * Undo for calendar changes
+ * Every create/update/delete logs a snapshot of the events it touched;
+ * reverting it deletes what was created, restores what was changed and re-creates what was deleted
+ */
+
+export interface UndoSnapshot {
+  created: CalendarEvent[];
+  updated: CalendarEvent[]; // State before the change
+  deleted: CalendarEvent[];
+}
+
+export function createUndoSnapshot(): UndoSnapshot {
+  return { created: [], updated: [], deleted: [] };
+}
+
+export function isUndoable(snapshot: UndoSnapshot): boolean {
+  return (
+    snapshot.created.length > 0 ||
+    snapshot.updated.length > 0 ||
+    snapshot.deleted.length > 0
+  );
+}
+
+/**
+ * What reverting a snapshot will do, one line per event, for the undo preview
+ */
+export function describeRevert(
+  snapshot: UndoSnapshot,
+  timeZone: string
+): string[] {
+  return [
+    ...snapshot.created.map(
+      (event) => `Delete "${event.title}" on ${describeWhen(event, timeZone)}`
+    ),
+    ...snapshot.updated.map(
+      (event) =>
+        `Restore "${event.title}" to how it was, on ${describeWhen(event, timeZone)}`
+    ),
+    ...snapshot.deleted.map(
+      (event) =>
+        `Bring back "${event.title}" on ${describeWhen(event, timeZone)}`
+    ),
+  ];
+}
+
+function isNotFound(error: unknown): boolean {
+  const code = (error as { code?: number })?.code;
+  const message = error instanceof Error ? error.message : "";
+  return code === 404 || code === 410 || /not found|deleted/i.test(message);
+}
+
+/**
+ * Input that re-creates an event as it was
+ * A deleted occurrence comes back as a standalone event
+ */
+function toEventInput(event: CalendarEvent): CalendarEventInput {
+  return {
+    title: event.title,
+    start: event.start,
+    end: event.end,
+    timeZone: event.timeZone,
+    location: event.location,
+    attendees: event.attendees.map((attendee) => attendee.email),
+    description: event.description,
+    colorId: event.colorId,
+    visibility: event.visibility,
+    transparency: event.transparency,
+    reminders: event.reminders,
+    addVideoCall: event.conference ? true : undefined,
+    recurrence: event.recurringEventId ? undefined : event.recurrence,
+  };
+}
+
+/**
+ * Patch that puts an event back to an earlier state, touching only what differs
+ */
+function toRestorePatch(
+  current: CalendarEvent,
+  previous: CalendarEvent
+): CalendarEventPatch {
+  const patch: CalendarEventPatch = {};
+  const differs = (a: unknown, b: unknown) =>
+    JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+
+  if (differs(current.title, previous.title)) patch.title = previous.title;
+  if (differs(current.start, previous.start)) patch.start = previous.start;
+  if (differs(current.end, previous.end)) patch.end = previous.end;
+  if (previous.timeZone && differs(current.timeZone, previous.timeZone)) {
+    patch.timeZone = previous.timeZone;
+  }
+  if (differs(current.location, previous.location)) {
+    patch.location = previous.location ?? "";
+  }
+
+  const previousEmails = previous.attendees.map((attendee) => attendee.email);
+  if (
+    differs(
+      current.attendees.map((attendee) => attendee.email),
+      previousEmails
+    )
+  ) {
+    patch.attendees = previousEmails;
+  }
+
+  if (differs(current.description, previous.description)) {
+    patch.description = previous.description ?? "";
+  }
+  if (differs(current.colorId, previous.colorId)) {
+    patch.colorId = previous.colorId ?? "";
+  }
+  if (differs(current.visibility, previous.visibility)) {
+    patch.visibility = previous.visibility ?? "default";
+  }
+  if (differs(current.transparency, previous.transparency)) {
+    patch.transparency = previous.transparency ?? "busy";
+  }
+  if (previous.reminders && differs(current.reminders, previous.reminders)) {
+    patch.reminders = previous.reminders;
+  }
+  // A removed video call gets a new link; the old one can't be restored
+  if (!!current.conference !== !!previous.conference) {
+    patch.addVideoCall = !!previous.conference;
+  }
+  if (
+    !previous.recurringEventId &&
+    differs(current.recurrence, previous.recurrence)
+  ) {
+    patch.recurrence = previous.recurrence ?? [];
+  }
+
+  return patch;
+}
+
+/**
+ * Revert the changes recorded in a snapshot
+ * Returns the events as they are after the undo
+ */
+export async function revertSnapshot(
+  calendar: CalendarProvider,
+  snapshot: UndoSnapshot
+): Promise<CalendarEvent[]> {
+  const results: CalendarEvent[] = [];
+
+  // Created first: a "this and following" edit created a new series
+  // and truncated the old one, so the old one only makes sense once it's gone
+  for (const event of snapshot.created) {
+    try {
+      await calendar.deleteEvent(event.id, event.calendarId);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  for (const previous of snapshot.updated) {
+    let current: CalendarEvent;
+    try {
+      current = await calendar.getEvent(previous.id, previous.calendarId);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      // Deleted since; bring it back as it was
+      results.push(
+        await calendar.createEvent(toEventInput(previous), previous.calendarId)
+      );
+      continue;
+    }
+
+    const patch = toRestorePatch(current, previous);
+    results.push(
+      Object.keys(patch).length > 0
+        ? await calendar.updateEvent(previous.id, patch, previous.calendarId)
+        : current
+    );
+  }
+
+  for (const event of snapshot.deleted) {
+    results.push(
+      await calendar.createEvent(toEventInput(event), event.calendarId)
+    );
+  }
+
+  return results;
+}
@@ -6,3 +6,9 @@
 export const VOICE_SESSION_END_EVENT = "voice-session-end";
 
 export const VOICE_SESSION_ID_KEY = "voice-session-id";
+
+// Sent with calendar changes so everything from one session can be undone together
+export const VOICE_SESSION_HEADER = "x-voice-session-id";
+
+// Derived from the function call ID so a re-issued call doesn't repeat a change
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
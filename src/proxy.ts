@@ -1,6 +1,16 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 
-const isPublicRoute = createRouteMatcher(["/", "/sign-in(.*)", "/sign-up(.*)"]);
+const isPublicRoute = createRouteMatcher([
+  "/",
+  "/sign-in(.*)",
+  "/sign-up(.*)",
+  // Called by Google and Convex, which authenticate with channel tokens and a shared secret
+  "/api/calendar/webhook",
+  "/api/calendar/webhook/renew",
+  "/api/calendar/webhook/sync",
+  // Subscription feeds are authorized by the secret token in the URL
+  "/api/calendar/feed/(.*)",
+]);
 
 export default clerkMiddleware(async (auth, request) => {
   if (!isPublicRoute(request)) {
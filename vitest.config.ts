@@ -0,0 +1,14 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// The tsconfig paths, so modules that reach Convex load in tests (which mock the client)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+      "convex/_generated": fileURLToPath(
+        new URL("./convex/_generated", import.meta.url)
+      ),
+    },
+  },
+});